@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { supabase } from './lib/supabaseClient';
 import {
   Layout,
@@ -18,23 +18,38 @@ import {
   PlusOutlined,
   LoginOutlined,
   LogoutOutlined,
+  ImportOutlined,
+  TagsOutlined,
+  SolutionOutlined,
+  SlidersOutlined,
+  TrophyOutlined,
+  OrderedListOutlined,
 } from '@ant-design/icons';
 import Auth from './components/auth';
 import CandidateForm from './components/candidateForm';
 import CandidateList from './components/candidateList';
+import CandidateImport from './components/candidateImport';
+import SkillTaxonomy from './components/skillTaxonomy';
+import JobRequirements from './components/jobRequirements';
+import ScoringSettings from './components/scoringSettings';
+import Recommendations from './components/recommendations';
+import Shortlists from './components/shortlists';
 
 const { Header, Content, Sider } = Layout;
 const { Title, Text } = Typography;
 
-type MenuKey = 'candidates' | 'add-candidate' | 'login';
+type MenuKey = 'candidates' | 'add-candidate' | 'recommend' | 'shortlists' | 'positions' | 'skills' | 'scoring' | 'login';
 
 export default function App() {
   const [user, setUser] = useState<any>(null);
   const [selectedMenu, setSelectedMenu] = useState<MenuKey>('candidates');
   const [authModalVisible, setAuthModalVisible] = useState(false);
   const [addCandidateModalVisible, setAddCandidateModalVisible] = useState(false);
+  const [importModalVisible, setImportModalVisible] = useState(false);
   const [loading, setLoading] = useState(false);
   const [reloadCandidates, setReloadCandidates] = useState(false);
+  // Giữ nguyên tham chiếu để effect reload của CandidateList không chạy lại sau mỗi lần render
+  const handleReloadDone = useCallback(() => setReloadCandidates(false), []);
 
   // Theo dõi trạng thái đăng nhập
   useEffect(() => {
@@ -88,6 +103,11 @@ export default function App() {
     message.success('Thêm ứng viên thành công');
   };
 
+  const handleCandidatesImported = () => {
+    setSelectedMenu('candidates');
+    setReloadCandidates(true);
+  };
+
   const userMenuItems = [
     {
       key: 'profile',
@@ -103,12 +123,60 @@ export default function App() {
     },
   ];
 
+  const sideMenuItems = [
+    {
+      key: 'candidates',
+      icon: <TeamOutlined />,
+      label: 'Ứng viên',
+    },
+    {
+      key: 'add-candidate',
+      icon: <PlusOutlined />,
+      label: 'Thêm ứng viên',
+    },
+    {
+      key: 'recommend',
+      icon: <TrophyOutlined />,
+      label: 'Tìm ứng viên phù hợp',
+    },
+    {
+      key: 'shortlists',
+      icon: <OrderedListOutlined />,
+      label: 'Shortlist',
+    },
+    {
+      key: 'positions',
+      icon: <SolutionOutlined />,
+      label: 'Vị trí tuyển dụng',
+    },
+    {
+      key: 'skills',
+      icon: <TagsOutlined />,
+      label: 'Danh mục kỹ năng',
+    },
+    {
+      key: 'scoring',
+      icon: <SlidersOutlined />,
+      label: 'Cấu hình chấm điểm',
+    },
+  ];
+
   const renderContent = () => {
     switch (selectedMenu) {
+      case 'recommend':
+        return <Recommendations />;
+      case 'shortlists':
+        return <Shortlists />;
+      case 'positions':
+        return <JobRequirements />;
+      case 'skills':
+        return <SkillTaxonomy />;
+      case 'scoring':
+        return <ScoringSettings />;
       case 'candidates':
-        return <CandidateList reload={reloadCandidates} onReloadDone={() => setReloadCandidates(false)} />;
+        return <CandidateList reload={reloadCandidates} onReloadDone={handleReloadDone} />;
       default:
-        return <CandidateList reload={reloadCandidates} onReloadDone={() => setReloadCandidates(false)} />;
+        return <CandidateList reload={reloadCandidates} onReloadDone={handleReloadDone} />;
     }
   };
 
@@ -159,7 +227,18 @@ export default function App() {
       </Header>
 
       <Layout>
-        
+        {/* Sidebar */}
+        {user && (
+          <Sider width={220} style={{ background: '#fff' }}>
+            <Menu
+              mode="inline"
+              selectedKeys={[selectedMenu]}
+              items={sideMenuItems}
+              onClick={({ key }) => handleMenuClick(key as MenuKey)}
+              style={{ height: '100%', borderRight: 0 }}
+            />
+          </Sider>
+        )}
 
         {/* Main Content */}
         <Layout style={{ padding: '24px' }}>
@@ -189,6 +268,12 @@ export default function App() {
                   >
                     Thêm ứng viên
                   </Button>
+                  <Button 
+                    icon={<ImportOutlined />}
+                    onClick={() => setImportModalVisible(true)}
+                  >
+                    Nhập từ file
+                  </Button>
                 </Space>
               </Card>
             )}
@@ -241,6 +326,18 @@ export default function App() {
       >
         <CandidateForm onCreated={handleCandidateCreated} />
       </Modal>
+
+      {/* Import Candidates Modal */}
+      <Modal
+        title="Nhập ứng viên từ file CSV/JSON"
+        open={importModalVisible}
+        onCancel={() => setImportModalVisible(false)}
+        footer={null}
+        width={800}
+        destroyOnClose
+      >
+        <CandidateImport onImported={handleCandidatesImported} />
+      </Modal>
     </Layout>
   );
 }
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { Input, Modal, Radio, Select, Space, Typography, message } from "antd";
+import {
+  addToShortlist,
+  createShortlist,
+  fetchShortlists,
+  type Shortlist,
+  type ShortlistCandidate,
+} from "../lib/shortlists";
+
+const { Text } = Typography;
+
+interface AddToShortlistProps {
+  open: boolean;
+  candidates: ShortlistCandidate[];
+  // Vị trí của kết quả gợi ý: ưu tiên shortlist cùng vị trí và gắn vào shortlist mới
+  jobRequirementId?: string | null;
+  defaultName?: string;
+  onClose: () => void;
+}
+
+export default function AddToShortlist({
+  open,
+  candidates,
+  jobRequirementId = null,
+  defaultName = "",
+  onClose,
+}: AddToShortlistProps) {
+  const [shortlists, setShortlists] = useState<Shortlist[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [mode, setMode] = useState<"existing" | "new">("existing");
+  const [shortlistId, setShortlistId] = useState<string>();
+  const [name, setName] = useState(defaultName);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    setName(defaultName);
+    fetchShortlists()
+      .then((data) => {
+        // Shortlist cùng vị trí lên đầu
+        const sorted = [...data].sort(
+          (a, b) =>
+            Number(b.job_requirement_id === jobRequirementId) -
+            Number(a.job_requirement_id === jobRequirementId)
+        );
+        setShortlists(sorted);
+        setShortlistId(sorted[0]?.id);
+        setMode(sorted.length > 0 ? "existing" : "new");
+      })
+      .catch((error) => message.error("Lỗi khi tải shortlist: " + (error as Error).message))
+      .finally(() => setLoading(false));
+  }, [open, jobRequirementId, defaultName]);
+
+  const handleOk = async () => {
+    setSaving(true);
+    try {
+      const targetId =
+        mode === "new" ? (await createShortlist(name, jobRequirementId)).id : shortlistId;
+      if (!targetId) return;
+
+      const added = await addToShortlist(targetId, candidates);
+      const skipped = candidates.length - added;
+      message.success(
+        skipped > 0
+          ? `Đã thêm ${added} ứng viên (${skipped} ứng viên đã có trong shortlist)`
+          : `Đã thêm ${added} ứng viên vào shortlist`
+      );
+      onClose();
+    } catch (error) {
+      message.error("Lỗi khi thêm vào shortlist: " + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      title={`Thêm ${candidates.length} ứng viên vào shortlist`}
+      open={open}
+      onCancel={onClose}
+      onOk={handleOk}
+      okText="Thêm"
+      cancelText="Hủy"
+      confirmLoading={saving}
+      okButtonProps={{
+        disabled: mode === "existing" ? !shortlistId : !name.trim(),
+      }}
+      destroyOnClose
+    >
+      <Space direction="vertical" style={{ width: "100%" }}>
+        <Radio.Group value={mode} onChange={(e) => setMode(e.target.value)}>
+          <Radio value="existing" disabled={shortlists.length === 0}>
+            Shortlist có sẵn
+          </Radio>
+          <Radio value="new">Tạo shortlist mới</Radio>
+        </Radio.Group>
+
+        {mode === "existing" ? (
+          <Select
+            style={{ width: "100%" }}
+            loading={loading}
+            value={shortlistId}
+            onChange={setShortlistId}
+            options={shortlists.map((shortlist) => ({
+              value: shortlist.id,
+              label: shortlist.job_requirements?.title
+                ? `${shortlist.name} · ${shortlist.job_requirements.title}`
+                : shortlist.name,
+            }))}
+          />
+        ) : (
+          <Input
+            placeholder="Tên shortlist"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={120}
+          />
+        )}
+
+        <Text type="secondary">
+          Điểm hiện tại của ứng viên được lưu lại tại thời điểm thêm.
+        </Text>
+      </Space>
+    </Modal>
+  );
+}
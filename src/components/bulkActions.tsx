@@ -0,0 +1,259 @@
+import { useState } from "react";
+import {
+  Alert,
+  Button,
+  Dropdown,
+  Form,
+  Modal,
+  Popconfirm,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Typography,
+  message,
+} from "antd";
+import {
+  DeleteOutlined,
+  DownloadOutlined,
+  OrderedListOutlined,
+  SwapOutlined,
+  TagsOutlined,
+} from "@ant-design/icons";
+import { getErrorMessage } from "../lib/edgeFunctions";
+import {
+  BULK_RESULT_LABELS,
+  type BulkRequest,
+  type BulkResponse,
+  type BulkResult,
+  exportCandidatesCsv,
+  runBulkAction,
+} from "../lib/bulkCandidates";
+import { fetchShortlists, type Shortlist } from "../lib/shortlists";
+
+const { Text } = Typography;
+
+const STATUSES = ["New", "Screening", "Interviewing", "Hired", "Rejected"];
+
+interface BulkActionsProps {
+  selectedIds: string[];
+  // Tên hiển thị của hồ sơ đã chọn (có thể thiếu nếu hồ sơ ở trang khác)
+  names: Record<string, string>;
+  onClearSelection: () => void;
+  onDone: (response: BulkResponse) => void;
+}
+
+interface TagFormValues {
+  add_tags?: string[];
+  remove_tags?: string[];
+}
+
+const ACTION_LABELS: Record<BulkResponse["action"], string> = {
+  status: "Đổi trạng thái",
+  delete: "Xóa",
+  tag: "Gắn nhãn",
+  shortlist: "Thêm vào shortlist",
+  export: "Xuất CSV",
+};
+
+// Thanh thao tác hàng loạt trên các hồ sơ đã chọn
+export default function BulkActions({ selectedIds, names, onClearSelection, onDone }: BulkActionsProps) {
+  const [tagForm] = Form.useForm<TagFormValues>();
+  const [running, setRunning] = useState(false);
+  const [tagOpen, setTagOpen] = useState(false);
+  const [shortlistOpen, setShortlistOpen] = useState(false);
+  const [shortlists, setShortlists] = useState<Shortlist[]>([]);
+  const [shortlistId, setShortlistId] = useState<string>();
+  // Kết quả lần chạy gần nhất có hồ sơ thất bại
+  const [failedResults, setFailedResults] = useState<BulkResult[]>([]);
+
+  const run = async (request: BulkRequest): Promise<boolean> => {
+    setRunning(true);
+    try {
+      const response = await runBulkAction(request);
+      const label = ACTION_LABELS[response.action];
+
+      if (response.action === "export" && response.rows) exportCandidatesCsv(response.rows);
+
+      if (response.failed > 0) {
+        message.warning(`${label}: ${response.succeeded} thành công, ${response.failed} thất bại`);
+        setFailedResults(response.results.filter((result) => !result.ok));
+      } else {
+        message.success(`${label}: ${response.succeeded} hồ sơ`);
+      }
+      onDone(response);
+      return true;
+    } catch (error) {
+      message.error(`Lỗi khi thực hiện thao tác: ${getErrorMessage(error)}`);
+      return false;
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const openShortlist = async () => {
+    setShortlistOpen(true);
+    try {
+      setShortlists(await fetchShortlists());
+    } catch (error) {
+      message.error("Lỗi khi tải shortlist: " + (error as Error).message);
+    }
+  };
+
+  const handleTag = async (values: TagFormValues) => {
+    const done = await run({
+      action: "tag",
+      candidate_ids: selectedIds,
+      add_tags: values.add_tags,
+      remove_tags: values.remove_tags,
+    });
+    if (done) setTagOpen(false);
+  };
+
+  const handleShortlist = async () => {
+    if (!shortlistId) return;
+    const done = await run({ action: "shortlist", candidate_ids: selectedIds, shortlist_id: shortlistId });
+    if (done) setShortlistOpen(false);
+  };
+
+  return (
+    <>
+      <Alert
+        type="info"
+        style={{ marginBottom: 16 }}
+        message={
+          <Space wrap>
+            <Text strong>Đã chọn {selectedIds.length} hồ sơ</Text>
+            <Dropdown
+              disabled={running}
+              menu={{
+                items: STATUSES.map((status) => ({ key: status, label: status })),
+                onClick: ({ key }) => run({ action: "status", candidate_ids: selectedIds, status: key }),
+              }}
+            >
+              <Button size="small" icon={<SwapOutlined />} loading={running}>
+                Đổi trạng thái
+              </Button>
+            </Dropdown>
+            <Button
+              size="small"
+              icon={<TagsOutlined />}
+              disabled={running}
+              onClick={() => {
+                tagForm.resetFields();
+                setTagOpen(true);
+              }}
+            >
+              Gắn nhãn
+            </Button>
+            <Button size="small" icon={<OrderedListOutlined />} disabled={running} onClick={openShortlist}>
+              Thêm vào shortlist
+            </Button>
+            <Button
+              size="small"
+              icon={<DownloadOutlined />}
+              disabled={running}
+              onClick={() => run({ action: "export", candidate_ids: selectedIds })}
+            >
+              Xuất CSV
+            </Button>
+            <Popconfirm
+              title={`Xóa ${selectedIds.length} hồ sơ đã chọn?`}
+              description="Không thể hoàn tác thao tác này"
+              onConfirm={() => run({ action: "delete", candidate_ids: selectedIds })}
+              okText="Xóa"
+              cancelText="Hủy"
+              okButtonProps={{ danger: true }}
+            >
+              <Button size="small" danger icon={<DeleteOutlined />} disabled={running}>
+                Xóa
+              </Button>
+            </Popconfirm>
+            <Button size="small" type="link" onClick={onClearSelection}>
+              Bỏ chọn
+            </Button>
+          </Space>
+        }
+      />
+
+      {/* Modal gắn nhãn */}
+      <Modal
+        title={`Gắn nhãn cho ${selectedIds.length} hồ sơ`}
+        open={tagOpen}
+        onCancel={() => setTagOpen(false)}
+        onOk={() => tagForm.submit()}
+        okText="Áp dụng"
+        cancelText="Hủy"
+        confirmLoading={running}
+        forceRender
+      >
+        <Form form={tagForm} layout="vertical" onFinish={handleTag}>
+          <Form.Item name="add_tags" label="Thêm nhãn">
+            <Select mode="tags" placeholder="Ví dụ: Tiềm năng, Cần gọi lại" tokenSeparators={[","]} />
+          </Form.Item>
+          <Form.Item name="remove_tags" label="Bỏ nhãn">
+            <Select mode="tags" placeholder="Nhãn cần bỏ" tokenSeparators={[","]} />
+          </Form.Item>
+        </Form>
+      </Modal>
+
+      {/* Modal thêm vào shortlist */}
+      <Modal
+        title={`Thêm ${selectedIds.length} hồ sơ vào shortlist`}
+        open={shortlistOpen}
+        onCancel={() => setShortlistOpen(false)}
+        onOk={handleShortlist}
+        okText="Thêm"
+        cancelText="Hủy"
+        okButtonProps={{ disabled: !shortlistId }}
+        confirmLoading={running}
+        destroyOnClose
+      >
+        <Select
+          style={{ width: "100%" }}
+          placeholder="Chọn shortlist"
+          value={shortlistId}
+          onChange={setShortlistId}
+          showSearch
+          optionFilterProp="label"
+          options={shortlists.map((shortlist) => ({
+            value: shortlist.id,
+            label: shortlist.job_requirements?.title
+              ? `${shortlist.name} — ${shortlist.job_requirements.title}`
+              : shortlist.name,
+          }))}
+        />
+      </Modal>
+
+      {/* Hồ sơ không áp dụng được */}
+      <Modal
+        title="Hồ sơ không áp dụng được"
+        open={failedResults.length > 0}
+        onCancel={() => setFailedResults([])}
+        footer={null}
+        destroyOnClose
+      >
+        <Table
+          size="small"
+          rowKey="candidate_id"
+          dataSource={failedResults}
+          pagination={false}
+          columns={[
+            {
+              title: "Hồ sơ",
+              dataIndex: "candidate_id",
+              key: "candidate_id",
+              render: (id: string) => names[id] ?? <Text code>{id}</Text>,
+            },
+            {
+              title: "Kết quả",
+              dataIndex: "result",
+              key: "result",
+              render: (result: BulkResult["result"]) => <Tag color="red">{BULK_RESULT_LABELS[result]}</Tag>,
+            },
+          ]}
+        />
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,265 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button, Empty, Select, Space, Spin, Table, Tag, Typography, message } from "antd";
+import type { ColumnsType } from "antd/es/table";
+import { CheckOutlined, CloseOutlined, PrinterOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+import { fetchJobRequirements, type JobRequirement, type SkillTier } from "../lib/jobRequirements";
+import { callEdgeFunction, getErrorMessage } from "../lib/edgeFunctions";
+import {
+  type CandidateExperience,
+  EDUCATION_LABELS,
+  type ExperienceShortfall,
+  formatShortfall,
+  SENIORITY_LABELS,
+} from "../lib/experience";
+
+const { Text } = Typography;
+
+// Màu nền cho hàng có giá trị khác nhau giữa các ứng viên
+const DIFF_BACKGROUND = "#fffbe6";
+
+interface ComparedCandidate extends CandidateExperience {
+  id: string;
+  full_name: string;
+  applied_position: string | null;
+  status: string;
+  created_at: string;
+  matching_score: number | null;
+  job_score: number;
+  matched_skills: string[];
+  missing_must_haves: string[];
+  meets_must_haves: boolean;
+  under_experienced_skills: ExperienceShortfall[];
+  other_skills: string[];
+}
+
+interface SkillMatrixRow {
+  skill: string;
+  tier: SkillTier;
+  weight: number;
+  has: Record<string, boolean>;
+  differs: boolean;
+}
+
+interface CompareResponse {
+  job_requirement: { id: string; title: string };
+  candidates: ComparedCandidate[];
+  skill_matrix: SkillMatrixRow[];
+}
+
+// Một hàng của bảng so sánh: thông tin chung hoặc một kỹ năng yêu cầu
+interface ComparisonRow {
+  key: string;
+  label: string;
+  tier?: SkillTier;
+  values: Record<string, string | boolean>;
+  differs: boolean;
+}
+
+interface CandidateComparisonProps {
+  candidateIds: string[];
+  defaultJobRequirementId?: string | null;
+}
+
+function buildRows(result: CompareResponse): ComparisonRow[] {
+  const infoRow = (key: string, label: string, value: (c: ComparedCandidate) => string): ComparisonRow => {
+    const values: Record<string, string> = {};
+    result.candidates.forEach((candidate) => {
+      values[candidate.id] = value(candidate);
+    });
+    const distinct = new Set(Object.values(values));
+    return { key, label, values, differs: distinct.size > 1 };
+  };
+
+  return [
+    infoRow("job_score", `Điểm với ${result.job_requirement.title}`, (c) => `${c.job_score}%`),
+    infoRow("matching_score", "Điểm phù hợp đã lưu", (c) =>
+      c.matching_score !== null ? `${c.matching_score}%` : "—"
+    ),
+    infoRow("status", "Trạng thái", (c) => c.status),
+    infoRow("created_at", "Ngày nộp", (c) => dayjs(c.created_at).format("DD/MM/YYYY")),
+    infoRow("applied_position", "Vị trí ứng tuyển", (c) => c.applied_position || "—"),
+    infoRow("total_years_experience", "Số năm kinh nghiệm", (c) =>
+      c.total_years_experience != null ? `${c.total_years_experience} năm` : "—"
+    ),
+    infoRow("seniority", "Cấp bậc", (c) => (c.seniority ? SENIORITY_LABELS[c.seniority] : "—")),
+    infoRow("education_level", "Học vấn", (c) => (c.education_level ? EDUCATION_LABELS[c.education_level] : "—")),
+    infoRow("under_experienced_skills", "Chưa đủ số năm", (c) =>
+      c.under_experienced_skills.map(formatShortfall).join(", ") || "—"
+    ),
+    ...result.skill_matrix.map((row) => ({
+      key: `skill:${row.skill}`,
+      label: row.skill,
+      tier: row.tier,
+      values: row.has,
+      differs: row.differs,
+    })),
+    infoRow("other_skills", "Kỹ năng khác", (c) => c.other_skills.join(", ") || "—"),
+  ];
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// Mở bản tóm tắt một trang để in hoặc lưu PDF từ trình duyệt
+function printSummary(result: CompareResponse, rows: ComparisonRow[]) {
+  const header = result.candidates
+    .map((candidate) => `<th>${escapeHtml(candidate.full_name)}</th>`)
+    .join("");
+  const body = rows
+    .map((row) => {
+      const cells = result.candidates
+        .map((candidate) => {
+          const value = row.values[candidate.id];
+          return `<td>${typeof value === "boolean" ? (value ? "✓" : "✗") : escapeHtml(value)}</td>`;
+        })
+        .join("");
+      const label = row.tier === "must_have" ? `${escapeHtml(row.label)} *` : escapeHtml(row.label);
+      return `<tr class="${row.differs ? "diff" : ""}"><th>${label}</th>${cells}</tr>`;
+    })
+    .join("");
+
+  const html = `<!doctype html><html><head><meta charset="utf-8">
+<title>So sánh ứng viên - ${escapeHtml(result.job_requirement.title)}</title>
+<style>
+  @page { size: A4 landscape; margin: 12mm; }
+  body { font-family: sans-serif; font-size: 12px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+  tr.diff { background: ${DIFF_BACKGROUND}; }
+  .note { color: #888; margin-top: 8px; }
+</style></head><body>
+<h2>So sánh ứng viên - ${escapeHtml(result.job_requirement.title)}</h2>
+<table><thead><tr><th></th>${header}</tr></thead><tbody>${body}</tbody></table>
+<p class="note">* Kỹ năng bắt buộc. Hàng tô màu: các ứng viên khác nhau. Xuất ngày ${dayjs().format("DD/MM/YYYY HH:mm")}</p>
+</body></html>`;
+
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) {
+    message.error("Trình duyệt đã chặn cửa sổ in");
+    return;
+  }
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
+
+export default function CandidateComparison({
+  candidateIds,
+  defaultJobRequirementId,
+}: CandidateComparisonProps) {
+  const [positions, setPositions] = useState<JobRequirement[]>([]);
+  const [jobRequirementId, setJobRequirementId] = useState<string | undefined>(
+    defaultJobRequirementId ?? undefined
+  );
+  const [result, setResult] = useState<CompareResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    fetchJobRequirements()
+      .then((data) => {
+        setPositions(data);
+        setJobRequirementId((current) => current ?? data.find((job) => job.is_open)?.id);
+      })
+      .catch((error) => message.error("Lỗi khi tải vị trí tuyển dụng: " + getErrorMessage(error)));
+  }, []);
+
+  const fetchComparison = useCallback(async () => {
+    if (!jobRequirementId) return;
+
+    setLoading(true);
+    try {
+      setResult(
+        await callEdgeFunction<CompareResponse>("compare-candidates", {
+          body: { candidate_ids: candidateIds, job_requirement_id: jobRequirementId },
+        })
+      );
+    } catch (error) {
+      setResult(null);
+      message.error("Lỗi khi so sánh ứng viên: " + getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [candidateIds, jobRequirementId]);
+
+  useEffect(() => {
+    fetchComparison();
+  }, [fetchComparison]);
+
+  const rows = result ? buildRows(result) : [];
+
+  const columns: ColumnsType<ComparisonRow> = [
+    {
+      title: "",
+      key: "label",
+      fixed: "left",
+      width: 200,
+      render: (row: ComparisonRow) => (
+        <Space size={4}>
+          <Text strong={!row.tier}>{row.label}</Text>
+          {row.tier === "must_have" && <Tag color="volcano">Bắt buộc</Tag>}
+        </Space>
+      ),
+    },
+    ...(result?.candidates ?? []).map((candidate) => ({
+      title: candidate.full_name,
+      key: candidate.id,
+      render: (row: ComparisonRow) => {
+        const value = row.values[candidate.id];
+        if (typeof value === "boolean") {
+          return value ? (
+            <CheckOutlined style={{ color: "#52c41a" }} />
+          ) : (
+            <CloseOutlined style={{ color: row.tier === "must_have" ? "#ff4d4f" : "#bfbfbf" }} />
+          );
+        }
+        return <Text>{value}</Text>;
+      },
+    })),
+  ];
+
+  return (
+    <Space direction="vertical" style={{ width: "100%" }}>
+      <Space wrap>
+        <Select
+          showSearch
+          optionFilterProp="label"
+          placeholder="So sánh theo vị trí"
+          style={{ width: 300 }}
+          value={jobRequirementId}
+          onChange={setJobRequirementId}
+          options={positions.map((job) => ({ value: job.id, label: job.title }))}
+        />
+        <Button
+          icon={<PrinterOutlined />}
+          disabled={!result}
+          onClick={() => result && printSummary(result, rows)}
+        >
+          Xuất bản tóm tắt
+        </Button>
+        <Space size={4}>
+          <span style={{ display: "inline-block", width: 12, height: 12, background: DIFF_BACKGROUND, border: "1px solid #ffe58f" }} />
+          <Text type="secondary">Khác nhau giữa các ứng viên</Text>
+        </Space>
+      </Space>
+
+      <Spin spinning={loading}>
+        {result ? (
+          <Table
+            rowKey="key"
+            size="small"
+            columns={columns}
+            dataSource={rows}
+            pagination={false}
+            scroll={{ x: 200 + 180 * result.candidates.length }}
+            onRow={(row) => ({ style: row.differs ? { background: DIFF_BACKGROUND } : undefined })}
+          />
+        ) : (
+          <Empty description="Chọn vị trí để so sánh" />
+        )}
+      </Spin>
+    </Space>
+  );
+}
@@ -0,0 +1,508 @@
+import { type ReactNode, useCallback, useEffect, useState } from "react";
+import {
+  Button,
+  Descriptions,
+  Drawer,
+  Empty,
+  Input,
+  Popconfirm,
+  Progress,
+  Select,
+  Space,
+  Spin,
+  Table,
+  Tabs,
+  Tag,
+  Timeline,
+  Tooltip,
+  Typography,
+  message,
+} from "antd";
+import type { ColumnsType } from "antd/es/table";
+import {
+  CheckOutlined,
+  CloseOutlined,
+  DeleteOutlined,
+  FilePdfOutlined,
+  LinkOutlined,
+  OrderedListOutlined,
+  WarningOutlined,
+} from "@ant-design/icons";
+import dayjs from "dayjs";
+import { supabase } from "../lib/supabaseClient";
+import { getErrorMessage } from "../lib/edgeFunctions";
+import {
+  addCandidateNote,
+  type CandidateDetail as CandidateDetailData,
+  deleteCandidateNote,
+  fetchCandidateDetail,
+} from "../lib/candidateDetail";
+import type { SkillRequirement } from "../lib/jobRequirements";
+import {
+  EDUCATION_LABELS,
+  formatShortfall,
+  SENIORITY_COLORS,
+  SENIORITY_LABELS,
+} from "../lib/experience";
+import ResumeHistory from "./resumeHistory";
+import SuggestedPositions from "./suggestedPositions";
+import AddToShortlist from "./addToShortlist";
+
+const { Text, Paragraph } = Typography;
+const { TextArea } = Input;
+
+const STATUSES = ["New", "Screening", "Interviewing", "Hired", "Rejected"];
+
+interface CandidateDetailProps {
+  candidateId: string | null;
+  onClose: () => void;
+  // Hồ sơ thay đổi (trạng thái, CV) để danh sách tải lại
+  onChanged?: () => void;
+}
+
+// Một mục trên dòng thời gian hoạt động: đổi trạng thái hoặc ghi chú
+interface ActivityItem {
+  key: string;
+  at: string;
+  noteId?: string;
+  content: ReactNode;
+  color: string;
+}
+
+// Chi tiết ứng viên: toàn bộ thông tin, CV, điểm với job đang ứng tuyển và hoạt động
+export default function CandidateDetail({ candidateId, onClose, onChanged }: CandidateDetailProps) {
+  const [detail, setDetail] = useState<CandidateDetailData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [noteText, setNoteText] = useState("");
+  const [savingNote, setSavingNote] = useState(false);
+  const [shortlistOpen, setShortlistOpen] = useState(false);
+
+  const loadDetail = useCallback(async () => {
+    if (!candidateId) return;
+
+    setLoading(true);
+    try {
+      setDetail(await fetchCandidateDetail(candidateId));
+    } catch (error) {
+      setDetail(null);
+      message.error("Lỗi khi tải hồ sơ: " + getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [candidateId]);
+
+  useEffect(() => {
+    setDetail(null);
+    setNoteText("");
+    loadDetail();
+  }, [loadDetail]);
+
+  const handleStatusChange = async (status: string) => {
+    if (!detail) return;
+    const { error } = await supabase
+      .from("candidates")
+      .update({ status })
+      .eq("id", detail.candidate.id);
+
+    if (error) {
+      message.error("Lỗi khi cập nhật trạng thái: " + error.message);
+      return;
+    }
+    message.success(`Đã cập nhật trạng thái thành "${status}"`);
+    await loadDetail();
+    onChanged?.();
+  };
+
+  const handleAddNote = async () => {
+    if (!detail || !noteText.trim()) return;
+
+    setSavingNote(true);
+    try {
+      const note = await addCandidateNote(detail.candidate.id, noteText);
+      setDetail((prev) => prev && { ...prev, notes: [note, ...prev.notes] });
+      setNoteText("");
+    } catch (error) {
+      message.error("Lỗi khi thêm ghi chú: " + (error as Error).message);
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  const handleDeleteNote = async (id: string) => {
+    try {
+      await deleteCandidateNote(id);
+      setDetail((prev) => prev && { ...prev, notes: prev.notes.filter((note) => note.id !== id) });
+    } catch (error) {
+      message.error("Lỗi khi xóa ghi chú: " + (error as Error).message);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      message.success("Đã sao chép đường dẫn tới hồ sơ");
+    } catch {
+      message.error("Không sao chép được đường dẫn");
+    }
+  };
+
+  const candidate = detail?.candidate;
+
+  const renderProfile = () => {
+    if (!detail || !candidate) return null;
+    const skillYears = Object.entries(candidate.skill_years ?? {});
+
+    return (
+      <Descriptions column={2} size="small" bordered>
+        <Descriptions.Item label="Họ tên">{candidate.full_name}</Descriptions.Item>
+        <Descriptions.Item label="Vị trí ứng tuyển">{candidate.applied_position || "—"}</Descriptions.Item>
+        <Descriptions.Item label="Email">{candidate.email || "—"}</Descriptions.Item>
+        <Descriptions.Item label="Điện thoại">{candidate.phone || "—"}</Descriptions.Item>
+        <Descriptions.Item label="Ngày nộp">
+          {dayjs(candidate.created_at).format("DD/MM/YYYY HH:mm")}
+        </Descriptions.Item>
+        <Descriptions.Item label="Đổi trạng thái lần cuối">
+          {dayjs(candidate.status_updated_at).format("DD/MM/YYYY HH:mm")}
+        </Descriptions.Item>
+        <Descriptions.Item label="Kinh nghiệm">
+          {candidate.total_years_experience != null ? `${candidate.total_years_experience} năm` : "—"}
+        </Descriptions.Item>
+        <Descriptions.Item label="Cấp bậc">
+          {candidate.seniority ? (
+            <Tag color={SENIORITY_COLORS[candidate.seniority]}>{SENIORITY_LABELS[candidate.seniority]}</Tag>
+          ) : (
+            "—"
+          )}
+        </Descriptions.Item>
+        <Descriptions.Item label="Học vấn">
+          {candidate.education_level ? EDUCATION_LABELS[candidate.education_level] : "—"}
+        </Descriptions.Item>
+        <Descriptions.Item label="Điểm phù hợp">
+          {candidate.matching_score != null ? `${candidate.matching_score}%` : "—"}
+          {candidate.score_stale && (
+            <Tag color="orange" style={{ marginLeft: 8 }}>
+              Điểm cũ
+            </Tag>
+          )}
+        </Descriptions.Item>
+        <Descriptions.Item label="Kỹ năng" span={2}>
+          {(candidate.skills ?? []).length > 0 ? (
+            <Space size={[0, 4]} wrap>
+              {(candidate.skills ?? []).map((skill) => (
+                <Tag key={skill} color="blue">
+                  {skill}
+                </Tag>
+              ))}
+            </Space>
+          ) : (
+            <Text type="secondary">Không có</Text>
+          )}
+        </Descriptions.Item>
+        {candidate.tags.length > 0 && (
+          <Descriptions.Item label="Nhãn" span={2}>
+            <Space size={[0, 4]} wrap>
+              {candidate.tags.map((tag) => (
+                <Tag key={tag} color="gold">
+                  {tag}
+                </Tag>
+              ))}
+            </Space>
+          </Descriptions.Item>
+        )}
+        <Descriptions.Item label="Nhận diện từ CV" span={2}>
+          {(candidate.detected_skills ?? []).length > 0 ? (
+            <Space size={[0, 4]} wrap>
+              {(candidate.detected_skills ?? []).map((skill) => (
+                <Tag key={skill}>{skill}</Tag>
+              ))}
+            </Space>
+          ) : (
+            <Text type="secondary">Không có</Text>
+          )}
+        </Descriptions.Item>
+        {skillYears.length > 0 && (
+          <Descriptions.Item label="Số năm theo kỹ năng" span={2}>
+            {skillYears.map(([skill, years]) => `${skill}: ${years} năm`).join(", ")}
+          </Descriptions.Item>
+        )}
+        <Descriptions.Item label="Shortlist" span={2}>
+          {detail.shortlists.length > 0
+            ? detail.shortlists.map((entry) => (
+              <Tooltip key={entry.id} title={entry.note || undefined}>
+                <Tag icon={<OrderedListOutlined />}>
+                  {entry.shortlists?.name} #{entry.position + 1}
+                </Tag>
+              </Tooltip>
+            ))
+            : "—"}
+        </Descriptions.Item>
+        {detail.suggestions.length > 0 && (
+          <Descriptions.Item label="Phù hợp với vị trí mới" span={2}>
+            {detail.suggestions.map((suggestion) => (
+              <Tag key={suggestion.id} color="purple">
+                {suggestion.job_requirements?.title} · {Math.round(suggestion.score)}
+              </Tag>
+            ))}
+          </Descriptions.Item>
+        )}
+        {detail.duplicates.length > 0 && (
+          <Descriptions.Item label="Có thể trùng với" span={2}>
+            {detail.duplicates.map((duplicate) => (
+              <Tag key={duplicate.id} color="orange" icon={<WarningOutlined />}>
+                {duplicate.full_name} ({dayjs(duplicate.created_at).format("DD/MM/YYYY")})
+              </Tag>
+            ))}
+          </Descriptions.Item>
+        )}
+      </Descriptions>
+    );
+  };
+
+  const renderResume = () => {
+    const url = candidate?.resume_preview_url || candidate?.resume_url;
+    if (!url) return <Empty description="Chưa có CV" />;
+    return (
+      <Space direction="vertical" style={{ width: "100%" }}>
+        <Button type="link" icon={<FilePdfOutlined />} href={url} target="_blank" rel="noopener noreferrer">
+          Mở trong tab mới
+        </Button>
+        <iframe
+          title="CV"
+          src={url}
+          style={{ width: "100%", height: "70vh", border: "1px solid #f0f0f0" }}
+        />
+      </Space>
+    );
+  };
+
+  const renderScore = () => {
+    const scoreDetails = detail?.score_details;
+    if (!scoreDetails) {
+      return <Empty description="Hồ sơ chưa gắn với vị trí tuyển dụng nào" />;
+    }
+
+    const requirementColumns: ColumnsType<SkillRequirement> = [
+      { title: "Kỹ năng", dataIndex: "skill", key: "skill" },
+      {
+        title: "Mức",
+        dataIndex: "tier",
+        key: "tier",
+        render: (tier: SkillRequirement["tier"]) => (
+          <Tag color={tier === "must_have" ? "red" : "blue"}>{tier === "must_have" ? "Bắt buộc" : "Ưu tiên"}</Tag>
+        ),
+      },
+      { title: "Trọng số", dataIndex: "weight", key: "weight", align: "center" },
+      {
+        title: "Tối thiểu",
+        dataIndex: "min_years",
+        key: "min_years",
+        render: (years?: number | null) => (years ? `${years} năm` : "—"),
+      },
+      {
+        title: "Ứng viên",
+        key: "match",
+        render: (_: unknown, requirement: SkillRequirement) => {
+          const shortfall = scoreDetails.under_experienced_skills.find((item) => item.skill === requirement.skill);
+          if (shortfall) return <Tag color="orange">{formatShortfall(shortfall)}</Tag>;
+          return scoreDetails.matched_skills.includes(requirement.skill) ? (
+            <CheckOutlined style={{ color: "#52c41a" }} />
+          ) : (
+            <CloseOutlined style={{ color: "#ff4d4f" }} />
+          );
+        },
+      },
+    ];
+
+    return (
+      <Space direction="vertical" style={{ width: "100%" }}>
+        <Space align="center">
+          <Progress type="circle" size={64} percent={scoreDetails.score} />
+          <Space direction="vertical" size={0}>
+            <Text strong>{scoreDetails.job_requirement.title}</Text>
+            <Text type="secondary">
+              {scoreDetails.job_requirement.department || "—"}
+              {scoreDetails.job_requirement.is_open ? "" : " · đã đóng tuyển"}
+            </Text>
+            {scoreDetails.job_requirement.min_years_experience != null && (
+              <Text type={scoreDetails.meets_experience ? "secondary" : "warning"}>
+                Yêu cầu tối thiểu {scoreDetails.job_requirement.min_years_experience} năm kinh nghiệm
+              </Text>
+            )}
+          </Space>
+        </Space>
+        {!scoreDetails.meets_must_haves && (
+          <Tag color="red" icon={<WarningOutlined />}>
+            Thiếu kỹ năng bắt buộc: {scoreDetails.missing_must_haves.join(", ")}
+          </Tag>
+        )}
+        {candidate?.matching_score != null && candidate.matching_score !== scoreDetails.score && (
+          <Text type="secondary">
+            Điểm đã lưu {candidate.matching_score}% khác điểm hiện tại, hãy tính lại điểm để cập nhật danh sách.
+          </Text>
+        )}
+        <Table
+          size="small"
+          rowKey="skill"
+          columns={requirementColumns}
+          dataSource={scoreDetails.job_requirement.skill_requirements}
+          pagination={false}
+        />
+      </Space>
+    );
+  };
+
+  const renderActivity = () => {
+    if (!detail) return null;
+
+    const items: ActivityItem[] = [
+      ...detail.status_history.map((change) => ({
+        key: `status:${change.id}`,
+        at: change.changed_at,
+        color: "blue",
+        content: change.from_status ? (
+          <Text>
+            Đổi trạng thái <Tag>{change.from_status}</Tag>→ <Tag color="blue">{change.to_status}</Tag>
+          </Text>
+        ) : (
+          <Text>
+            Tạo hồ sơ với trạng thái <Tag color="blue">{change.to_status}</Tag>
+          </Text>
+        ),
+      })),
+      ...detail.notes.map((note) => ({
+        key: `note:${note.id}`,
+        at: note.created_at,
+        noteId: note.id,
+        color: "green",
+        content: <Paragraph style={{ whiteSpace: "pre-wrap", marginBottom: 0 }}>{note.body}</Paragraph>,
+      })),
+    ].sort((a, b) => dayjs(b.at).valueOf() - dayjs(a.at).valueOf());
+
+    return (
+      <Space direction="vertical" style={{ width: "100%" }}>
+        <TextArea
+          rows={3}
+          maxLength={5000}
+          placeholder="Thêm ghi chú về ứng viên"
+          value={noteText}
+          onChange={(e) => setNoteText(e.target.value)}
+        />
+        <Button type="primary" onClick={handleAddNote} loading={savingNote} disabled={!noteText.trim()}>
+          Thêm ghi chú
+        </Button>
+        <Timeline
+          style={{ marginTop: 16 }}
+          items={items.map((item) => ({
+            key: item.key,
+            color: item.color,
+            children: (
+              <Space direction="vertical" size={0} style={{ width: "100%" }}>
+                <Space>
+                  <Text type="secondary" style={{ fontSize: 12 }}>
+                    {dayjs(item.at).format("DD/MM/YYYY HH:mm")}
+                  </Text>
+                  {item.noteId && (
+                    <Popconfirm
+                      title="Xóa ghi chú này?"
+                      onConfirm={() => handleDeleteNote(item.noteId!)}
+                      okText="Xóa"
+                      cancelText="Hủy"
+                      okButtonProps={{ danger: true }}
+                    >
+                      <Button type="text" size="small" danger icon={<DeleteOutlined />} />
+                    </Popconfirm>
+                  )}
+                </Space>
+                {item.content}
+              </Space>
+            ),
+          }))}
+        />
+      </Space>
+    );
+  };
+
+  return (
+    <Drawer
+      open={!!candidateId}
+      onClose={onClose}
+      width={880}
+      destroyOnClose
+      title={
+        candidate ? (
+          <Space>
+            <span>{candidate.full_name}</span>
+            <Tag color="blue">{candidate.status}</Tag>
+          </Space>
+        ) : (
+          "Hồ sơ ứng viên"
+        )
+      }
+      extra={
+        candidate && (
+          <Space>
+            <Select
+              value={candidate.status}
+              style={{ width: 140 }}
+              onChange={handleStatusChange}
+              options={STATUSES.map((value) => ({ value, label: value }))}
+            />
+            <Tooltip title="Thêm vào shortlist">
+              <Button icon={<OrderedListOutlined />} onClick={() => setShortlistOpen(true)} />
+            </Tooltip>
+            <Tooltip title="Sao chép đường dẫn tới hồ sơ">
+              <Button icon={<LinkOutlined />} onClick={handleCopyLink} />
+            </Tooltip>
+          </Space>
+        )
+      }
+    >
+      {loading && !detail ? (
+        <div style={{ textAlign: "center", padding: 48 }}>
+          <Spin />
+        </div>
+      ) : detail && candidate ? (
+        <Tabs
+          items={[
+            { key: "profile", label: "Hồ sơ", children: renderProfile() },
+            { key: "resume", label: "CV", children: renderResume() },
+            { key: "score", label: "Điểm", children: renderScore() },
+            {
+              key: "activity",
+              label: `Hoạt động (${detail.status_history.length + detail.notes.length})`,
+              children: renderActivity(),
+            },
+            {
+              key: "versions",
+              label: `Phiên bản CV (${detail.resumes.length})`,
+              children: (
+                <ResumeHistory
+                  candidateId={candidate.id}
+                  onChanged={() => {
+                    loadDetail();
+                    onChanged?.();
+                  }}
+                />
+              ),
+            },
+            { key: "positions", label: "Vị trí phù hợp", children: <SuggestedPositions candidateId={candidate.id} /> },
+          ]}
+        />
+      ) : (
+        <Empty description="Không tìm thấy hồ sơ" />
+      )}
+
+      {candidate && (
+        <AddToShortlist
+          open={shortlistOpen}
+          candidates={[{ candidate_id: candidate.id, score_snapshot: candidate.matching_score }]}
+          jobRequirementId={candidate.job_requirement_id}
+          onClose={() => {
+            setShortlistOpen(false);
+            loadDetail();
+          }}
+        />
+      )}
+    </Drawer>
+  );
+}
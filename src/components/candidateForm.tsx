@@ -1,5 +1,19 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { supabase } from "../lib/supabaseClient";
+import {
+  isAllowedResumeFile,
+  MAX_RESUME_FILE_SIZE,
+  RESUME_ACCEPT,
+  RESUME_FORMATS_LABEL,
+} from "../lib/resumeFiles";
+import {
+  canonicalizeSkills,
+  fetchSkillTaxonomy,
+  skillMatchesSearch,
+  type SkillTaxonomyEntry,
+} from "../lib/skillTaxonomy";
+import { callEdgeFunction, getErrorMessage } from "../lib/edgeFunctions";
+import { fetchJobRequirements, type JobRequirement } from "../lib/jobRequirements";
 import {
   Form,
   Input,
@@ -28,24 +42,27 @@ import {
 
 const { Text } = Typography;
 const { Dragger } = Upload;
-const { Option } = Select;
 
 interface UploadJob {
   id: string;
   file: File;
   fullName: string;
-  appliedPosition: string;
+  // Id vị trí đang tuyển đã chọn, gửi thẳng lên server để không phải tìm lại theo tiêu đề
+  jobRequirementId?: string;
   skills: string[];
   progress: number;
   status: "pending" | "uploading" | "completed" | "error";
   error?: string;
 }
 
+interface CreateCandidateResponse {
+  candidate: { id: string };
+  duplicates: { id: string; full_name: string }[];
+}
+
 const MAX_CONCURRENT_UPLOADS = 3;
-const MAX_FILE_SIZE = 10 * 1024 * 1024;
-const ALLOWED_FILE_TYPES = ["application/pdf"];
 
-// Predefined skills for suggestions
+// Gợi ý mặc định khi chưa tải được taxonomy kỹ năng
 const SKILLS_SUGGESTIONS = [
   "React",
   "TypeScript",
@@ -83,6 +100,13 @@ const SKILLS_SUGGESTIONS = [
   "Figma",
 ];
 
+const DEFAULT_SKILL_TAXONOMY: SkillTaxonomyEntry[] = SKILLS_SUGGESTIONS.map((name) => ({
+  id: name,
+  name,
+  aliases: [],
+  implies: [],
+}));
+
 export default function CandidateForm({
   onCreated,
 }: {
@@ -92,6 +116,27 @@ export default function CandidateForm({
   const [loading, setLoading] = useState(false);
   const [uploadJobs, setUploadJobs] = useState<UploadJob[]>([]);
   const [isModalVisible, setIsModalVisible] = useState(false);
+  const [openPositions, setOpenPositions] = useState<JobRequirement[]>([]);
+  const [positionsLoading, setPositionsLoading] = useState(false);
+  const [skillTaxonomy, setSkillTaxonomy] = useState<SkillTaxonomyEntry[]>(DEFAULT_SKILL_TAXONOMY);
+
+  // 🏷️ Tải taxonomy kỹ năng để gợi ý và chuẩn hóa alias (JS -> JavaScript)
+  useEffect(() => {
+    fetchSkillTaxonomy()
+      .then((entries) => {
+        if (entries.length > 0) setSkillTaxonomy(entries);
+      })
+      .catch((error) => console.error("Skill taxonomy error:", error));
+  }, []);
+
+  // 📌 Chỉ cho chọn các vị trí đang tuyển
+  useEffect(() => {
+    setPositionsLoading(true);
+    fetchJobRequirements(true)
+      .then(setOpenPositions)
+      .catch((error) => message.error("Lỗi khi tải vị trí tuyển dụng: " + getErrorMessage(error)))
+      .finally(() => setPositionsLoading(false));
+  }, []);
 
   const processUploadQueue = async (jobs: UploadJob[]) => {
     const queue = [...jobs];
@@ -142,12 +187,12 @@ export default function CandidateForm({
   const processJob = async (job: UploadJob): Promise<boolean> => {
     try {
       // Validate file
-      if (!ALLOWED_FILE_TYPES.includes(job.file.type)) {
-        updateJobError(job.id, "Chỉ chấp nhận file PDF");
+      if (!isAllowedResumeFile(job.file)) {
+        updateJobError(job.id, `Chỉ chấp nhận file ${RESUME_FORMATS_LABEL}`);
         return false;
       }
 
-      if (job.file.size > MAX_FILE_SIZE) {
+      if (job.file.size > MAX_RESUME_FILE_SIZE) {
         updateJobError(job.id, "File vượt quá 10MB");
         return false;
       }
@@ -197,57 +242,39 @@ export default function CandidateForm({
 
       updateJobProgress(job.id, 75);
 
-      // Lấy access token
-      const { data: sessionData } = await supabase.auth.getSession();
-      const token = sessionData?.session?.access_token;
-
-      if (!token) {
-        updateJobError(job.id, "Không lấy được access token");
-        return false;
-      }
-
-      // Gọi Edge Function
-      const edgeBase = import.meta.env.VITE_EDGE_FUNCTION_BASE;
-      if (!edgeBase) {
-        updateJobError(job.id, "Thiếu biến môi trường");
-        return false;
-      }
-
       // Chuẩn bị data cho Edge Function
       const requestBody = {
         full_name: job.fullName.trim(),
-        applied_position: job.appliedPosition.trim(),
+        applied_position: openPositions.find((position) => position.id === job.jobRequirementId)?.title ?? "",
+        // Gửi kèm id để chấm đúng job, kể cả khi nhiều vị trí trùng tiêu đề
+        job_requirement_id: job.jobRequirementId,
         status: "New",
         resume_url: publicUrl,
+        file_name: job.file.name,
         skills: job.skills,
       };
 
-      console.log(token);
-      debugger;
-
       console.log("Sending request to Edge Function:", requestBody);
 
-      const res = await fetch(`${edgeBase}/create-candidate`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      if (!res.ok) {
-        const responseData = await res.json();
-        updateJobError(
-          job.id,
-          `Lỗi tạo hồ sơ: ${responseData.error || res.statusText}`
-        );
+      // Gọi Edge Function
+      let responseData: CreateCandidateResponse;
+      try {
+        responseData = await callEdgeFunction<CreateCandidateResponse>("create-candidate", {
+          body: requestBody,
+        });
+      } catch (error) {
+        updateJobError(job.id, `Lỗi tạo hồ sơ: ${getErrorMessage(error)}`);
         return false;
       }
 
-      const responseData = await res.json();
       console.log("Edge Function response:", responseData);
 
+      if (responseData.duplicates?.length) {
+        message.warning(
+          `"${job.fullName.trim()}" có thể trùng với ${responseData.duplicates.length} hồ sơ đã có`
+        );
+      }
+
       updateJobProgress(job.id, 100);
       updateJobStatus(job.id, "completed");
       return true;
@@ -304,7 +331,6 @@ export default function CandidateForm({
       id: Math.random().toString(36).substr(2, 9),
       file,
       fullName: "",
-      appliedPosition: "",
       skills: [],
       progress: 0,
       status: "pending",
@@ -316,7 +342,11 @@ export default function CandidateForm({
 
   const handleSkillsChange = (jobId: string, skills: string[]) => {
     setUploadJobs((prev) =>
-      prev.map((job) => (job.id === jobId ? { ...job, skills } : job))
+      prev.map((job) =>
+        job.id === jobId
+          ? { ...job, skills: canonicalizeSkills(skills, skillTaxonomy) }
+          : job
+      )
     );
   };
 
@@ -457,38 +487,35 @@ export default function CandidateForm({
 
                           <Select
                             placeholder="Chọn vị trí ứng tuyển"
-                            value={job.appliedPosition || undefined}
+                            value={job.jobRequirementId}
                             onChange={(value) =>
                               setUploadJobs((prev) =>
                                 prev.map((j) =>
                                   j.id === job.id
-                                    ? { ...j, appliedPosition: value }
+                                    ? { ...j, jobRequirementId: value }
                                     : j
                                 )
                               )
                             }
                             size="small"
                             style={{ width: "100%" }}
-                          >
-                            <Option value="Frontend Developer">
-                              Frontend Developer
-                            </Option>
-                            <Option value="Backend Developer">
-                              Backend Developer
-                            </Option>
-                            <Option value="Fullstack Developer">
-                              Fullstack Developer
-                            </Option>
-                            <Option value="Mobile Developer">
-                              Mobile Developer
-                            </Option>
-                            <Option value="Data Analyst">Data Analyst</Option>
-                          </Select>
+                            showSearch
+                            optionFilterProp="label"
+                            allowClear
+                            loading={positionsLoading}
+                            notFoundContent="Chưa có vị trí đang tuyển"
+                            options={openPositions.map((position) => ({
+                              value: position.id,
+                              label: position.department
+                                ? `${position.title} · ${position.department}`
+                                : position.title,
+                            }))}
+                          />
 
                           <div>
                             <div style={{ marginBottom: 4 }}>
                               <Text type="secondary" style={{ fontSize: 12 }}>
-                                Kỹ năng:
+                                Kỹ năng (tùy chọn, tự nhận diện từ CV):
                               </Text>
                             </div>
                             <Select
@@ -501,10 +528,18 @@ export default function CandidateForm({
                               }
                               size="small"
                               tokenSeparators={[",", ";"]}
-                              options={SKILLS_SUGGESTIONS.map((skill) => ({
-                                value: skill,
-                                label: skill,
+                              options={skillTaxonomy.map((entry) => ({
+                                value: entry.name,
+                                label: entry.aliases.length > 0
+                                  ? `${entry.name} (${entry.aliases.join(", ")})`
+                                  : entry.name,
+                                entry,
                               }))}
+                              filterOption={(input, option) =>
+                                option?.entry
+                                  ? skillMatchesSearch(option.entry, input)
+                                  : false
+                              }
                               maxTagCount={5}
                               onBlur={(e) => e.stopPropagation()} // Ngăn lỗi focus
                               dropdownRender={(menu) => (
@@ -557,9 +592,10 @@ export default function CandidateForm({
                 • Bạn có thể upload tối đa {MAX_CONCURRENT_UPLOADS} file cùng
                 lúc
               </div>
-              <div>• Chỉ chấp nhận file PDF dưới 10MB</div>
+              <div>• Chấp nhận file {RESUME_FORMATS_LABEL} dưới 10MB</div>
               <div>
-                • Nhập kỹ năng để hệ thống tính toán điểm phù hợp với vị trí
+                • Kỹ năng trong CV được tự động nhận diện và gộp với kỹ năng
+                bạn nhập để tính điểm phù hợp với vị trí
               </div>
             </div>
           }
@@ -578,7 +614,7 @@ export default function CandidateForm({
       >
         <Dragger
           multiple
-          accept=".pdf,application/pdf"
+          accept={RESUME_ACCEPT}
           beforeUpload={handleFileUpload}
           showUploadList={false}
           disabled={uploadJobs.length >= 10}
@@ -586,9 +622,9 @@ export default function CandidateForm({
           <p className="ant-upload-drag-icon">
             <UploadOutlined />
           </p>
-          <p className="ant-upload-text">Click hoặc kéo thả file PDF vào đây</p>
+          <p className="ant-upload-text">Click hoặc kéo thả file CV vào đây</p>
           <p className="ant-upload-hint">
-            Hỗ trợ upload nhiều file. Mỗi file tối đa 10MB.
+            Hỗ trợ upload nhiều file {RESUME_FORMATS_LABEL}. Mỗi file tối đa 10MB.
           </p>
         </Dragger>
 
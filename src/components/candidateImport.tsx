@@ -0,0 +1,339 @@
+import { useState } from "react";
+import { callEdgeFunction, getErrorMessage, type FieldError } from "../lib/edgeFunctions";
+import {
+  Steps,
+  Upload,
+  Button,
+  Select,
+  Table,
+  Tag,
+  Tooltip,
+  Space,
+  Typography,
+  Alert,
+  Form,
+  message,
+  Result,
+} from "antd";
+import { InboxOutlined, ImportOutlined } from "@ant-design/icons";
+import type { ColumnsType } from "antd/es/table";
+
+const { Dragger } = Upload;
+const { Text } = Typography;
+
+type ImportField =
+  | "full_name"
+  | "applied_position"
+  | "status"
+  | "skills"
+  | "resume_url"
+  | "email"
+  | "phone";
+
+type ColumnMapping = Partial<Record<ImportField, string>>;
+
+interface ImportRowReport {
+  row: number;
+  status: "valid" | "created" | "error";
+  errors: FieldError[];
+  candidate_id?: string;
+  matching_score?: number;
+  possible_duplicate_ids?: string[];
+  // Dòng khác trong file có cùng tên
+  duplicate_rows?: number[];
+  data: {
+    full_name?: string;
+    applied_position?: string;
+    status?: string;
+    skills?: string[];
+    resume_url?: string;
+  };
+}
+
+interface ImportReport {
+  dry_run: boolean;
+  columns: string[];
+  mapping: ColumnMapping;
+  summary: { total: number; valid: number; created: number; failed: number };
+  rows: ImportRowReport[];
+}
+
+const FIELD_LABELS: { field: ImportField; label: string; required?: boolean }[] = [
+  { field: "full_name", label: "Họ và tên", required: true },
+  { field: "resume_url", label: "Link CV", required: true },
+  { field: "applied_position", label: "Vị trí ứng tuyển" },
+  { field: "status", label: "Trạng thái" },
+  { field: "skills", label: "Kỹ năng" },
+  { field: "email", label: "Email" },
+  { field: "phone", label: "Số điện thoại" },
+];
+
+const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024;
+
+export default function CandidateImport({
+  onImported,
+}: {
+  onImported?: () => void;
+}) {
+  const [step, setStep] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [fileName, setFileName] = useState("");
+  const [format, setFormat] = useState<"csv" | "json">("csv");
+  const [fileContent, setFileContent] = useState("");
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const runImport = async (
+    content: string,
+    fileFormat: "csv" | "json",
+    columnMapping: ColumnMapping | undefined,
+    dryRun: boolean
+  ): Promise<ImportReport | null> => {
+    try {
+      return await callEdgeFunction<ImportReport>("import-candidates", {
+        body: {
+          format: fileFormat,
+          data: content,
+          mapping: columnMapping,
+          dry_run: dryRun,
+        },
+      });
+    } catch (error) {
+      message.error(`Lỗi nhập dữ liệu: ${getErrorMessage(error)}`);
+      return null;
+    }
+  };
+
+  const handleFileSelect = (file: File) => {
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      message.error("File vượt quá 5MB");
+      return false;
+    }
+
+    const fileFormat = file.name.toLowerCase().endsWith(".json") ? "json" : "csv";
+    setLoading(true);
+
+    file
+      .text()
+      .then(async (content) => {
+        // Chạy thử lần đầu để lấy danh sách cột và ánh xạ mặc định
+        const result = await runImport(content, fileFormat, undefined, true);
+        if (!result) return;
+
+        setFileName(file.name);
+        setFormat(fileFormat);
+        setFileContent(content);
+        setMapping(result.mapping);
+        setReport(result);
+        setStep(1);
+      })
+      .finally(() => setLoading(false));
+
+    return false; // Prevent default upload behavior
+  };
+
+  const handleValidate = async () => {
+    setLoading(true);
+    try {
+      const result = await runImport(fileContent, format, mapping, true);
+      if (result) {
+        setReport(result);
+        setStep(2);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setLoading(true);
+    try {
+      const result = await runImport(fileContent, format, mapping, false);
+      if (result) {
+        setReport(result);
+        setStep(3);
+        if (result.summary.created > 0) {
+          onImported?.();
+        }
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = () => {
+    setStep(0);
+    setFileName("");
+    setFileContent("");
+    setMapping({});
+    setReport(null);
+  };
+
+  const rejectedColumns: ColumnsType<ImportRowReport> = [
+    { title: "Dòng", dataIndex: "row", key: "row", width: 70 },
+    {
+      title: "Họ tên",
+      key: "full_name",
+      render: (record: ImportRowReport) => record.data.full_name || "—",
+      width: 160,
+    },
+    {
+      title: "Lỗi",
+      dataIndex: "errors",
+      key: "errors",
+      render: (errors: FieldError[]) => (
+        <Space direction="vertical" size={0}>
+          {errors.map((error, index) => (
+            <Text key={index} type="danger" style={{ fontSize: 12 }}>
+              {error.message}
+            </Text>
+          ))}
+        </Space>
+      ),
+    },
+  ];
+
+  const rejectedRows = report?.rows.filter((r) => r.status === "error") ?? [];
+  const duplicateRows =
+    report?.rows.filter((r) => r.possible_duplicate_ids?.length || r.duplicate_rows?.length) ?? [];
+
+  return (
+    <div>
+      <Steps
+        current={step}
+        size="small"
+        style={{ marginBottom: 24 }}
+        items={[
+          { title: "Chọn file" },
+          { title: "Ánh xạ cột" },
+          { title: "Xem trước" },
+          { title: "Hoàn tất" },
+        ]}
+      />
+
+      {step === 0 && (
+        <Dragger
+          accept=".csv,.json,text/csv,application/json"
+          beforeUpload={handleFileSelect}
+          showUploadList={false}
+          disabled={loading}
+        >
+          <p className="ant-upload-drag-icon">
+            <InboxOutlined />
+          </p>
+          <p className="ant-upload-text">Click hoặc kéo thả file CSV/JSON vào đây</p>
+          <p className="ant-upload-hint">
+            Các cột: full_name, applied_position, status, skills, resume_url.
+            Kỹ năng phân tách bởi dấu phẩy hoặc chấm phẩy.
+          </p>
+        </Dragger>
+      )}
+
+      {step === 1 && report && (
+        <>
+          <Alert
+            type="info"
+            showIcon
+            style={{ marginBottom: 16 }}
+            message={`${fileName}: ${report.summary.total} dòng, ${report.columns.length} cột`}
+          />
+          <Form layout="horizontal" labelCol={{ span: 8 }} wrapperCol={{ span: 16 }}>
+            {FIELD_LABELS.map(({ field, label, required }) => (
+              <Form.Item key={field} label={label} required={required}>
+                <Select
+                  allowClear
+                  placeholder="Chọn cột trong file"
+                  value={mapping[field]}
+                  onChange={(value) => setMapping((prev) => ({ ...prev, [field]: value }))}
+                  options={report.columns.map((column) => ({ value: column, label: column }))}
+                />
+              </Form.Item>
+            ))}
+          </Form>
+          <Space style={{ display: "flex", justifyContent: "flex-end" }}>
+            <Button onClick={handleReset}>Chọn file khác</Button>
+            <Button
+              type="primary"
+              loading={loading}
+              disabled={!mapping.full_name || !mapping.resume_url}
+              onClick={handleValidate}
+            >
+              Kiểm tra dữ liệu
+            </Button>
+          </Space>
+        </>
+      )}
+
+      {step === 2 && report && (
+        <>
+          <Space style={{ marginBottom: 16 }} wrap>
+            <Tag color="blue">{report.summary.total} dòng</Tag>
+            <Tag color="green">{report.summary.valid} hợp lệ</Tag>
+            <Tag color="red">{report.summary.failed} bị từ chối</Tag>
+            {duplicateRows.length > 0 && (
+              <Tooltip
+                title={duplicateRows
+                  .map((r) =>
+                    r.duplicate_rows?.length
+                      ? `Dòng ${r.row} trùng tên dòng ${r.duplicate_rows.join(", ")}`
+                      : `Dòng ${r.row} trùng hồ sơ đã có`
+                  )
+                  .join("; ")}
+              >
+                <Tag color="orange">{duplicateRows.length} có thể trùng</Tag>
+              </Tooltip>
+            )}
+          </Space>
+
+          {rejectedRows.length > 0 ? (
+            <Table
+              size="small"
+              columns={rejectedColumns}
+              dataSource={rejectedRows}
+              rowKey="row"
+              pagination={{ pageSize: 5 }}
+            />
+          ) : (
+            <Alert type="success" showIcon message="Tất cả các dòng đều hợp lệ" />
+          )}
+
+          <Space style={{ display: "flex", justifyContent: "flex-end", marginTop: 16 }}>
+            <Button onClick={() => setStep(1)}>Quay lại</Button>
+            <Button
+              type="primary"
+              icon={<ImportOutlined />}
+              loading={loading}
+              disabled={report.summary.valid === 0}
+              onClick={handleImport}
+            >
+              Nhập {report.summary.valid} hồ sơ
+            </Button>
+          </Space>
+        </>
+      )}
+
+      {step === 3 && report && (
+        <Result
+          status={report.summary.failed > 0 ? "warning" : "success"}
+          title={`Đã nhập ${report.summary.created}/${report.summary.total} hồ sơ`}
+          subTitle={
+            report.summary.failed > 0
+              ? `${report.summary.failed} dòng bị từ chối`
+              : undefined
+          }
+          extra={<Button onClick={handleReset}>Nhập file khác</Button>}
+        >
+          {rejectedRows.length > 0 && (
+            <Table
+              size="small"
+              columns={rejectedColumns}
+              dataSource={rejectedRows}
+              rowKey="row"
+              pagination={{ pageSize: 5 }}
+            />
+          )}
+        </Result>
+      )}
+    </div>
+  );
+}
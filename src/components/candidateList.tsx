@@ -1,5 +1,6 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { supabase } from "../lib/supabaseClient";
+import { callEdgeFunction, getErrorMessage } from "../lib/edgeFunctions";
 import {
   Table,
   Button,
@@ -16,6 +17,10 @@ import {
   Col,
   Tooltip,
   Progress,
+  Modal,
+  Slider,
+  Popover,
+  Checkbox,
 } from "antd";
 import {
   SearchOutlined,
@@ -24,24 +29,96 @@ import {
   FilePdfOutlined,
   UserOutlined,
   FilterOutlined,
+  WarningOutlined,
+  MergeCellsOutlined,
+  HistoryOutlined,
+  SyncOutlined,
+  AimOutlined,
+  OrderedListOutlined,
+  ColumnWidthOutlined,
+  LeftOutlined,
+  RightOutlined,
+  EyeOutlined,
 } from "@ant-design/icons";
-import type { ColumnsType } from "antd/es/table";
+import type { ColumnsType, TableProps } from "antd/es/table";
+import type { SortOrder } from "antd/es/table/interface";
 import dayjs from "dayjs";
+import ResumeHistory from "./resumeHistory";
+import SuggestedPositions from "./suggestedPositions";
+import AddToShortlist from "./addToShortlist";
+import CandidateComparison from "./candidateComparison";
+import CandidateDetail from "./candidateDetail";
+import CandidateViews from "./candidateViews";
+import BulkActions from "./bulkActions";
+import {
+  fetchRediscoverySuggestions,
+  groupSuggestionsBy,
+  type RediscoverySuggestion,
+} from "../lib/rediscovery";
+import {
+  type CandidateFilters,
+  type CandidatePageInfo,
+  type CandidateSort,
+  DEFAULT_CANDIDATE_SORT,
+  type DuplicateSummary,
+  fetchCandidatePage,
+  type PageDirection,
+  readListParams,
+  type SkillMatchMode,
+  WITHIN_DAYS_OPTIONS,
+  writeListParams,
+} from "../lib/candidates";
+import type { CandidateView } from "../lib/candidateViews";
+import type { BulkResponse } from "../lib/bulkCandidates";
+import { fetchSkillTaxonomy, type SkillTaxonomyEntry } from "../lib/skillTaxonomy";
+import { readCandidateParam, writeCandidateParam } from "../lib/candidateDetail";
+import {
+  type CandidateExperience,
+  EDUCATION_LABELS,
+  SENIORITY_COLORS,
+  SENIORITY_LABELS,
+} from "../lib/experience";
 
-const { Option } = Select;
 const { RangePicker } = DatePicker;
 const { Text } = Typography;
 
-interface Candidate {
+// Số ứng viên tối đa khi so sánh cạnh nhau
+const MAX_COMPARE = 4;
+
+const STATUSES = ["New", "Screening", "Interviewing", "Hired", "Rejected"];
+
+const PAGE_SIZES = [10, 20, 50, 100];
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+// Cột luôn hiển thị; các cột còn lại bật / tắt được và lưu theo view
+const FIXED_COLUMNS = ["full_name", "actions"];
+
+// Trang đang xem: cursor của trang liền kề và số thứ tự trang để hiển thị khoảng bản ghi
+interface PageRequest {
+  cursor?: string;
+  direction: PageDirection;
+  page: number;
+}
+
+const FIRST_PAGE: PageRequest = { direction: "forward", page: 1 };
+
+interface Candidate extends CandidateExperience {
   id: string;
   full_name: string;
   applied_position: string;
   status: string;
   resume_url: string;
+  resume_preview_url?: string | null;
   created_at: string;
   user_id: string;
   skills?: string[]; // ✅ thêm trường skills
   matching_score?: number; // ✅ thêm trường matching_score
+  missing_must_haves?: string[] | null;
+  score_computed_at?: string | null;
+  score_stale?: boolean;
+  possible_duplicate_ids?: string[] | null;
+  tags?: string[];
 }
 
 interface CandidateListProps {
@@ -54,13 +131,56 @@ export default function CandidateList({ reload, onReloadDone }: CandidateListPro
   const [loading, setLoading] = useState(false);
   const [user, setUser] = useState<any>(null);
 
-  // Bộ lọc
-  const [search, setSearch] = useState("");
-  const [position, setPosition] = useState("");
-  const [status, setStatus] = useState("");
-  const [dateRange, setDateRange] = useState<[dayjs.Dayjs, dayjs.Dayjs] | null>(
-    null
-  );
+  // Bộ lọc và sắp xếp chạy trên server, khởi tạo từ URL
+  const [initialParams] = useState(readListParams);
+  const [filters, setFilters] = useState<CandidateFilters>(initialParams.filters);
+  const [sort, setSort] = useState<CandidateSort>(initialParams.sort);
+  // Ô tìm kiếm chỉ gửi lên server khi ngừng gõ
+  const [search, setSearch] = useState(initialParams.filters.query ?? "");
+  const [position, setPosition] = useState(initialParams.filters.position ?? "");
+  const [scoreRange, setScoreRange] = useState<number[]>([
+    initialParams.filters.score_min ?? 0,
+    initialParams.filters.score_max ?? 100,
+  ]);
+  const [skillTaxonomy, setSkillTaxonomy] = useState<SkillTaxonomyEntry[]>([]);
+  // Cột đang hiển thị; null là tất cả
+  const [visibleColumns, setVisibleColumns] = useState<string[] | null>(null);
+
+  // Phân trang theo cursor trên server
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+  const [pageRequest, setPageRequest] = useState<PageRequest>(FIRST_PAGE);
+  const [pageInfo, setPageInfo] = useState<CandidatePageInfo | null>(null);
+  // Hồ sơ có thể trùng nằm ở trang khác
+  const [duplicateLookup, setDuplicateLookup] = useState<Record<string, DuplicateSummary>>({});
+
+  // Gộp hồ sơ trùng
+  const [mergeCandidate, setMergeCandidate] = useState<Candidate | null>(null);
+  const [mergePrimaryId, setMergePrimaryId] = useState<string>();
+  const [merging, setMerging] = useState(false);
+
+  // Tính lại điểm phù hợp
+  const [rescoring, setRescoring] = useState(false);
+
+  // Lịch sử CV
+  const [resumeCandidate, setResumeCandidate] = useState<Candidate | null>(null);
+
+  // Gợi ý vị trí phù hợp cho một ứng viên
+  const [suggestCandidate, setSuggestCandidate] = useState<Candidate | null>(null);
+
+  // Thêm vào shortlist
+  const [shortlistCandidate, setShortlistCandidate] = useState<Candidate | null>(null);
+
+  // Hồ sơ đã chọn: so sánh 2-4 ứng viên hoặc thao tác hàng loạt
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Tên của hồ sơ đã chọn, kể cả hồ sơ ở trang khác
+  const [selectedNames, setSelectedNames] = useState<Record<string, string>>({});
+  const [comparing, setComparing] = useState(false);
+
+  // Hồ sơ đang mở trong drawer chi tiết, đồng bộ với ?candidate= trên URL
+  const [detailId, setDetailId] = useState<string | null>(() => readCandidateParam());
+
+  // Vị trí mới mà ứng viên cũ được tìm lại là phù hợp
+  const [rediscoveries, setRediscoveries] = useState<Record<string, RediscoverySuggestion[]>>({});
 
   useEffect(() => {
     const fetchUser = async () => {
@@ -80,10 +200,65 @@ export default function CandidateList({ reload, onReloadDone }: CandidateListPro
     };
   }, []);
 
+  useEffect(() => {
+    fetchSkillTaxonomy()
+      .then(setSkillTaxonomy)
+      .catch((error) => console.error("Skill taxonomy error:", error));
+  }, []);
+
+  // Đổi bộ lọc hoặc sắp xếp thì quay về trang đầu
+  const updateFilters = useCallback((patch: Partial<CandidateFilters>) => {
+    setFilters((prev) => ({ ...prev, ...patch }));
+    setPageRequest(FIRST_PAGE);
+  }, []);
+
+  useEffect(() => {
+    const query = search.trim() || undefined;
+    const positionText = position.trim() || undefined;
+    if (query === filters.query && positionText === filters.position) return;
+    const timer = setTimeout(() => updateFilters({ query, position: positionText }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search, position, filters.query, filters.position, updateFilters]);
+
+  useEffect(() => {
+    writeListParams(filters, sort);
+  }, [filters, sort]);
+
+  const dateRange = useMemo<[dayjs.Dayjs, dayjs.Dayjs] | null>(
+    () =>
+      filters.created_from && filters.created_to
+        ? [dayjs(filters.created_from), dayjs(filters.created_to)]
+        : null,
+    [filters.created_from, filters.created_to]
+  );
+
+  const fetchCandidates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { candidates: page, duplicates, pagination } = await fetchCandidatePage<Candidate>({
+        cursor: pageRequest.cursor,
+        direction: pageRequest.direction,
+        limit: pageSize,
+        filters,
+        sort,
+      });
+      setCandidates(page);
+      setPageInfo(pagination);
+      setDuplicateLookup(Object.fromEntries(duplicates.map((duplicate) => [duplicate.id, duplicate])));
+    } catch (error) {
+      message.error("Lỗi khi tải danh sách: " + getErrorMessage(error));
+    }
+    setLoading(false);
+
+    fetchRediscoverySuggestions()
+      .then((suggestions) => setRediscoveries(groupSuggestionsBy(suggestions, "candidate_id")))
+      .catch((suggestionsError) => console.error("Rediscovery suggestions error:", suggestionsError));
+  }, [pageRequest, pageSize, filters, sort]);
+
   useEffect(() => {
     if (user) fetchCandidates();
     else setCandidates([]);
-  }, [user]);
+  }, [user, fetchCandidates]);
 
   useEffect(() => {
     if (reload) {
@@ -91,22 +266,18 @@ export default function CandidateList({ reload, onReloadDone }: CandidateListPro
         onReloadDone?.();
       });
     }
-  }, [reload]);
-
-  async function fetchCandidates() {
-    setLoading(true);
-    const { data, error } = await supabase
-      .from("candidates")
-      .select("*")
-      .order("created_at", { ascending: false });
+  }, [reload, fetchCandidates, onReloadDone]);
 
-    if (error) {
-      message.error("Lỗi khi tải danh sách: " + error.message);
-    } else {
-      setCandidates(data || []);
-    }
-    setLoading(false);
-  }
+  // Sang trang trước / sau theo cursor của bản ghi đầu / cuối trang hiện tại
+  const goToPage = (direction: PageDirection) => {
+    const cursor = direction === "forward" ? pageInfo?.endCursor : pageInfo?.startCursor;
+    if (!cursor) return;
+    setPageRequest((prev) => ({
+      cursor,
+      direction,
+      page: prev.page + (direction === "forward" ? 1 : -1),
+    }));
+  };
 
   async function handleDelete(id: string) {
     const { error } = await supabase.from("candidates").delete().eq("id", id);
@@ -115,6 +286,8 @@ export default function CandidateList({ reload, onReloadDone }: CandidateListPro
     } else {
       message.success("Xóa hồ sơ thành công!");
       setCandidates((prev) => prev.filter((c) => c.id !== id));
+      setPageInfo((prev) => prev && { ...prev, totalCount: Math.max(0, prev.totalCount - 1) });
+      setSelectedIds((prev) => prev.filter((selectedId) => selectedId !== id));
     }
   }
 
@@ -136,34 +309,106 @@ export default function CandidateList({ reload, onReloadDone }: CandidateListPro
   }
 }
 
-  // Lọc dữ liệu
-  const filteredCandidates = candidates.filter((candidate) => {
-    const matchesSearch =
-      !search ||
-      candidate.full_name.toLowerCase().includes(search.toLowerCase()) ||
-      candidate.applied_position?.toLowerCase().includes(search.toLowerCase());
+  async function handleMerge() {
+    if (!mergeCandidate || !mergePrimaryId) return;
 
-    const matchesPosition =
-      !position ||
-      candidate.applied_position
-        ?.toLowerCase()
-        .includes(position.toLowerCase());
+    setMerging(true);
+    try {
+      await callEdgeFunction("merge-candidates", {
+        body: {
+          primary_id: mergePrimaryId,
+          duplicate_id: mergeCandidate.id,
+        },
+      });
+
+      message.success("Đã gộp hồ sơ trùng");
+      setMergeCandidate(null);
+      setMergePrimaryId(undefined);
+      setSelectedIds((prev) => prev.filter((selectedId) => selectedId !== mergeCandidate.id));
+      await fetchCandidates();
+    } catch (error) {
+      message.error("Lỗi khi gộp hồ sơ: " + getErrorMessage(error));
+    } finally {
+      setMerging(false);
+    }
+  }
 
-    const matchesStatus = !status || candidate.status === status;
+  // Chấm lại điểm toàn bộ hồ sơ theo yêu cầu kỹ năng hiện tại
+  async function handleRescoreAll() {
+    setRescoring(true);
+    try {
+      const responseData = await callEdgeFunction<{ summary: { processed: number } }>("rescore", {
+        body: { scope: "all" },
+      });
 
-    const matchesDate =
-      !dateRange ||
-      (dayjs(candidate.created_at).isAfter(dateRange[0].startOf("day")) &&
-        dayjs(candidate.created_at).isBefore(dateRange[1].endOf("day")));
+      message.success(`Đã tính lại điểm cho ${responseData.summary.processed} hồ sơ`);
+      await fetchCandidates();
+    } catch (error) {
+      message.error("Lỗi khi tính lại điểm: " + getErrorMessage(error));
+    } finally {
+      setRescoring(false);
+    }
+  }
 
-    return matchesSearch && matchesPosition && matchesStatus && matchesDate;
-  });
+  const getDuplicates = (candidate: Candidate): DuplicateSummary[] =>
+    (candidate.possible_duplicate_ids || [])
+      .map((id) => candidates.find((c) => c.id === id) ?? duplicateLookup[id])
+      .filter((c): c is DuplicateSummary => !!c);
 
   const handleResetFilters = () => {
     setSearch("");
     setPosition("");
-    setStatus("");
-    setDateRange(null);
+    setScoreRange([0, 100]);
+    setFilters({ skill_mode: "any" });
+    setSort(DEFAULT_CANDIDATE_SORT);
+    setPageRequest(FIRST_PAGE);
+  };
+
+  // Áp dụng view đã lưu: thay toàn bộ bộ lọc, sắp xếp và cột hiển thị
+  const handleApplyView = (view: CandidateView) => {
+    const viewFilters: CandidateFilters = { skill_mode: "any", ...view.filters };
+    setSearch(viewFilters.query ?? "");
+    setPosition(viewFilters.position ?? "");
+    setScoreRange([viewFilters.score_min ?? 0, viewFilters.score_max ?? 100]);
+    setFilters(viewFilters);
+    setSort(view.sort);
+    setVisibleColumns(view.visible_columns);
+    setPageRequest(FIRST_PAGE);
+  };
+
+  // Sắp xếp theo cột trên server; bỏ sắp xếp thì về mặc định (mới nhất trước)
+  const sortOrderOf = (column: string): SortOrder | undefined => {
+    if (sort === `${column}_asc`) return "ascend";
+    if (sort === `${column}_desc`) return "descend";
+    return undefined;
+  };
+
+  const handleTableChange: TableProps<Candidate>["onChange"] = (_pagination, _filters, sorter) => {
+    const { columnKey, order } = Array.isArray(sorter) ? sorter[0] : sorter;
+    const next = order && columnKey
+      ? (`${String(columnKey)}_${order === "ascend" ? "asc" : "desc"}` as CandidateSort)
+      : DEFAULT_CANDIDATE_SORT;
+    if (next === sort) return;
+    setSort(next);
+    setPageRequest(FIRST_PAGE);
+  };
+
+  const pageStart = (pageRequest.page - 1) * pageSize;
+
+  const handleBulkDone = (response: BulkResponse) => {
+    if (response.action === "export") return;
+    if (response.action === "delete") {
+      const deleted = new Set(
+        response.results.filter((result) => result.result === "deleted").map((result) => result.candidate_id)
+      );
+      setSelectedIds((prev) => prev.filter((id) => !deleted.has(id)));
+    }
+    fetchCandidates();
+  };
+
+  const openDetail = (id: string | null) => {
+    setDetailId(id);
+    writeCandidateParam(id);
   };
 
   const columns: ColumnsType<Candidate> = [
@@ -171,12 +416,45 @@ export default function CandidateList({ reload, onReloadDone }: CandidateListPro
       title: "Họ tên",
       dataIndex: "full_name",
       key: "full_name",
-      render: (text: string) => (
-        <Space>
-          <UserOutlined style={{ color: "#1890ff" }} />
-          <Text strong>{text}</Text>
-        </Space>
-      ),
+      sorter: true,
+      sortOrder: sortOrderOf("full_name"),
+      render: (text: string, record: Candidate) => {
+        const duplicates = getDuplicates(record);
+        return (
+          <Space wrap>
+            <UserOutlined style={{ color: "#1890ff" }} />
+            <Text strong style={{ cursor: "pointer" }} onClick={() => openDetail(record.id)}>
+              {text}
+            </Text>
+            {duplicates.length > 0 && (
+              <Tooltip
+                title={`Có thể trùng với: ${duplicates
+                  .map((d) => d.full_name)
+                  .join(", ")}`}
+              >
+                <Tag color="orange" icon={<WarningOutlined />}>
+                  Có thể trùng
+                </Tag>
+              </Tooltip>
+            )}
+            {rediscoveries[record.id] && (
+              <Tooltip
+                title={`Phù hợp với vị trí mới: ${rediscoveries[record.id]
+                  .map((suggestion) => suggestion.job_requirements?.title)
+                  .join(", ")}`}
+              >
+                <Tag
+                  color="purple"
+                  style={{ cursor: "pointer" }}
+                  onClick={() => setSuggestCandidate(record)}
+                >
+                  {rediscoveries[record.id].length} vị trí mới
+                </Tag>
+              </Tooltip>
+            )}
+          </Space>
+        );
+      },
       fixed: "left",
       width: 160,
     },
@@ -187,6 +465,42 @@ export default function CandidateList({ reload, onReloadDone }: CandidateListPro
       render: (text: string) => text || "—",
       width: 150,
     },
+    {
+      title: "Kinh nghiệm",
+      key: "experience",
+      render: (_: unknown, record: Candidate) => {
+        const skillYears = Object.entries(record.skill_years ?? {});
+        if (record.total_years_experience == null && !record.seniority && !record.education_level) {
+          return <Text type="secondary">—</Text>;
+        }
+        return (
+          <Space direction="vertical" size={0}>
+            <Space size={4}>
+              {record.total_years_experience != null && (
+                <Tooltip
+                  title={
+                    skillYears.length > 0
+                      ? skillYears.map(([skill, years]) => `${skill}: ${years} năm`).join(", ")
+                      : undefined
+                  }
+                >
+                  <Text>{record.total_years_experience} năm</Text>
+                </Tooltip>
+              )}
+              {record.seniority && (
+                <Tag color={SENIORITY_COLORS[record.seniority]}>{SENIORITY_LABELS[record.seniority]}</Tag>
+              )}
+            </Space>
+            {record.education_level && (
+              <Text type="secondary" style={{ fontSize: 12 }}>
+                {EDUCATION_LABELS[record.education_level]}
+              </Text>
+            )}
+          </Space>
+        );
+      },
+      width: 140,
+    },
     {
       title: "Kỹ năng",
       dataIndex: "skills",
@@ -206,24 +520,67 @@ export default function CandidateList({ reload, onReloadDone }: CandidateListPro
         ),
       width: 280,
     },
+    {
+      title: "Nhãn",
+      dataIndex: "tags",
+      key: "tags",
+      render: (tags?: string[]) =>
+        tags && tags.length > 0 ? (
+          <Space size={[0, 4]} wrap>
+            {tags.map((tag) => (
+              <Tag key={tag} color="gold">
+                {tag}
+              </Tag>
+            ))}
+          </Space>
+        ) : null,
+      width: 160,
+    },
     {
       title: "Điểm phù hợp",
       dataIndex: "matching_score",
       key: "matching_score",
-      render: (score?: number) =>
+      sorter: true,
+      sortOrder: sortOrderOf("matching_score"),
+      sortDirections: ["descend", "ascend"],
+      render: (score: number | undefined, record: Candidate) =>
         typeof score === "number" ? (
-          <Tooltip title={`${score}%`}>
-            <Progress
-              percent={score}
-              size="small"
-              status={
-                score >= 70 ? "success" : score >= 40 ? "active" : "exception"
+          <Space direction="vertical" size={0}>
+            <Tooltip
+              title={
+                record.score_computed_at
+                  ? `${score}% · tính lúc ${dayjs(record.score_computed_at).format("DD/MM/YYYY HH:mm")}`
+                  : `${score}%`
               }
-              showInfo={false}
-              style={{ width: 100 }}
-            />
-            <Text style={{ marginLeft: 8 }}>{score}%</Text>
-          </Tooltip>
+            >
+              <Progress
+                percent={score}
+                size="small"
+                status={
+                  score >= 70 ? "success" : score >= 40 ? "active" : "exception"
+                }
+                showInfo={false}
+                style={{ width: 100 }}
+              />
+              <Text style={{ marginLeft: 8 }}>{score}%</Text>
+            </Tooltip>
+            {record.missing_must_haves && record.missing_must_haves.length > 0 && (
+              <Tooltip
+                title={`Thiếu: ${record.missing_must_haves.join(", ")}`}
+              >
+                <Tag color="red" icon={<WarningOutlined />}>
+                  Thiếu kỹ năng bắt buộc
+                </Tag>
+              </Tooltip>
+            )}
+            {record.score_stale && (
+              <Tooltip title="Kỹ năng hoặc yêu cầu vị trí đã thay đổi, điểm chưa được tính lại">
+                <Tag color="orange" icon={<SyncOutlined />}>
+                  Điểm cũ
+                </Tag>
+              </Tooltip>
+            )}
+          </Space>
         ) : (
           <Text type="secondary">—</Text>
         ),
@@ -253,51 +610,99 @@ export default function CandidateList({ reload, onReloadDone }: CandidateListPro
       dataIndex: "created_at",
       key: "created_at",
       render: (date: string) => dayjs(date).format("DD/MM/YYYY HH:mm"),
-      sorter: (a, b) => dayjs(a.created_at).unix() - dayjs(b.created_at).unix(),
+      sorter: true,
+      sortOrder: sortOrderOf("created_at"),
+      sortDirections: ["descend", "ascend"],
       width: 160,
     },
     {
       title: "CV",
       key: "resume_url",
-      render: (record: Candidate) =>
-        record.resume_url ? (
-          <Tooltip title="Xem CV">
+      render: (record: Candidate) => (
+        <Space size={0}>
+          {record.resume_url ? (
+            <Tooltip title="Xem CV mới nhất">
+              <Button
+                type="link"
+                icon={<FilePdfOutlined />}
+                href={record.resume_preview_url || record.resume_url}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                Xem
+              </Button>
+            </Tooltip>
+          ) : (
+            <Text type="secondary">Không có</Text>
+          )}
+          <Tooltip title="Lịch sử CV">
             <Button
-              type="link"
-              icon={<FilePdfOutlined />}
-              href={record.resume_url}
-              target="_blank"
-              rel="noopener noreferrer"
-            >
-              Xem
-            </Button>
+              type="text"
+              icon={<HistoryOutlined />}
+              onClick={() => setResumeCandidate(record)}
+            />
           </Tooltip>
-        ) : (
-          <Text type="secondary">Không có</Text>
-        ),
-      width: 100,
+        </Space>
+      ),
+      width: 140,
     },
     {
       title: "Thao tác",
       key: "actions",
       render: (record: Candidate) => (
-        <Popconfirm
-          title="Xóa hồ sơ"
-          description="Bạn có chắc muốn xóa hồ sơ này?"
-          onConfirm={() => handleDelete(record.id)}
-          okText="Xóa"
-          cancelText="Hủy"
-          okButtonProps={{ danger: true }}
-        >
-          <Button type="text" danger icon={<DeleteOutlined />}>
-            Xóa
-          </Button>
-        </Popconfirm>
+        <Space size={0}>
+          <Tooltip title="Gợi ý vị trí phù hợp">
+            <Button
+              type="text"
+              icon={<AimOutlined />}
+              onClick={() => setSuggestCandidate(record)}
+            />
+          </Tooltip>
+          <Tooltip title="Thêm vào shortlist">
+            <Button
+              type="text"
+              icon={<OrderedListOutlined />}
+              onClick={() => setShortlistCandidate(record)}
+            />
+          </Tooltip>
+          {getDuplicates(record).length > 0 && (
+            <Button
+              type="text"
+              icon={<MergeCellsOutlined />}
+              onClick={() => {
+                setMergeCandidate(record);
+                setMergePrimaryId(getDuplicates(record)[0]?.id);
+              }}
+            >
+              Gộp
+            </Button>
+          )}
+          <Popconfirm
+            title="Xóa hồ sơ"
+            description="Bạn có chắc muốn xóa hồ sơ này?"
+            onConfirm={() => handleDelete(record.id)}
+            okText="Xóa"
+            cancelText="Hủy"
+            okButtonProps={{ danger: true }}
+          >
+            <Button type="text" danger icon={<DeleteOutlined />}>
+              Xóa
+            </Button>
+          </Popconfirm>
+        </Space>
       ),
-      width: 100,
+      width: 260,
     },
   ];
 
+  const toggleableColumns = columns.filter((column) => !FIXED_COLUMNS.includes(String(column.key)));
+  const shownColumns = visibleColumns
+    ? columns.filter((column) => {
+      const key = String(column.key);
+      return FIXED_COLUMNS.includes(key) || visibleColumns.includes(key);
+    })
+    : columns;
+
   if (!user) {
     return (
       <Card>
@@ -317,17 +722,35 @@ export default function CandidateList({ reload, onReloadDone }: CandidateListPro
           <Space>
             <UserOutlined />
             <span>Danh sách hồ sơ ứng viên</span>
-            <Tag color="blue">{filteredCandidates.length} hồ sơ</Tag>
+            <Tag color="blue">{pageInfo?.totalCount ?? 0} hồ sơ</Tag>
           </Space>
         }
         extra={
-          <Button
-            icon={<ReloadOutlined />}
-            onClick={fetchCandidates}
-            loading={loading}
-          >
-            Làm mới
-          </Button>
+          <Space>
+            <Tooltip title={`Chọn 2-${MAX_COMPARE} ứng viên để so sánh`}>
+              <Button
+                icon={<ColumnWidthOutlined />}
+                onClick={() => setComparing(true)}
+                disabled={selectedIds.length < 2 || selectedIds.length > MAX_COMPARE}
+              >
+                So sánh ({selectedIds.length})
+              </Button>
+            </Tooltip>
+            <Button
+              icon={<SyncOutlined />}
+              onClick={handleRescoreAll}
+              loading={rescoring}
+            >
+              Tính lại điểm
+            </Button>
+            <Button
+              icon={<ReloadOutlined />}
+              onClick={fetchCandidates}
+              loading={loading}
+            >
+              Làm mới
+            </Button>
+          </Space>
         }
       >
         {/* Bộ lọc */}
@@ -341,15 +764,46 @@ export default function CandidateList({ reload, onReloadDone }: CandidateListPro
             </Space>
           }
           extra={
-            <Button size="small" onClick={handleResetFilters}>
-              Đặt lại
-            </Button>
+            <Space wrap>
+              <CandidateViews
+                userId={user.id}
+                filters={filters}
+                sort={sort}
+                visibleColumns={visibleColumns}
+                onApply={handleApplyView}
+              />
+              <Popover
+                trigger="click"
+                placement="bottomRight"
+                title="Cột hiển thị"
+                content={
+                  <Checkbox.Group
+                    style={{ display: "flex", flexDirection: "column", gap: 4 }}
+                    value={visibleColumns ?? toggleableColumns.map((column) => String(column.key))}
+                    onChange={(keys) =>
+                      setVisibleColumns(keys.length === toggleableColumns.length ? null : (keys as string[]))
+                    }
+                    options={toggleableColumns.map((column) => ({
+                      value: String(column.key),
+                      label: column.title as string,
+                    }))}
+                  />
+                }
+              >
+                <Button size="small" icon={<EyeOutlined />}>
+                  Cột
+                </Button>
+              </Popover>
+              <Button size="small" onClick={handleResetFilters}>
+                Đặt lại
+              </Button>
+            </Space>
           }
         >
           <Row gutter={[16, 16]}>
             <Col xs={24} sm={12} md={6}>
               <Input
-                placeholder="Tìm theo tên hoặc vị trí"
+                placeholder="Tìm theo tên, vị trí, kỹ năng, nội dung CV"
                 value={search}
                 onChange={(e) => setSearch(e.target.value)}
                 prefix={<SearchOutlined />}
@@ -366,47 +820,246 @@ export default function CandidateList({ reload, onReloadDone }: CandidateListPro
             </Col>
             <Col xs={24} sm={12} md={6}>
               <Select
+                mode="multiple"
                 placeholder="Trạng thái"
-                value={status || undefined}
-                onChange={setStatus}
+                value={filters.statuses ?? []}
+                onChange={(statuses: string[]) =>
+                  updateFilters({ statuses: statuses.length > 0 ? statuses : undefined })
+                }
                 style={{ width: "100%" }}
+                options={STATUSES.map((value) => ({ value, label: value }))}
                 allowClear
-              >
-                <Option value="New">New</Option>
-                <Option value="Interviewing">Interviewing</Option>
-                <Option value="Hired">Hired</Option>
-              </Select>
+              />
             </Col>
             <Col xs={24} sm={12} md={6}>
-              <RangePicker
-                style={{ width: "100%" }}
-                value={dateRange}
-                onChange={(dates) =>
-                  setDateRange(dates as [dayjs.Dayjs, dayjs.Dayjs])
-                }
-                format="DD/MM/YYYY"
-                placeholder={["Từ ngày", "Đến ngày"]}
-              />
+              <Space.Compact style={{ width: "100%" }}>
+                {/* Khoảng tương đối được lưu nguyên trong view nên luôn tính theo ngày hiện tại */}
+                <Select
+                  placeholder="Thời gian"
+                  value={filters.created_within_days}
+                  onChange={(days?: number) =>
+                    updateFilters({ created_within_days: days, created_from: undefined, created_to: undefined })
+                  }
+                  options={WITHIN_DAYS_OPTIONS.map((days) => ({ value: days, label: `${days} ngày qua` }))}
+                  style={{ width: 130 }}
+                  allowClear
+                />
+                <RangePicker
+                  style={{ width: "100%" }}
+                  value={dateRange}
+                  onChange={(dates) =>
+                    updateFilters({
+                      created_from: dates?.[0]?.startOf("day").toISOString(),
+                      created_to: dates?.[1]?.endOf("day").toISOString(),
+                      created_within_days: undefined,
+                    })
+                  }
+                  format="DD/MM/YYYY"
+                  placeholder={["Từ ngày", "Đến ngày"]}
+                />
+              </Space.Compact>
+            </Col>
+            <Col xs={24} md={12}>
+              <Space.Compact style={{ width: "100%" }}>
+                <Select
+                  mode="multiple"
+                  placeholder="Kỹ năng"
+                  value={filters.skills ?? []}
+                  onChange={(skills: string[]) =>
+                    updateFilters({ skills: skills.length > 0 ? skills : undefined })
+                  }
+                  style={{ width: "100%" }}
+                  options={skillTaxonomy.map((entry) => ({ value: entry.name, label: entry.name }))}
+                  maxTagCount="responsive"
+                  allowClear
+                />
+                <Select
+                  value={filters.skill_mode ?? "any"}
+                  onChange={(skill_mode: SkillMatchMode) => updateFilters({ skill_mode })}
+                  style={{ width: 150 }}
+                  options={[
+                    { value: "any", label: "Có một trong" },
+                    { value: "all", label: "Có tất cả" },
+                  ]}
+                />
+              </Space.Compact>
+            </Col>
+            <Col xs={24} md={12}>
+              <Space style={{ width: "100%" }}>
+                <Text type="secondary">Điểm phù hợp</Text>
+                <Slider
+                  range
+                  min={0}
+                  max={100}
+                  value={scoreRange}
+                  onChange={setScoreRange}
+                  // Chỉ tải lại khi thả chuột
+                  onChangeComplete={(range: number[]) =>
+                    updateFilters({
+                      score_min: range[0] > 0 ? range[0] : undefined,
+                      score_max: range[1] < 100 ? range[1] : undefined,
+                    })
+                  }
+                  style={{ width: 240 }}
+                />
+              </Space>
             </Col>
           </Row>
         </Card>
 
+        {/* Thao tác hàng loạt */}
+        {selectedIds.length > 0 && (
+          <BulkActions
+            selectedIds={selectedIds}
+            names={selectedNames}
+            onClearSelection={() => setSelectedIds([])}
+            onDone={handleBulkDone}
+          />
+        )}
+
         {/* Bảng dữ liệu */}
         <Table
-          columns={columns}
-          dataSource={filteredCandidates}
+          columns={shownColumns}
+          dataSource={candidates}
+          onChange={handleTableChange}
           rowKey="id"
           loading={loading}
-          pagination={{
-            pageSize: 10,
-            showSizeChanger: true,
-            showQuickJumper: true,
-            showTotal: (total, range) =>
-              `${range[0]}-${range[1]} của ${total} hồ sơ`,
+          rowSelection={{
+            selectedRowKeys: selectedIds,
+            // Giữ lựa chọn khi chuyển trang
+            preserveSelectedRowKeys: true,
+            onChange: (keys, rows) => {
+              setSelectedIds(keys as string[]);
+              setSelectedNames((prev) => ({
+                ...prev,
+                ...Object.fromEntries(rows.filter(Boolean).map((row) => [row.id, row.full_name])),
+              }));
+            },
           }}
+          pagination={false}
           scroll={{ x: 1200 }}
         />
+        <Space style={{ display: "flex", justifyContent: "flex-end", marginTop: 16 }}>
+          <Text type="secondary">
+            {candidates.length > 0
+              ? `${pageStart + 1}-${pageStart + candidates.length} của ${pageInfo?.totalCount ?? 0} hồ sơ`
+              : `0 của ${pageInfo?.totalCount ?? 0} hồ sơ`}
+          </Text>
+          <Button
+            icon={<LeftOutlined />}
+            onClick={() => goToPage("backward")}
+            disabled={loading || !pageInfo?.hasPreviousPage}
+          />
+          <Button
+            icon={<RightOutlined />}
+            onClick={() => goToPage("forward")}
+            disabled={loading || !pageInfo?.hasNextPage}
+          />
+          <Select
+            value={pageSize}
+            onChange={(value) => {
+              setPageSize(value);
+              setPageRequest(FIRST_PAGE);
+            }}
+            options={PAGE_SIZES.map((size) => ({ value: size, label: `${size} / trang` }))}
+            style={{ width: 120 }}
+          />
+        </Space>
       </Card>
+
+      {/* Drawer chi tiết ứng viên */}
+      <CandidateDetail
+        candidateId={detailId}
+        onClose={() => openDetail(null)}
+        onChanged={fetchCandidates}
+      />
+
+      {/* Modal lịch sử CV */}
+      <Modal
+        title={`Lịch sử CV — ${resumeCandidate?.full_name ?? ""}`}
+        open={!!resumeCandidate}
+        onCancel={() => setResumeCandidate(null)}
+        footer={null}
+        destroyOnClose
+      >
+        {resumeCandidate && (
+          <ResumeHistory
+            candidateId={resumeCandidate.id}
+            onChanged={fetchCandidates}
+          />
+        )}
+      </Modal>
+
+      {/* Modal gợi ý vị trí */}
+      <Modal
+        title={`Vị trí phù hợp — ${suggestCandidate?.full_name ?? ""}`}
+        open={!!suggestCandidate}
+        onCancel={() => setSuggestCandidate(null)}
+        footer={null}
+        width={640}
+        destroyOnClose
+      >
+        {suggestCandidate && <SuggestedPositions candidateId={suggestCandidate.id} />}
+      </Modal>
+
+      {/* Modal so sánh ứng viên */}
+      <Modal
+        title={`So sánh ${selectedIds.length} ứng viên`}
+        open={comparing}
+        onCancel={() => setComparing(false)}
+        footer={null}
+        width={1000}
+        destroyOnClose
+      >
+        <CandidateComparison candidateIds={selectedIds} />
+      </Modal>
+
+      {/* Modal thêm vào shortlist */}
+      <AddToShortlist
+        open={!!shortlistCandidate}
+        candidates={
+          shortlistCandidate
+            ? [{ candidate_id: shortlistCandidate.id, score_snapshot: shortlistCandidate.matching_score }]
+            : []
+        }
+        onClose={() => setShortlistCandidate(null)}
+      />
+
+      {/* Modal gộp hồ sơ trùng */}
+      <Modal
+        title="Gộp hồ sơ trùng"
+        open={!!mergeCandidate}
+        onCancel={() => setMergeCandidate(null)}
+        onOk={handleMerge}
+        okText="Gộp"
+        cancelText="Hủy"
+        okButtonProps={{ disabled: !mergePrimaryId }}
+        confirmLoading={merging}
+        destroyOnClose
+      >
+        {mergeCandidate && (
+          <Space direction="vertical" style={{ width: "100%" }}>
+            <Text>
+              Gộp <Text strong>{mergeCandidate.full_name}</Text> vào hồ sơ:
+            </Text>
+            <Select
+              style={{ width: "100%" }}
+              value={mergePrimaryId}
+              onChange={setMergePrimaryId}
+              options={getDuplicates(mergeCandidate).map((c) => ({
+                value: c.id,
+                label: `${c.full_name} — ${c.applied_position || "—"} (${dayjs(
+                  c.created_at
+                ).format("DD/MM/YYYY")})`,
+              }))}
+            />
+            <Text type="secondary">
+              Kỹ năng và CV sẽ được gộp vào hồ sơ đã chọn, hồ sơ hiện tại sẽ
+              bị xóa.
+            </Text>
+          </Space>
+        )}
+      </Modal>
     </div>
   );
 }
@@ -0,0 +1,290 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Badge,
+  Button,
+  Checkbox,
+  Form,
+  Input,
+  Modal,
+  Popconfirm,
+  Select,
+  Space,
+  Switch,
+  Tooltip,
+  message,
+} from "antd";
+import {
+  DeleteOutlined,
+  PlusOutlined,
+  PushpinFilled,
+  PushpinOutlined,
+  SaveOutlined,
+  TeamOutlined,
+} from "@ant-design/icons";
+import { getErrorMessage } from "../lib/edgeFunctions";
+import type { CandidateFilters, CandidateSort } from "../lib/candidates";
+import {
+  type CandidateView,
+  createCandidateView,
+  deleteCandidateView,
+  fetchCandidateViewCounts,
+  fetchCandidateViews,
+  isViewModified,
+  normalizeViewFilters,
+  setCandidateViewPinned,
+  updateCandidateView,
+} from "../lib/candidateViews";
+
+interface CandidateViewsProps {
+  userId: string;
+  filters: CandidateFilters;
+  sort: CandidateSort;
+  visibleColumns: string[] | null;
+  onApply: (view: CandidateView) => void;
+}
+
+interface ViewFormValues {
+  name: string;
+  is_shared: boolean;
+  pinned: boolean;
+}
+
+// Lỗi trùng tên view (unique user_id, name)
+const isDuplicateName = (error: unknown) => (error as { code?: string })?.code === "23505";
+
+// Chọn, lưu, ghim và chia sẻ view của danh sách ứng viên, kèm số hồ sơ khớp từng view
+export default function CandidateViews({ userId, filters, sort, visibleColumns, onApply }: CandidateViewsProps) {
+  const [form] = Form.useForm<ViewFormValues>();
+  const [views, setViews] = useState<CandidateView[]>([]);
+  const [counts, setCounts] = useState<Record<string, number | null>>({});
+  const [activeId, setActiveId] = useState<string>();
+  const [modalOpen, setModalOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const active = views.find((view) => view.id === activeId);
+  const isOwn = active?.user_id === userId;
+  const modified = !!active && isViewModified(active, filters, sort, visibleColumns);
+
+  const refreshCounts = useCallback(async () => {
+    try {
+      setCounts(await fetchCandidateViewCounts());
+    } catch (error) {
+      console.error("Candidate view counts error:", error);
+    }
+  }, []);
+
+  const loadViews = useCallback(async () => {
+    try {
+      const data = await fetchCandidateViews();
+      setViews(data);
+      setActiveId((current) => (current && data.some((view) => view.id === current) ? current : undefined));
+      if (data.length > 0) refreshCounts();
+    } catch (error) {
+      message.error("Lỗi khi tải view đã lưu: " + (error as Error).message);
+    }
+  }, [refreshCounts]);
+
+  useEffect(() => {
+    loadViews();
+  }, [loadViews]);
+
+  const handleSelect = (id?: string) => {
+    setActiveId(id);
+    const view = views.find((item) => item.id === id);
+    if (view) onApply(view);
+  };
+
+  const handleCreate = async (values: ViewFormValues) => {
+    setSaving(true);
+    try {
+      const created = await createCandidateView(
+        {
+          name: values.name,
+          filters: normalizeViewFilters(filters),
+          sort,
+          visible_columns: visibleColumns,
+          is_shared: values.is_shared,
+        },
+        values.pinned
+      );
+      message.success(`Đã lưu view "${created.name}"`);
+      setModalOpen(false);
+      setActiveId(created.id);
+      await loadViews();
+    } catch (error) {
+      message.error(
+        isDuplicateName(error)
+          ? "Bạn đã có view cùng tên"
+          : "Lỗi khi lưu view: " + getErrorMessage(error)
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Ghi đè view đang chọn bằng bộ lọc, sắp xếp và cột hiện tại
+  const handleUpdate = async () => {
+    if (!active) return;
+    try {
+      await updateCandidateView(active.id, {
+        filters: normalizeViewFilters(filters),
+        sort,
+        visible_columns: visibleColumns,
+      });
+      message.success(`Đã cập nhật view "${active.name}"`);
+      await loadViews();
+    } catch (error) {
+      message.error("Lỗi khi cập nhật view: " + getErrorMessage(error));
+    }
+  };
+
+  const handleToggleShared = async () => {
+    if (!active) return;
+    try {
+      await updateCandidateView(active.id, { is_shared: !active.is_shared });
+      message.success(active.is_shared ? "Đã ngừng chia sẻ view" : "Đã chia sẻ view với cả nhóm");
+      await loadViews();
+    } catch (error) {
+      message.error("Lỗi khi chia sẻ view: " + getErrorMessage(error));
+    }
+  };
+
+  const handleTogglePinned = async () => {
+    if (!active) return;
+    try {
+      await setCandidateViewPinned(active.id, !active.pinned);
+      setViews((prev) => prev.map((view) => (view.id === active.id ? { ...view, pinned: !view.pinned } : view)));
+    } catch (error) {
+      message.error("Lỗi khi ghim view: " + getErrorMessage(error));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!active) return;
+    try {
+      await deleteCandidateView(active.id);
+      message.success(`Đã xóa view "${active.name}"`);
+      setActiveId(undefined);
+      await loadViews();
+    } catch (error) {
+      message.error("Lỗi khi xóa view: " + getErrorMessage(error));
+    }
+  };
+
+  const toOption = (view: CandidateView) => ({
+    value: view.id,
+    label: (
+      <Space size={4}>
+        <span>{view.name}</span>
+        {view.is_shared && <TeamOutlined style={{ color: "#8c8c8c" }} />}
+        {counts[view.id] != null && (
+          <Badge count={counts[view.id]} showZero overflowCount={9999} color="#1677ff" size="small" />
+        )}
+      </Space>
+    ),
+    searchLabel: view.name,
+  });
+
+  // Nhóm: đã ghim, của tôi, được chia sẻ
+  const groups = [
+    { label: "Đã ghim", options: views.filter((view) => view.pinned) },
+    { label: "Của tôi", options: views.filter((view) => !view.pinned && view.user_id === userId) },
+    { label: "Được chia sẻ", options: views.filter((view) => !view.pinned && view.user_id !== userId) },
+  ]
+    .filter((group) => group.options.length > 0)
+    .map((group) => ({ label: group.label, options: group.options.map(toOption) }));
+
+  return (
+    <Space size={4} wrap>
+      <Select
+        size="small"
+        placeholder="View đã lưu"
+        value={activeId}
+        onChange={handleSelect}
+        // Số hồ sơ được đếm lại mỗi lần mở danh sách view
+        onOpenChange={(open) => open && refreshCounts()}
+        options={groups}
+        optionFilterProp="searchLabel"
+        showSearch
+        allowClear
+        notFoundContent="Chưa có view nào"
+        style={{ minWidth: 220 }}
+      />
+      {active && modified && isOwn && (
+        <Tooltip title="Lưu bộ lọc, sắp xếp và cột hiện tại vào view này">
+          <Button size="small" icon={<SaveOutlined />} onClick={handleUpdate}>
+            Lưu thay đổi
+          </Button>
+        </Tooltip>
+      )}
+      {active && (
+        <Tooltip title={active.pinned ? "Bỏ ghim" : "Ghim lên đầu"}>
+          <Button
+            size="small"
+            icon={active.pinned ? <PushpinFilled /> : <PushpinOutlined />}
+            onClick={handleTogglePinned}
+          />
+        </Tooltip>
+      )}
+      {active && isOwn && (
+        <Tooltip title={active.is_shared ? "Ngừng chia sẻ" : "Chia sẻ với cả nhóm"}>
+          <Button
+            size="small"
+            type={active.is_shared ? "primary" : "default"}
+            icon={<TeamOutlined />}
+            onClick={handleToggleShared}
+          />
+        </Tooltip>
+      )}
+      {active && isOwn && (
+        <Popconfirm
+          title={`Xóa view "${active.name}"?`}
+          onConfirm={handleDelete}
+          okText="Xóa"
+          cancelText="Hủy"
+          okButtonProps={{ danger: true }}
+        >
+          <Button size="small" danger icon={<DeleteOutlined />} />
+        </Popconfirm>
+      )}
+      <Button
+        size="small"
+        icon={<PlusOutlined />}
+        onClick={() => {
+          form.setFieldsValue({ name: "", is_shared: false, pinned: true });
+          setModalOpen(true);
+        }}
+      >
+        Lưu view
+      </Button>
+
+      <Modal
+        title="Lưu view mới"
+        open={modalOpen}
+        onCancel={() => setModalOpen(false)}
+        onOk={() => form.submit()}
+        okText="Lưu"
+        cancelText="Hủy"
+        confirmLoading={saving}
+        forceRender
+      >
+        <Form form={form} layout="vertical" onFinish={handleCreate}>
+          <Form.Item
+            name="name"
+            label="Tên view"
+            rules={[{ required: true, whitespace: true, message: "Nhập tên view" }]}
+            extra="Lưu bộ lọc, cách sắp xếp và các cột đang hiển thị"
+          >
+            <Input maxLength={100} placeholder="Ví dụ: React đang phỏng vấn, 30 ngày qua" />
+          </Form.Item>
+          <Form.Item name="is_shared" label="Chia sẻ với cả nhóm" valuePropName="checked">
+            <Switch />
+          </Form.Item>
+          <Form.Item name="pinned" valuePropName="checked">
+            <Checkbox>Ghim lên đầu danh sách view</Checkbox>
+          </Form.Item>
+        </Form>
+      </Modal>
+    </Space>
+  );
+}
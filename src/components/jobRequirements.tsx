@@ -0,0 +1,431 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "../lib/supabaseClient";
+import {
+  Table,
+  Tag,
+  Button,
+  Card,
+  Space,
+  Input,
+  InputNumber,
+  Modal,
+  Form,
+  Select,
+  Switch,
+  Popconfirm,
+  Tooltip,
+  Typography,
+  Badge,
+  message,
+} from "antd";
+import {
+  SolutionOutlined,
+  PlusOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  ReloadOutlined,
+  MinusCircleOutlined,
+  UserSwitchOutlined,
+} from "@ant-design/icons";
+import dayjs from "dayjs";
+import {
+  createJobRequirement,
+  deleteJobRequirement,
+  fetchJobRequirements,
+  updateJobRequirement,
+  type JobRequirement,
+  type SkillRequirement,
+} from "../lib/jobRequirements";
+import { fetchSkillTaxonomy, type SkillTaxonomyEntry } from "../lib/skillTaxonomy";
+import { getErrorMessage } from "../lib/edgeFunctions";
+import {
+  fetchRediscoverySuggestions,
+  groupSuggestionsBy,
+  type RediscoverySuggestion,
+} from "../lib/rediscovery";
+import RediscoveredCandidates from "./rediscoveredCandidates";
+
+const { Text } = Typography;
+const { TextArea } = Input;
+
+interface JobFormValues {
+  title: string;
+  department?: string;
+  description?: string;
+  is_open: boolean;
+  min_years_experience?: number | null;
+  skill_requirements: SkillRequirement[];
+}
+
+// Job cũ chỉ có required_skills được hiển thị như kỹ năng nice-to-have trọng số 1
+function getSkillRequirements(job: JobRequirement): SkillRequirement[] {
+  if (job.skill_requirements && job.skill_requirements.length > 0) {
+    return job.skill_requirements;
+  }
+  return (job.required_skills || []).map((skill) => ({
+    skill,
+    tier: "nice_to_have",
+    weight: 1,
+  }));
+}
+
+export default function JobRequirements() {
+  const [form] = Form.useForm<JobFormValues>();
+  const [jobs, setJobs] = useState<JobRequirement[]>([]);
+  const [skillTaxonomy, setSkillTaxonomy] = useState<SkillTaxonomyEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editingJob, setEditingJob] = useState<JobRequirement | null>(null);
+  const [modalOpen, setModalOpen] = useState(false);
+  // Người dùng hiện tại để biết vị trí nào được sửa / xóa
+  const [manager, setManager] = useState<{ userId: string; isAdmin: boolean } | null>(null);
+
+  // Ứng viên cũ được tìm lại cho từng vị trí
+  const [suggestions, setSuggestions] = useState<RediscoverySuggestion[]>([]);
+  const [rediscoveryJob, setRediscoveryJob] = useState<JobRequirement | null>(null);
+
+  const fetchSuggestions = useCallback(async () => {
+    try {
+      setSuggestions(await fetchRediscoverySuggestions());
+    } catch (error) {
+      console.error("Rediscovery suggestions error:", error);
+    }
+  }, []);
+
+  const fetchJobs = useCallback(async () => {
+    setLoading(true);
+    try {
+      setJobs(await fetchJobRequirements());
+    } catch (error) {
+      message.error("Lỗi khi tải danh sách vị trí: " + getErrorMessage(error));
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchJobs();
+    fetchSuggestions();
+    fetchSkillTaxonomy()
+      .then(setSkillTaxonomy)
+      .catch((error) => console.error("Skill taxonomy error:", error));
+    supabase.auth.getSession().then(({ data }) => {
+      const sessionUser = data.session?.user;
+      setManager(sessionUser ? { userId: sessionUser.id, isAdmin: sessionUser.app_metadata?.role === "admin" } : null);
+    });
+  }, [fetchJobs, fetchSuggestions]);
+
+  // Cùng quy tắc với edge function job-requirements
+  const canManage = (job: JobRequirement) =>
+    !!manager && (manager.isAdmin || job.created_by === manager.userId);
+
+  const suggestionsByJob = groupSuggestionsBy(suggestions, "job_requirement_id");
+
+  // Thông báo số ứng viên cũ tìm lại được sau khi tạo / mở lại vị trí
+  const notifyRediscovered = (rediscovered: number) => {
+    if (rediscovered > 0) {
+      message.info(`Tìm thấy ${rediscovered} ứng viên cũ phù hợp với vị trí`);
+      fetchSuggestions();
+    }
+  };
+
+  const openModal = (job: JobRequirement | null) => {
+    setEditingJob(job);
+    form.setFieldsValue({
+      title: job?.title ?? "",
+      department: job?.department ?? undefined,
+      description: job?.description ?? undefined,
+      is_open: job?.is_open ?? true,
+      min_years_experience: job?.min_years_experience ?? null,
+      skill_requirements: job ? getSkillRequirements(job) : [],
+    });
+    setModalOpen(true);
+  };
+
+  const handleSave = async (values: JobFormValues) => {
+    setSaving(true);
+    try {
+      const input = {
+        ...values,
+        min_years_experience: values.min_years_experience ?? null,
+        skill_requirements: values.skill_requirements || [],
+      };
+      if (editingJob) {
+        const { rediscovered } = await updateJobRequirement(editingJob.id, input);
+        message.success("Đã cập nhật vị trí");
+        notifyRediscovered(rediscovered);
+      } else {
+        const { rediscovered } = await createJobRequirement(input);
+        message.success("Đã thêm vị trí");
+        notifyRediscovered(rediscovered);
+      }
+      setModalOpen(false);
+      fetchJobs();
+    } catch (error) {
+      message.error("Lỗi khi lưu vị trí: " + getErrorMessage(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleOpen = async (job: JobRequirement, isOpen: boolean) => {
+    try {
+      const { rediscovered } = await updateJobRequirement(job.id, { is_open: isOpen });
+      message.success(isOpen ? `Đã mở tuyển "${job.title}"` : `Đã đóng tuyển "${job.title}"`);
+      notifyRediscovered(rediscovered);
+      fetchJobs();
+    } catch (error) {
+      message.error("Lỗi khi cập nhật trạng thái: " + getErrorMessage(error));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteJobRequirement(id);
+      message.success("Đã xóa vị trí");
+      fetchJobs();
+    } catch (error) {
+      message.error("Lỗi khi xóa: " + getErrorMessage(error));
+    }
+  };
+
+  const columns = [
+    {
+      title: "Vị trí",
+      dataIndex: "title",
+      key: "title",
+      sorter: (a: JobRequirement, b: JobRequirement) => a.title.localeCompare(b.title),
+      render: (title: string, record: JobRequirement) => (
+        <Space direction="vertical" size={0}>
+          <Space size={4}>
+            <Text strong>{title}</Text>
+            {suggestionsByJob[record.id] && (
+              <Tooltip title="Ứng viên cũ phù hợp với vị trí này">
+                <span style={{ cursor: "pointer" }} onClick={() => setRediscoveryJob(record)}>
+                  <Badge count={suggestionsByJob[record.id].length} color="purple" />
+                </span>
+              </Tooltip>
+            )}
+          </Space>
+          {record.description && (
+            <Text type="secondary" ellipsis style={{ maxWidth: 280 }}>
+              {record.description}
+            </Text>
+          )}
+        </Space>
+      ),
+    },
+    {
+      title: "Phòng ban",
+      dataIndex: "department",
+      key: "department",
+      render: (department: string | null) => department || <Text type="secondary">-</Text>,
+    },
+    {
+      title: "Kỹ năng yêu cầu",
+      key: "skills",
+      render: (_: unknown, record: JobRequirement) => {
+        const requirements = getSkillRequirements(record);
+        if (requirements.length === 0) return <Text type="secondary">Chưa khai báo</Text>;
+        return requirements.map((requirement) => (
+          <Tooltip
+            key={requirement.skill}
+            title={[
+              requirement.tier === "must_have" ? "Bắt buộc" : "Ưu tiên",
+              `trọng số ${requirement.weight}`,
+              requirement.min_years ? `tối thiểu ${requirement.min_years} năm` : null,
+            ].filter(Boolean).join(" · ")}
+          >
+            <Tag color={requirement.tier === "must_have" ? "red" : "blue"}>
+              {requirement.skill}
+            </Tag>
+          </Tooltip>
+        ));
+      },
+    },
+    {
+      title: "Đang tuyển",
+      dataIndex: "is_open",
+      key: "is_open",
+      width: 110,
+      filters: [
+        { text: "Đang tuyển", value: true },
+        { text: "Đã đóng", value: false },
+      ],
+      onFilter: (value: unknown, record: JobRequirement) => record.is_open === value,
+      render: (isOpen: boolean, record: JobRequirement) => (
+        <Switch
+          size="small"
+          checked={isOpen}
+          onChange={(checked) => handleToggleOpen(record, checked)}
+          disabled={!canManage(record)}
+        />
+      ),
+    },
+    {
+      title: "Cập nhật",
+      dataIndex: "updated_at",
+      key: "updated_at",
+      width: 120,
+      render: (date: string) => (date ? dayjs(date).format("DD/MM/YYYY") : "-"),
+    },
+    {
+      title: "Thao tác",
+      key: "action",
+      width: 220,
+      render: (_: unknown, record: JobRequirement) => (
+        <Space size={0}>
+          <Tooltip title="Ứng viên cũ phù hợp">
+            <Button type="text" icon={<UserSwitchOutlined />} onClick={() => setRediscoveryJob(record)} />
+          </Tooltip>
+          <Button
+            type="text"
+            icon={<EditOutlined />}
+            onClick={() => openModal(record)}
+            disabled={!canManage(record)}
+          >
+            Sửa
+          </Button>
+          <Popconfirm
+            disabled={!canManage(record)}
+            title="Xóa vị trí"
+            description="Bạn có chắc muốn xóa vị trí này? Có thể đóng tuyển thay vì xóa."
+            onConfirm={() => handleDelete(record.id)}
+            okText="Xóa"
+            cancelText="Hủy"
+            okButtonProps={{ danger: true }}
+          >
+            <Button type="text" danger icon={<DeleteOutlined />} disabled={!canManage(record)}>
+              Xóa
+            </Button>
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div style={{ padding: "24px" }}>
+      <Card
+        title={
+          <Space>
+            <SolutionOutlined />
+            <span>Vị trí tuyển dụng</span>
+            <Tag color="green">{jobs.filter((job) => job.is_open).length} đang tuyển</Tag>
+          </Space>
+        }
+        extra={
+          <Space>
+            <Button icon={<ReloadOutlined />} onClick={fetchJobs} loading={loading}>
+              Làm mới
+            </Button>
+            <Button type="primary" icon={<PlusOutlined />} onClick={() => openModal(null)}>
+              Thêm vị trí
+            </Button>
+          </Space>
+        }
+      >
+        <Table
+          rowKey="id"
+          loading={loading}
+          dataSource={jobs}
+          columns={columns}
+          pagination={{ pageSize: 20 }}
+        />
+      </Card>
+
+      <Modal
+        title={`Ứng viên cũ phù hợp — ${rediscoveryJob?.title ?? ""}`}
+        open={!!rediscoveryJob}
+        onCancel={() => setRediscoveryJob(null)}
+        footer={null}
+        width={720}
+        destroyOnClose
+      >
+        {rediscoveryJob && (
+          <RediscoveredCandidates jobRequirementId={rediscoveryJob.id} onChanged={fetchSuggestions} />
+        )}
+      </Modal>
+
+      <Modal
+        title={editingJob ? `Sửa vị trí: ${editingJob.title}` : "Thêm vị trí"}
+        open={modalOpen}
+        onCancel={() => setModalOpen(false)}
+        onOk={() => form.submit()}
+        okText="Lưu"
+        cancelText="Hủy"
+        confirmLoading={saving}
+        width={720}
+        destroyOnClose
+      >
+        <Form form={form} layout="vertical" onFinish={handleSave}>
+          <Form.Item
+            name="title"
+            label="Tên vị trí"
+            rules={[{ required: true, whitespace: true, message: "Vui lòng nhập tên vị trí" }]}
+          >
+            <Input placeholder="Ví dụ: Frontend Developer" />
+          </Form.Item>
+          <Space style={{ display: "flex" }} align="start">
+            <Form.Item name="department" label="Phòng ban" style={{ width: 320 }}>
+              <Input placeholder="Ví dụ: Engineering" />
+            </Form.Item>
+            <Form.Item name="min_years_experience" label="Số năm kinh nghiệm tối thiểu">
+              <InputNumber min={0} max={50} step={0.5} placeholder="Không yêu cầu" style={{ width: 180 }} />
+            </Form.Item>
+            <Form.Item name="is_open" label="Đang tuyển" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          </Space>
+          <Form.Item name="description" label="Mô tả">
+            <TextArea rows={3} placeholder="Mô tả công việc" />
+          </Form.Item>
+
+          <Text strong>Kỹ năng yêu cầu</Text>
+          <Form.List name="skill_requirements">
+            {(fields, { add, remove }) => (
+              <div style={{ marginTop: 8 }}>
+                {fields.map(({ key, name }) => (
+                  <Space key={key} align="baseline" style={{ display: "flex" }}>
+                    <Form.Item
+                      name={[name, "skill"]}
+                      rules={[{ required: true, message: "Chọn kỹ năng" }]}
+                    >
+                      <Select
+                        showSearch
+                        style={{ width: 240 }}
+                        placeholder="Kỹ năng"
+                        options={skillTaxonomy.map((entry) => ({
+                          value: entry.name,
+                          label: entry.name,
+                        }))}
+                      />
+                    </Form.Item>
+                    <Form.Item name={[name, "tier"]} initialValue="nice_to_have">
+                      <Select
+                        style={{ width: 140 }}
+                        options={[
+                          { value: "must_have", label: "Bắt buộc" },
+                          { value: "nice_to_have", label: "Ưu tiên" },
+                        ]}
+                      />
+                    </Form.Item>
+                    <Form.Item name={[name, "weight"]} initialValue={1}>
+                      <InputNumber min={1} max={10} addonBefore="Trọng số" style={{ width: 150 }} />
+                    </Form.Item>
+                    <Form.Item name={[name, "min_years"]}>
+                      <InputNumber min={0} max={50} step={0.5} addonAfter="Năm" placeholder="Tối thiểu" style={{ width: 150 }} />
+                    </Form.Item>
+                    <MinusCircleOutlined onClick={() => remove(name)} />
+                  </Space>
+                ))}
+                <Button type="dashed" onClick={() => add()} block icon={<PlusOutlined />}>
+                  Thêm kỹ năng
+                </Button>
+              </div>
+            )}
+          </Form.List>
+        </Form>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "../lib/supabaseClient";
+import {
+  Alert,
+  Button,
+  Card,
+  Col,
+  Descriptions,
+  Empty,
+  Row,
+  Space,
+  Statistic,
+  Switch,
+  Table,
+  Tag,
+  Typography,
+  message,
+} from "antd";
+import { BulbOutlined, ThunderboltOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+import {
+  fetchLearnedModel,
+  learnedFeatureLabel,
+  setLearnedModelEnabled,
+  type LearnedModel,
+} from "../lib/scoringSettings";
+import { callEdgeFunction, EdgeFunctionError, getErrorMessage } from "../lib/edgeFunctions";
+
+const { Text } = Typography;
+
+interface TrainingDataCounts {
+  samples: number;
+  hired: number;
+  rejected: number;
+}
+
+function formatPrecision(value: number | null | undefined): string {
+  return value === null || value === undefined ? "—" : `${Math.round(value * 100)}%`;
+}
+
+export default function LearnedWeights() {
+  const [model, setModel] = useState<LearnedModel | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [training, setTraining] = useState(false);
+  const [toggling, setToggling] = useState(false);
+
+  const loadModel = useCallback(async () => {
+    setLoading(true);
+    try {
+      setModel(await fetchLearnedModel());
+    } catch (error) {
+      message.error("Lỗi khi tải mô hình: " + (error as Error).message);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadModel();
+  }, [loadModel]);
+
+  const handleTrain = async () => {
+    setTraining(true);
+    try {
+      const { model: trained } = await callEdgeFunction<{ model: LearnedModel }>("train-weights", { body: {} });
+      setModel(trained);
+      message.success("Đã học lại trọng số từ kết quả tuyển dụng");
+    } catch (error) {
+      const counts =
+        error instanceof EdgeFunctionError && error.code === "INSUFFICIENT_TRAINING_DATA"
+          ? (error.details as TrainingDataCounts | undefined)
+          : undefined;
+      message.error(
+        counts
+          ? `${getErrorMessage(error)} (hiện có ${counts.hired} Hired, ${counts.rejected} Rejected)`
+          : "Lỗi khi học trọng số: " + getErrorMessage(error)
+      );
+    } finally {
+      setTraining(false);
+    }
+  };
+
+  const handleToggle = async (enabled: boolean) => {
+    setToggling(true);
+    try {
+      const { data } = await supabase.auth.getUser();
+      if (!data.user) {
+        message.error("Bạn chưa đăng nhập");
+        return;
+      }
+      await setLearnedModelEnabled(data.user.id, enabled);
+      setModel((prev) => (prev ? { ...prev, enabled } : prev));
+      message.success(enabled ? "Gợi ý đang dùng trọng số đã học" : "Gợi ý quay lại dùng cấu hình thủ công");
+    } catch (error) {
+      message.error("Lỗi khi cập nhật: " + (error as Error).message);
+    } finally {
+      setToggling(false);
+    }
+  };
+
+  const evaluation = model?.evaluation;
+  const modelIsBetter =
+    evaluation?.model_precision != null &&
+    evaluation.heuristic_precision != null &&
+    evaluation.model_precision > evaluation.heuristic_precision;
+
+  // Hệ số lớn nhất (theo trị tuyệt đối) lên đầu
+  const weightRows = Object.entries(model?.weights ?? {})
+    .map(([feature, weight]) => ({ feature, weight }))
+    .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight));
+
+  return (
+    <Card
+      title={
+        <Space>
+          <BulbOutlined />
+          <span>Trọng số học từ kết quả tuyển dụng</span>
+        </Space>
+      }
+      loading={loading}
+      extra={
+        <Button icon={<ThunderboltOutlined />} onClick={handleTrain} loading={training}>
+          {model ? "Học lại" : "Học trọng số"}
+        </Button>
+      }
+    >
+      {model ? (
+        <Space direction="vertical" size="middle" style={{ width: "100%" }}>
+          <Descriptions size="small" column={3}>
+            <Descriptions.Item label="Học lúc">
+              {dayjs(model.trained_at).format("DD/MM/YYYY HH:mm")}
+            </Descriptions.Item>
+            <Descriptions.Item label="Số hồ sơ">
+              {model.training_samples} ({model.hired_samples} Hired)
+            </Descriptions.Item>
+            <Descriptions.Item label="Dùng cho gợi ý">
+              <Switch checked={model.enabled} loading={toggling} onChange={handleToggle} />
+            </Descriptions.Item>
+          </Descriptions>
+
+          {evaluation && (
+            <>
+              <Row gutter={16}>
+                <Col span={8}>
+                  <Statistic
+                    title={`Precision@${evaluation.k} — mô hình`}
+                    value={formatPrecision(evaluation.model_precision)}
+                    valueStyle={modelIsBetter ? { color: "#3f8600" } : undefined}
+                  />
+                </Col>
+                <Col span={8}>
+                  <Statistic
+                    title={`Precision@${evaluation.k} — cấu hình hiện tại`}
+                    value={formatPrecision(evaluation.heuristic_precision)}
+                  />
+                </Col>
+                <Col span={8}>
+                  <Statistic title="Vị trí dùng để đánh giá" value={evaluation.jobs_evaluated} />
+                </Col>
+              </Row>
+              <Text type="secondary">
+                Học trên {evaluation.train_samples} hồ sơ cũ hơn, đánh giá trên {evaluation.test_samples} hồ sơ mới
+                nhất: tỉ lệ ứng viên được tuyển trong {evaluation.k} người xếp đầu của mỗi vị trí.
+              </Text>
+              {evaluation.jobs_evaluated === 0 && (
+                <Alert
+                  type="warning"
+                  showIcon
+                  message="Tập đánh giá chưa có vị trí nào có người được tuyển, chưa đủ cơ sở để so sánh."
+                />
+              )}
+            </>
+          )}
+
+          <Table
+            rowKey="feature"
+            size="small"
+            pagination={false}
+            dataSource={weightRows}
+            columns={[
+              {
+                title: "Đặc trưng",
+                dataIndex: "feature",
+                key: "feature",
+                render: (feature: string) => learnedFeatureLabel(feature),
+              },
+              {
+                title: "Hệ số",
+                dataIndex: "weight",
+                key: "weight",
+                width: 140,
+                render: (weight: number) => (
+                  <Tag color={weight > 0 ? "green" : weight < 0 ? "red" : "default"}>
+                    {weight > 0 ? "+" : ""}
+                    {weight.toFixed(2)}
+                  </Tag>
+                ),
+              },
+            ]}
+          />
+        </Space>
+      ) : (
+        <Empty description="Chưa học trọng số. Cần ít nhất 20 hồ sơ đã Hired / Rejected gắn với vị trí tuyển dụng." />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,388 @@
+import { useEffect, useState } from "react";
+import { supabase } from "../lib/supabaseClient";
+import {
+  Button,
+  Card,
+  Col,
+  InputNumber,
+  Row,
+  Select,
+  Space,
+  Statistic,
+  Table,
+  Tag,
+  Tooltip,
+  Typography,
+  message,
+} from "antd";
+import type { ColumnsType } from "antd/es/table";
+import dayjs from "dayjs";
+import {
+  FilePdfOutlined,
+  OrderedListOutlined,
+  SearchOutlined,
+  TrophyOutlined,
+  WarningOutlined,
+} from "@ant-design/icons";
+import { fetchJobRequirements, type JobRequirement, type SkillRequirement } from "../lib/jobRequirements";
+import { callEdgeFunction, getErrorMessage } from "../lib/edgeFunctions";
+import type { ScoreBreakdown } from "../lib/scoringSettings";
+import type { ShortlistCandidate } from "../lib/shortlists";
+import {
+  type CandidateExperience,
+  type ExperienceShortfall,
+  formatExperience,
+  formatShortfall,
+} from "../lib/experience";
+import ScoreBreakdownTooltip from "./scoreBreakdown";
+import AddToShortlist from "./addToShortlist";
+
+const { Text } = Typography;
+
+const STATUSES = ["New", "Screening", "Interviewing", "Hired", "Rejected"];
+
+interface Recommendation extends CandidateExperience {
+  id: string;
+  full_name: string;
+  applied_position: string;
+  status: string;
+  resume_url: string;
+  resume_preview_url: string | null;
+  skills: string[];
+  recommendation_score: number;
+  score_breakdown: ScoreBreakdown | null;
+  matched_skills: string[];
+  missing_skills: string[];
+  missing_must_haves: string[];
+  meets_must_haves: boolean;
+  under_experienced_skills: ExperienceShortfall[];
+  meets_experience: boolean;
+  match_percentage: number;
+  text_score: number;
+}
+
+interface RecommendResponse {
+  recommendations: Recommendation[];
+  statistics: {
+    total_candidates: number;
+    candidates_with_skills: number;
+    average_match_percentage: number;
+    excluded_statuses: string[];
+    job_requirements: {
+      title: string;
+      required_skills: string[];
+      skill_requirements: SkillRequirement[];
+      min_years_experience: number | null;
+      total_required_skills: number;
+    };
+  };
+}
+
+// Màn hình "Tìm ứng viên phù hợp": chọn vị trí và xem xếp hạng từ edge function recommend
+export default function Recommendations() {
+  const [positions, setPositions] = useState<JobRequirement[]>([]);
+  const [positionsLoading, setPositionsLoading] = useState(false);
+  const [jobRequirementId, setJobRequirementId] = useState<string>();
+  const [limit, setLimit] = useState(5);
+  const [result, setResult] = useState<RecommendResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Lưu kết quả vào shortlist
+  const [shortlistCandidates, setShortlistCandidates] = useState<ShortlistCandidate[] | null>(null);
+
+  useEffect(() => {
+    setPositionsLoading(true);
+    fetchJobRequirements(true)
+      .then(setPositions)
+      .catch((error) => message.error("Lỗi khi tải vị trí tuyển dụng: " + getErrorMessage(error)))
+      .finally(() => setPositionsLoading(false));
+  }, []);
+
+  const handleSearch = async () => {
+    if (!jobRequirementId) return;
+
+    setLoading(true);
+    try {
+      setResult(
+        await callEdgeFunction<RecommendResponse>("recommend", {
+          body: { job_requirement_id: jobRequirementId, limit },
+        })
+      );
+    } catch (error) {
+      setResult(null);
+      message.error("Lỗi khi tìm ứng viên: " + getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  async function handleStatusChange(id: string, newStatus: string) {
+    const { error } = await supabase
+      .from("candidates")
+      .update({ status: newStatus })
+      .eq("id", id);
+
+    if (error) {
+      message.error("Lỗi khi cập nhật trạng thái: " + error.message);
+      return;
+    }
+
+    message.success(`Đã cập nhật trạng thái thành "${newStatus}"`);
+    setResult((prev) =>
+      prev && {
+        ...prev,
+        recommendations: prev.recommendations.map((c) =>
+          c.id === id ? { ...c, status: newStatus } : c
+        ),
+      }
+    );
+  }
+
+  const toShortlistCandidate = (record: Recommendation): ShortlistCandidate => ({
+    candidate_id: record.id,
+    score_snapshot: record.recommendation_score,
+    score_breakdown: record.score_breakdown,
+  });
+
+  const columns: ColumnsType<Recommendation> = [
+    {
+      title: "#",
+      key: "rank",
+      render: (_: unknown, __: Recommendation, index: number) => (
+        <Text strong>{index + 1}</Text>
+      ),
+      width: 50,
+      align: "center",
+    },
+    {
+      title: "Ứng viên",
+      key: "candidate",
+      render: (record: Recommendation) => (
+        <Space direction="vertical" size={0}>
+          <Text strong>{record.full_name}</Text>
+          <Text type="secondary" style={{ fontSize: 12 }}>
+            {record.applied_position || "—"}
+          </Text>
+          {formatExperience(record) && (
+            <Text type={record.meets_experience ? "secondary" : "warning"} style={{ fontSize: 12 }}>
+              {formatExperience(record)}
+            </Text>
+          )}
+        </Space>
+      ),
+      width: 200,
+    },
+    {
+      title: "Điểm gợi ý",
+      dataIndex: "recommendation_score",
+      key: "recommendation_score",
+      render: (score: number, record: Recommendation) => (
+        <Space direction="vertical" size={0}>
+          <ScoreBreakdownTooltip breakdown={record.score_breakdown}>
+            <Text strong style={{ fontSize: 16, cursor: "help" }}>
+              {score}
+            </Text>
+          </ScoreBreakdownTooltip>
+          <Text type="secondary" style={{ fontSize: 12 }}>
+            Khớp {record.match_percentage}% kỹ năng · nội dung CV {record.text_score}
+          </Text>
+        </Space>
+      ),
+      width: 140,
+    },
+    {
+      title: "Kỹ năng",
+      key: "skills",
+      render: (record: Recommendation) => (
+        <Space size={[0, 4]} wrap>
+          {record.matched_skills.map((skill) => {
+            const shortfall = record.under_experienced_skills.find((item) => item.skill === skill);
+            return shortfall ? (
+              <Tooltip key={skill} title="Chưa đủ số năm kinh nghiệm yêu cầu">
+                <Tag color="orange">{formatShortfall(shortfall)}</Tag>
+              </Tooltip>
+            ) : (
+              <Tag key={skill} color="green">
+                {skill}
+              </Tag>
+            );
+          })}
+          {record.missing_skills.map((skill) => (
+            <Tag
+              key={skill}
+              color="red"
+              icon={record.missing_must_haves.includes(skill) ? <WarningOutlined /> : undefined}
+            >
+              {skill}
+            </Tag>
+          ))}
+        </Space>
+      ),
+    },
+    {
+      title: "Trạng thái",
+      dataIndex: "status",
+      key: "status",
+      render: (status: string, record: Recommendation) => (
+        <Select
+          value={status}
+          style={{ width: 130 }}
+          onChange={(value) => handleStatusChange(record.id, value)}
+          getPopupContainer={(trigger) => trigger.parentElement}
+          options={STATUSES.map((value) => ({ value, label: value }))}
+        />
+      ),
+      width: 150,
+    },
+    {
+      title: "CV",
+      key: "resume",
+      render: (record: Recommendation) => (
+        <Space size={0}>
+          {record.resume_url ? (
+            <Tooltip title="Xem CV mới nhất">
+              <Button
+                type="link"
+                icon={<FilePdfOutlined />}
+                href={record.resume_preview_url || record.resume_url}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                Xem
+              </Button>
+            </Tooltip>
+          ) : (
+            <Text type="secondary">Không có</Text>
+          )}
+          <Tooltip title="Thêm vào shortlist">
+            <Button
+              type="text"
+              icon={<OrderedListOutlined />}
+              onClick={() => setShortlistCandidates([toShortlistCandidate(record)])}
+            />
+          </Tooltip>
+        </Space>
+      ),
+      width: 140,
+    },
+  ];
+
+  const stats = result?.statistics;
+
+  return (
+    <Space direction="vertical" size="middle" style={{ width: "100%" }}>
+      <Card
+        title={
+          <Space>
+            <TrophyOutlined />
+            <span>Tìm ứng viên phù hợp</span>
+          </Space>
+        }
+      >
+        <Space wrap>
+          <Select
+            showSearch
+            placeholder="Chọn vị trí tuyển dụng"
+            style={{ width: 300 }}
+            loading={positionsLoading}
+            value={jobRequirementId}
+            onChange={setJobRequirementId}
+            optionFilterProp="label"
+            options={positions.map((job) => ({ value: job.id, label: job.title }))}
+          />
+          <InputNumber
+            min={1}
+            max={10}
+            value={limit}
+            onChange={(value) => setLimit(value ?? 5)}
+            addonBefore="Top"
+            style={{ width: 120 }}
+          />
+          <Button
+            type="primary"
+            icon={<SearchOutlined />}
+            onClick={handleSearch}
+            loading={loading}
+            disabled={!jobRequirementId}
+          >
+            Tìm ứng viên
+          </Button>
+        </Space>
+      </Card>
+
+      {stats && (
+        <Card size="small">
+          <Row gutter={16}>
+            <Col span={6}>
+              <Statistic title="Khớp kỹ năng trung bình" value={stats.average_match_percentage} suffix="%" />
+            </Col>
+            <Col span={6}>
+              <Statistic title="Ứng viên được xét" value={stats.total_candidates} />
+            </Col>
+            <Col span={12}>
+              <Text type="secondary">
+                Kỹ năng yêu cầu ({stats.job_requirements.total_required_skills})
+              </Text>
+              <div style={{ marginTop: 8 }}>
+                {stats.job_requirements.skill_requirements.map((requirement) => (
+                  <Tag
+                    key={requirement.skill}
+                    color={requirement.tier === "must_have" ? "volcano" : "blue"}
+                  >
+                    {requirement.skill}
+                    {requirement.min_years ? ` ≥ ${requirement.min_years} năm` : ""}
+                  </Tag>
+                ))}
+              </div>
+              {stats.job_requirements.min_years_experience != null && (
+                <Text type="secondary" style={{ fontSize: 12, display: "block" }}>
+                  Kinh nghiệm tối thiểu: {stats.job_requirements.min_years_experience} năm
+                </Text>
+              )}
+              {stats.excluded_statuses.length > 0 && (
+                <Text type="secondary" style={{ fontSize: 12 }}>
+                  Không xét trạng thái: {stats.excluded_statuses.join(", ")}
+                </Text>
+              )}
+            </Col>
+          </Row>
+        </Card>
+      )}
+
+      {result && (
+        <Card
+          size="small"
+          title="Kết quả gợi ý"
+          extra={
+            <Button
+              icon={<OrderedListOutlined />}
+              disabled={result.recommendations.length === 0}
+              onClick={() => setShortlistCandidates(result.recommendations.map(toShortlistCandidate))}
+            >
+              Lưu vào shortlist
+            </Button>
+          }
+        >
+          <Table
+            rowKey="id"
+            columns={columns}
+            dataSource={result.recommendations}
+            loading={loading}
+            pagination={false}
+            locale={{ emptyText: "Không có ứng viên phù hợp" }}
+          />
+        </Card>
+      )}
+
+      <AddToShortlist
+        open={!!shortlistCandidates}
+        candidates={shortlistCandidates ?? []}
+        jobRequirementId={jobRequirementId}
+        defaultName={
+          stats ? `${stats.job_requirements.title} - ${dayjs().format("DD/MM/YYYY")}` : ""
+        }
+        onClose={() => setShortlistCandidates(null)}
+      />
+    </Space>
+  );
+}
@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button, List, Progress, Space, Tag, Tooltip, Typography, message } from "antd";
+import { CloseOutlined, FilePdfOutlined, SyncOutlined } from "@ant-design/icons";
+import {
+  dismissRediscoverySuggestion,
+  fetchRediscoverySuggestions,
+  runRediscovery,
+  type RediscoverySuggestion,
+} from "../lib/rediscovery";
+import { getErrorMessage } from "../lib/edgeFunctions";
+
+const { Text } = Typography;
+
+interface RediscoveredCandidatesProps {
+  jobRequirementId: string;
+  onChanged?: () => void;
+}
+
+// Ứng viên cũ phù hợp với một vị trí: xem, bỏ qua hoặc quét lại kho ứng viên
+export default function RediscoveredCandidates({ jobRequirementId, onChanged }: RediscoveredCandidatesProps) {
+  const [suggestions, setSuggestions] = useState<RediscoverySuggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [scanning, setScanning] = useState(false);
+
+  const loadSuggestions = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSuggestions(await fetchRediscoverySuggestions({ jobRequirementId }));
+    } catch (error) {
+      message.error("Lỗi khi tải ứng viên phù hợp: " + (error as Error).message);
+    }
+    setLoading(false);
+  }, [jobRequirementId]);
+
+  useEffect(() => {
+    loadSuggestions();
+  }, [loadSuggestions]);
+
+  const handleScan = async () => {
+    setScanning(true);
+    try {
+      const { scanned, suggested } = await runRediscovery(jobRequirementId);
+      message.success(`Đã quét ${scanned} hồ sơ, tìm thấy ${suggested} ứng viên phù hợp`);
+      await loadSuggestions();
+      onChanged?.();
+    } catch (error) {
+      message.error("Lỗi khi tìm lại ứng viên: " + getErrorMessage(error));
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const handleDismiss = async (id: string) => {
+    try {
+      await dismissRediscoverySuggestion(id);
+      setSuggestions((prev) => prev.filter((suggestion) => suggestion.id !== id));
+      onChanged?.();
+    } catch (error) {
+      message.error("Lỗi khi bỏ qua gợi ý: " + (error as Error).message);
+    }
+  };
+
+  return (
+    <Space direction="vertical" style={{ width: "100%" }}>
+      <Space style={{ justifyContent: "space-between", width: "100%" }}>
+        <Text type="secondary">
+          Ứng viên cũ trong hồ sơ do bạn tải lên, đủ kỹ năng bắt buộc, không tính người đã được tuyển
+          hoặc vừa bị loại.
+        </Text>
+        <Button icon={<SyncOutlined />} onClick={handleScan} loading={scanning}>
+          Quét lại
+        </Button>
+      </Space>
+
+      <List
+        loading={loading}
+        dataSource={suggestions}
+        locale={{ emptyText: "Chưa tìm thấy ứng viên cũ phù hợp" }}
+        renderItem={(suggestion) => (
+          <List.Item
+            actions={[
+              suggestion.candidates?.resume_url && (
+                <Tooltip key="cv" title="Xem CV">
+                  <Button
+                    type="text"
+                    icon={<FilePdfOutlined />}
+                    href={suggestion.candidates.resume_preview_url || suggestion.candidates.resume_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  />
+                </Tooltip>
+              ),
+              <Tooltip key="dismiss" title="Bỏ qua, không gợi ý lại cho vị trí này">
+                <Button type="text" icon={<CloseOutlined />} onClick={() => handleDismiss(suggestion.id)} />
+              </Tooltip>,
+            ]}
+          >
+            <List.Item.Meta
+              title={
+                <Space>
+                  <Text strong>{suggestion.candidates?.full_name}</Text>
+                  <Tag>{suggestion.candidates?.status}</Tag>
+                </Space>
+              }
+              description={
+                <Space direction="vertical" size={4} style={{ width: "100%" }}>
+                  <Text type="secondary">
+                    Từng ứng tuyển: {suggestion.candidates?.applied_position || "—"}
+                  </Text>
+                  <div>
+                    {suggestion.matched_skills.map((skill) => (
+                      <Tag key={skill} color="green">
+                        {skill}
+                      </Tag>
+                    ))}
+                    {suggestion.missing_skills.map((skill) => (
+                      <Tag key={skill} color="red">
+                        {skill}
+                      </Tag>
+                    ))}
+                  </div>
+                </Space>
+              }
+            />
+            <Progress type="circle" size={48} percent={Math.round(suggestion.score)} />
+          </List.Item>
+        )}
+      />
+    </Space>
+  );
+}
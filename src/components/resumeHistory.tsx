@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "../lib/supabaseClient";
+import { callEdgeFunction, getErrorMessage } from "../lib/edgeFunctions";
+import { List, Button, Tag, Upload, Space, Typography, message } from "antd";
+import { DownloadOutlined, FilePdfOutlined, UploadOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+import {
+  isAllowedResumeFile,
+  MAX_RESUME_FILE_SIZE,
+  RESUME_ACCEPT,
+  RESUME_FORMATS_LABEL,
+} from "../lib/resumeFiles";
+
+const { Text } = Typography;
+
+interface CandidateResume {
+  id: string;
+  candidate_id: string;
+  file_url: string;
+  file_name: string | null;
+  mime_type: string | null;
+  preview_url: string | null;
+  content_hash: string | null;
+  is_current: boolean;
+  uploaded_at: string;
+}
+
+interface ResumeHistoryProps {
+  candidateId: string;
+  onChanged?: () => void;
+}
+
+export default function ResumeHistory({ candidateId, onChanged }: ResumeHistoryProps) {
+  const [resumes, setResumes] = useState<CandidateResume[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  const fetchResumes = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("candidate_resumes")
+      .select("*")
+      .eq("candidate_id", candidateId)
+      .order("uploaded_at", { ascending: false });
+
+    if (error) {
+      message.error("Lỗi khi tải lịch sử CV: " + error.message);
+    } else {
+      setResumes(data || []);
+    }
+    setLoading(false);
+  }, [candidateId]);
+
+  useEffect(() => {
+    fetchResumes();
+  }, [fetchResumes]);
+
+  // Tải phiên bản CV mới lên và gắn vào ứng viên hiện tại
+  async function uploadNewVersion(file: File) {
+    if (!isAllowedResumeFile(file)) {
+      message.error(`Chỉ chấp nhận file ${RESUME_FORMATS_LABEL}`);
+      return;
+    }
+    if (file.size > MAX_RESUME_FILE_SIZE) {
+      message.error("File vượt quá 10MB");
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const session = sessionData?.session;
+      if (!session) {
+        message.error("Bạn chưa đăng nhập");
+        return;
+      }
+
+      const path = `${session.user.id}/${Date.now()}_${file.name}`;
+      const { error: uploadError } = await supabase.storage
+        .from("resumes")
+        .upload(path, file, { cacheControl: "3600", upsert: false });
+
+      if (uploadError) {
+        message.error(`Upload thất bại: ${uploadError.message}`);
+        return;
+      }
+
+      const { data: publicData } = supabase.storage
+        .from("resumes")
+        .getPublicUrl(path);
+
+      let responseData: { unchanged?: boolean };
+      try {
+        responseData = await callEdgeFunction("create-candidate", {
+          body: {
+            candidate_id: candidateId,
+            resume_url: publicData.publicUrl,
+            file_name: file.name,
+          },
+        });
+      } catch (error) {
+        message.error(`Lỗi cập nhật CV: ${getErrorMessage(error)}`);
+        return;
+      }
+
+      if (responseData.unchanged) {
+        message.info("CV này trùng với một phiên bản đã lưu");
+      } else {
+        message.success("Đã thêm phiên bản CV mới");
+        onChanged?.();
+      }
+      await fetchResumes();
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  return (
+    <div>
+      <Upload
+        accept={RESUME_ACCEPT}
+        showUploadList={false}
+        beforeUpload={(file) => {
+          uploadNewVersion(file);
+          return false; // Prevent default upload behavior
+        }}
+      >
+        <Button icon={<UploadOutlined />} loading={uploading}>
+          Tải lên phiên bản mới
+        </Button>
+      </Upload>
+
+      <List
+        style={{ marginTop: 16 }}
+        loading={loading}
+        dataSource={resumes}
+        locale={{ emptyText: "Chưa có CV" }}
+        renderItem={(resume) => (
+          <List.Item
+            actions={[
+              <Button
+                key="view"
+                type="link"
+                icon={<FilePdfOutlined />}
+                href={resume.preview_url || resume.file_url}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                Xem
+              </Button>,
+              resume.preview_url && (
+                <Button
+                  key="download"
+                  type="link"
+                  icon={<DownloadOutlined />}
+                  href={resume.file_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  File gốc
+                </Button>
+              ),
+            ]}
+          >
+            <List.Item.Meta
+              title={
+                <Space>
+                  <Text>{resume.file_name || "CV"}</Text>
+                  {resume.is_current && <Tag color="green">Hiện tại</Tag>}
+                </Space>
+              }
+              description={dayjs(resume.uploaded_at).format("DD/MM/YYYY HH:mm")}
+            />
+          </List.Item>
+        )}
+      />
+    </div>
+  );
+}
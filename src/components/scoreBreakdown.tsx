@@ -0,0 +1,52 @@
+import type { ReactNode } from "react";
+import { Tooltip, Typography } from "antd";
+import {
+  SCORE_COMPONENT_LABELS,
+  type ScoreBreakdown,
+  type ScoreComponent,
+} from "../lib/scoringSettings";
+
+const { Text } = Typography;
+
+interface ScoreBreakdownTooltipProps {
+  // null khi điểm lấy từ mô hình học
+  breakdown: ScoreBreakdown | null;
+  children: ReactNode;
+}
+
+// Tooltip giải thích điểm gợi ý: điểm từng thành phần × trọng số = phần đóng góp
+export default function ScoreBreakdownTooltip({ breakdown, children }: ScoreBreakdownTooltipProps) {
+  if (!breakdown) {
+    return <Tooltip title="Xác suất được tuyển theo mô hình đã học, không tách theo thành phần">{children}</Tooltip>;
+  }
+
+  const components = (Object.keys(breakdown) as ScoreComponent[]).filter(
+    (component) => breakdown[component].weight > 0
+  );
+
+  return (
+    <Tooltip
+      title={
+        <table style={{ fontSize: 12 }}>
+          <tbody>
+            {components.map((component) => (
+              <tr key={component}>
+                <td style={{ paddingRight: 12 }}>{SCORE_COMPONENT_LABELS[component]}</td>
+                <td style={{ textAlign: "right", paddingRight: 12 }}>
+                  {breakdown[component].value} × {Math.round(breakdown[component].weight * 100)}%
+                </td>
+                <td style={{ textAlign: "right" }}>
+                  <Text strong style={{ color: "inherit" }}>
+                    +{breakdown[component].contribution}
+                  </Text>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      }
+    >
+      {children}
+    </Tooltip>
+  );
+}
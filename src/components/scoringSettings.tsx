@@ -0,0 +1,211 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "../lib/supabaseClient";
+import {
+  Button,
+  Card,
+  Checkbox,
+  Form,
+  InputNumber,
+  List,
+  Select,
+  Space,
+  Typography,
+  message,
+} from "antd";
+import { ExperimentOutlined, ReloadOutlined, SaveOutlined, SlidersOutlined } from "@ant-design/icons";
+import {
+  DEFAULT_SCORING_SETTINGS,
+  fetchScoringSettings,
+  saveScoringSettings,
+  SCORE_COMPONENT_LABELS,
+  type ScoreBreakdown,
+  type ScoreComponent,
+  type ScoringSettings as ScoringSettingsValues,
+} from "../lib/scoringSettings";
+import { fetchJobRequirements, type JobRequirement } from "../lib/jobRequirements";
+import { callEdgeFunction, getErrorMessage } from "../lib/edgeFunctions";
+import ScoreBreakdownTooltip from "./scoreBreakdown";
+import LearnedWeights from "./learnedWeights";
+
+const { Text } = Typography;
+
+const STATUSES = ["New", "Screening", "Interviewing", "Hired", "Rejected"];
+
+interface PreviewRecommendation {
+  id: string;
+  full_name: string;
+  status: string;
+  recommendation_score: number;
+  score_breakdown: ScoreBreakdown;
+}
+
+export default function ScoringSettings() {
+  const [form] = Form.useForm<ScoringSettingsValues>();
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Xem thử thứ hạng với cấu hình đã lưu
+  const [positions, setPositions] = useState<JobRequirement[]>([]);
+  const [previewPosition, setPreviewPosition] = useState<string>();
+  const [preview, setPreview] = useState<PreviewRecommendation[]>([]);
+  const [previewing, setPreviewing] = useState(false);
+
+  const weights = Form.useWatch("weights", form) ?? DEFAULT_SCORING_SETTINGS.weights;
+  const totalWeight = (Object.values(weights) as number[]).reduce((sum, weight) => sum + (weight || 0), 0);
+
+  const loadSettings = useCallback(async () => {
+    setLoading(true);
+    try {
+      form.setFieldsValue(await fetchScoringSettings());
+    } catch (error) {
+      message.error("Lỗi khi tải cấu hình chấm điểm: " + (error as Error).message);
+    }
+    setLoading(false);
+  }, [form]);
+
+  useEffect(() => {
+    loadSettings();
+    fetchJobRequirements(true)
+      .then(setPositions)
+      .catch((error) => message.error("Lỗi khi tải vị trí tuyển dụng: " + getErrorMessage(error)));
+  }, [loadSettings]);
+
+  const handleSave = async (values: ScoringSettingsValues) => {
+    if (totalWeight <= 0) {
+      message.error("Cần ít nhất một trọng số lớn hơn 0");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data } = await supabase.auth.getUser();
+      if (!data.user) {
+        message.error("Bạn chưa đăng nhập");
+        return;
+      }
+      await saveScoringSettings(data.user.id, values);
+      message.success("Đã lưu cấu hình chấm điểm");
+    } catch (error) {
+      message.error("Lỗi khi lưu cấu hình: " + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!previewPosition) return;
+
+    setPreviewing(true);
+    try {
+      const { recommendations } = await callEdgeFunction<{ recommendations: PreviewRecommendation[] }>(
+        "recommend",
+        // Xem thử theo trọng số heuristic đang chỉnh, không dùng mô hình học
+        { body: { job_requirement_id: previewPosition, limit: 5, use_learned_model: false } }
+      );
+      setPreview(recommendations);
+    } catch (error) {
+      setPreview([]);
+      message.error("Lỗi khi xem thử: " + getErrorMessage(error));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  return (
+    <Space direction="vertical" size="middle" style={{ width: "100%" }}>
+      <Card
+        title={
+          <Space>
+            <SlidersOutlined />
+            <span>Cấu hình chấm điểm gợi ý</span>
+          </Space>
+        }
+        extra={
+          <Button icon={<ReloadOutlined />} onClick={loadSettings} loading={loading}>
+            Tải lại
+          </Button>
+        }
+      >
+        <Form
+          form={form}
+          layout="vertical"
+          initialValues={DEFAULT_SCORING_SETTINGS}
+          onFinish={handleSave}
+          disabled={loading}
+        >
+          <Text type="secondary">
+            Điểm gợi ý là trung bình có trọng số của các thành phần (mỗi thành phần 0-100).
+          </Text>
+          <Space wrap size="large" style={{ marginTop: 16 }}>
+            {(Object.keys(SCORE_COMPONENT_LABELS) as ScoreComponent[]).map((component) => (
+              <Form.Item
+                key={component}
+                name={["weights", component]}
+                label={SCORE_COMPONENT_LABELS[component]}
+                extra={
+                  totalWeight > 0
+                    ? `${Math.round(((weights[component] || 0) / totalWeight) * 100)}% tổng điểm`
+                    : undefined
+                }
+                rules={[{ required: true, message: "Nhập trọng số" }]}
+              >
+                <InputNumber min={0} max={100} style={{ width: 140 }} />
+              </Form.Item>
+            ))}
+          </Space>
+
+          <Form.Item name="exclude_statuses" label="Không gợi ý ứng viên ở trạng thái">
+            <Checkbox.Group options={STATUSES} />
+          </Form.Item>
+
+          <Button type="primary" htmlType="submit" icon={<SaveOutlined />} loading={saving}>
+            Lưu cấu hình
+          </Button>
+        </Form>
+      </Card>
+
+      <LearnedWeights />
+
+      <Card
+        size="small"
+        title={
+          <Space>
+            <ExperimentOutlined />
+            <span>Xem thử với cấu hình đã lưu</span>
+          </Space>
+        }
+      >
+        <Space style={{ marginBottom: 12 }}>
+          <Select
+            placeholder="Chọn vị trí"
+            style={{ width: 280 }}
+            value={previewPosition}
+            onChange={setPreviewPosition}
+            options={positions.map((job) => ({ value: job.id, label: job.title }))}
+          />
+          <Button onClick={handlePreview} loading={previewing} disabled={!previewPosition}>
+            Xem thử
+          </Button>
+        </Space>
+
+        <List
+          size="small"
+          dataSource={preview}
+          locale={{ emptyText: "Chọn vị trí để xem thứ hạng" }}
+          renderItem={(item, index) => (
+            <List.Item>
+              <Text>
+                {index + 1}. {item.full_name} <Text type="secondary">({item.status})</Text>
+              </Text>
+              <ScoreBreakdownTooltip breakdown={item.score_breakdown}>
+                <Text strong style={{ cursor: "help" }}>
+                  {item.recommendation_score}
+                </Text>
+              </ScoreBreakdownTooltip>
+            </List.Item>
+          )}
+        />
+      </Card>
+    </Space>
+  );
+}
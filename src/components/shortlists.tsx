@@ -0,0 +1,426 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Button,
+  Card,
+  Col,
+  Empty,
+  Form,
+  Input,
+  List,
+  Modal,
+  Popconfirm,
+  Row,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Tooltip,
+  Typography,
+  message,
+} from "antd";
+import type { ColumnsType } from "antd/es/table";
+import {
+  ArrowDownOutlined,
+  ArrowUpOutlined,
+  DeleteOutlined,
+  DownloadOutlined,
+  FilePdfOutlined,
+  OrderedListOutlined,
+  PlusOutlined,
+} from "@ant-design/icons";
+import dayjs from "dayjs";
+import {
+  createShortlist,
+  deleteShortlist,
+  exportShortlistCsv,
+  fetchShortlistEntries,
+  fetchShortlists,
+  removeShortlistEntry,
+  reorderShortlistEntries,
+  updateShortlistEntryNote,
+  type Shortlist,
+  type ShortlistEntry,
+} from "../lib/shortlists";
+import { fetchJobRequirements, type JobRequirement } from "../lib/jobRequirements";
+import { getErrorMessage } from "../lib/edgeFunctions";
+import ScoreBreakdownTooltip from "./scoreBreakdown";
+
+const { Text } = Typography;
+
+interface ShortlistFormValues {
+  name: string;
+  job_requirement_id?: string;
+}
+
+export default function Shortlists() {
+  const [form] = Form.useForm<ShortlistFormValues>();
+  const [shortlists, setShortlists] = useState<Shortlist[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string>();
+  const [entries, setEntries] = useState<ShortlistEntry[]>([]);
+  const [entriesLoading, setEntriesLoading] = useState(false);
+  const [positions, setPositions] = useState<JobRequirement[]>([]);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const selected = shortlists.find((shortlist) => shortlist.id === selectedId);
+
+  const loadShortlists = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await fetchShortlists();
+      setShortlists(data);
+      setSelectedId((current) =>
+        current && data.some((shortlist) => shortlist.id === current) ? current : data[0]?.id
+      );
+    } catch (error) {
+      message.error("Lỗi khi tải shortlist: " + (error as Error).message);
+    }
+    setLoading(false);
+  }, []);
+
+  const loadEntries = useCallback(async () => {
+    if (!selectedId) {
+      setEntries([]);
+      return;
+    }
+    setEntriesLoading(true);
+    try {
+      setEntries(await fetchShortlistEntries(selectedId));
+    } catch (error) {
+      message.error("Lỗi khi tải ứng viên trong shortlist: " + (error as Error).message);
+    }
+    setEntriesLoading(false);
+  }, [selectedId]);
+
+  useEffect(() => {
+    loadShortlists();
+    fetchJobRequirements()
+      .then(setPositions)
+      .catch((error) => message.error("Lỗi khi tải vị trí tuyển dụng: " + getErrorMessage(error)));
+  }, [loadShortlists]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const handleCreate = async (values: ShortlistFormValues) => {
+    setSaving(true);
+    try {
+      const created = await createShortlist(values.name, values.job_requirement_id ?? null);
+      message.success("Đã tạo shortlist");
+      setModalOpen(false);
+      setSelectedId(created.id);
+      await loadShortlists();
+    } catch (error) {
+      message.error("Lỗi khi tạo shortlist: " + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteShortlist(id);
+      message.success("Đã xóa shortlist");
+      await loadShortlists();
+    } catch (error) {
+      message.error("Lỗi khi xóa shortlist: " + (error as Error).message);
+    }
+  };
+
+  // Đổi chỗ với mục liền trên / liền dưới rồi lưu lại thứ tự
+  const moveEntry = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= entries.length) return;
+
+    const previous = entries;
+    const reordered = [...entries];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setEntries(reordered);
+
+    try {
+      await reorderShortlistEntries(reordered);
+    } catch (error) {
+      setEntries(previous);
+      message.error("Lỗi khi sắp xếp: " + (error as Error).message);
+    }
+  };
+
+  const handleNoteSave = async (entry: ShortlistEntry, note: string) => {
+    if ((entry.note ?? "") === note.trim()) return;
+    try {
+      await updateShortlistEntryNote(entry.id, note);
+      setEntries((prev) =>
+        prev.map((e) => (e.id === entry.id ? { ...e, note: note.trim() || null } : e))
+      );
+    } catch (error) {
+      message.error("Lỗi khi lưu ghi chú: " + (error as Error).message);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      await removeShortlistEntry(id);
+      setEntries((prev) => prev.filter((entry) => entry.id !== id));
+      await loadShortlists();
+    } catch (error) {
+      message.error("Lỗi khi xóa khỏi shortlist: " + (error as Error).message);
+    }
+  };
+
+  const columns: ColumnsType<ShortlistEntry> = [
+    {
+      title: "#",
+      key: "order",
+      render: (_: unknown, __: ShortlistEntry, index: number) => (
+        <Space size={0}>
+          <Text strong style={{ width: 20, display: "inline-block" }}>
+            {index + 1}
+          </Text>
+          <Button
+            type="text"
+            size="small"
+            icon={<ArrowUpOutlined />}
+            disabled={index === 0}
+            onClick={() => moveEntry(index, -1)}
+          />
+          <Button
+            type="text"
+            size="small"
+            icon={<ArrowDownOutlined />}
+            disabled={index === entries.length - 1}
+            onClick={() => moveEntry(index, 1)}
+          />
+        </Space>
+      ),
+      width: 110,
+    },
+    {
+      title: "Ứng viên",
+      key: "candidate",
+      render: (entry: ShortlistEntry) => (
+        <Space direction="vertical" size={0}>
+          <Text strong>{entry.candidates?.full_name}</Text>
+          <Text type="secondary" style={{ fontSize: 12 }}>
+            {entry.candidates?.applied_position || "—"}
+          </Text>
+        </Space>
+      ),
+      width: 200,
+    },
+    {
+      title: "Trạng thái",
+      key: "status",
+      render: (entry: ShortlistEntry) => <Tag>{entry.candidates?.status}</Tag>,
+      width: 110,
+    },
+    {
+      title: "Điểm khi thêm",
+      dataIndex: "score_snapshot",
+      key: "score_snapshot",
+      render: (score: number | null, entry: ShortlistEntry) => {
+        if (score === null) return <Text type="secondary">—</Text>;
+        return entry.score_breakdown ? (
+          <ScoreBreakdownTooltip breakdown={entry.score_breakdown}>
+            <Text strong style={{ cursor: "help" }}>
+              {score}
+            </Text>
+          </ScoreBreakdownTooltip>
+        ) : (
+          <Text strong>{score}</Text>
+        );
+      },
+      width: 120,
+    },
+    {
+      title: "Ghi chú",
+      dataIndex: "note",
+      key: "note",
+      render: (note: string | null, entry: ShortlistEntry) => (
+        <Input.TextArea
+          key={`${entry.id}-${note ?? ""}`}
+          defaultValue={note ?? ""}
+          placeholder="Thêm ghi chú"
+          autoSize={{ minRows: 1, maxRows: 4 }}
+          onBlur={(e) => handleNoteSave(entry, e.target.value)}
+        />
+      ),
+    },
+    {
+      title: "Ngày thêm",
+      dataIndex: "added_at",
+      key: "added_at",
+      render: (date: string) => dayjs(date).format("DD/MM/YYYY"),
+      width: 110,
+    },
+    {
+      title: "Thao tác",
+      key: "actions",
+      render: (entry: ShortlistEntry) => (
+        <Space size={0}>
+          {entry.candidates?.resume_url && (
+            <Tooltip title="Xem CV mới nhất">
+              <Button
+                type="text"
+                icon={<FilePdfOutlined />}
+                href={entry.candidates.resume_preview_url || entry.candidates.resume_url}
+                target="_blank"
+                rel="noopener noreferrer"
+              />
+            </Tooltip>
+          )}
+          <Popconfirm
+            title="Bỏ ứng viên khỏi shortlist?"
+            onConfirm={() => handleRemove(entry.id)}
+            okText="Bỏ"
+            cancelText="Hủy"
+          >
+            <Button type="text" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      ),
+      width: 100,
+    },
+  ];
+
+  return (
+    <Row gutter={16}>
+      <Col span={7}>
+        <Card
+          title={
+            <Space>
+              <OrderedListOutlined />
+              <span>Shortlist</span>
+            </Space>
+          }
+          extra={
+            <Button
+              type="primary"
+              size="small"
+              icon={<PlusOutlined />}
+              onClick={() => {
+                form.resetFields();
+                setModalOpen(true);
+              }}
+            >
+              Tạo mới
+            </Button>
+          }
+        >
+          <List
+            loading={loading}
+            dataSource={shortlists}
+            locale={{ emptyText: "Chưa có shortlist" }}
+            renderItem={(shortlist) => (
+              <List.Item
+                onClick={() => setSelectedId(shortlist.id)}
+                style={{
+                  cursor: "pointer",
+                  paddingInline: 8,
+                  background: shortlist.id === selectedId ? "#e6f4ff" : undefined,
+                }}
+                actions={[
+                  <Popconfirm
+                    key="delete"
+                    title="Xóa shortlist"
+                    description="Bạn có chắc muốn xóa shortlist này?"
+                    onConfirm={(e) => {
+                      e?.stopPropagation();
+                      handleDelete(shortlist.id);
+                    }}
+                    okText="Xóa"
+                    cancelText="Hủy"
+                    okButtonProps={{ danger: true }}
+                  >
+                    <Button
+                      type="text"
+                      size="small"
+                      danger
+                      icon={<DeleteOutlined />}
+                      onClick={(e) => e.stopPropagation()}
+                    />
+                  </Popconfirm>,
+                ]}
+              >
+                <List.Item.Meta
+                  title={shortlist.name}
+                  description={
+                    <Space size={4} wrap>
+                      {shortlist.job_requirements?.title && (
+                        <Tag color="blue">{shortlist.job_requirements.title}</Tag>
+                      )}
+                      <Text type="secondary" style={{ fontSize: 12 }}>
+                        {shortlist.shortlist_entries?.[0]?.count ?? 0} ứng viên
+                      </Text>
+                    </Space>
+                  }
+                />
+              </List.Item>
+            )}
+          />
+        </Card>
+      </Col>
+
+      <Col span={17}>
+        {selected ? (
+          <Card
+            title={selected.name}
+            extra={
+              <Button
+                icon={<DownloadOutlined />}
+                disabled={entries.length === 0}
+                onClick={() => exportShortlistCsv(selected, entries)}
+              >
+                Xuất CSV
+              </Button>
+            }
+          >
+            <Table
+              rowKey="id"
+              columns={columns}
+              dataSource={entries}
+              loading={entriesLoading}
+              pagination={false}
+              locale={{ emptyText: "Chưa có ứng viên. Thêm từ kết quả gợi ý hoặc danh sách ứng viên." }}
+            />
+          </Card>
+        ) : (
+          <Card>
+            <Empty description="Chọn hoặc tạo một shortlist" />
+          </Card>
+        )}
+      </Col>
+
+      <Modal
+        title="Tạo shortlist"
+        open={modalOpen}
+        onCancel={() => setModalOpen(false)}
+        onOk={() => form.submit()}
+        okText="Tạo"
+        cancelText="Hủy"
+        confirmLoading={saving}
+        destroyOnClose
+      >
+        <Form form={form} layout="vertical" onFinish={handleCreate}>
+          <Form.Item
+            name="name"
+            label="Tên shortlist"
+            rules={[{ required: true, whitespace: true, message: "Nhập tên shortlist" }]}
+          >
+            <Input maxLength={120} />
+          </Form.Item>
+          <Form.Item name="job_requirement_id" label="Vị trí tuyển dụng">
+            <Select
+              allowClear
+              showSearch
+              optionFilterProp="label"
+              placeholder="Chọn vị trí"
+              options={positions.map((job) => ({ value: job.id, label: job.title }))}
+            />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </Row>
+  );
+}
@@ -0,0 +1,277 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "../lib/supabaseClient";
+import {
+  Table,
+  Tag,
+  Button,
+  Card,
+  Space,
+  Input,
+  Modal,
+  Form,
+  Select,
+  Popconfirm,
+  Typography,
+  message,
+} from "antd";
+import {
+  TagsOutlined,
+  PlusOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  ReloadOutlined,
+  SearchOutlined,
+} from "@ant-design/icons";
+import {
+  canEditSkillTaxonomy,
+  fetchSkillTaxonomy,
+  skillKey,
+  skillMatchesSearch,
+  type SkillTaxonomyEntry,
+} from "../lib/skillTaxonomy";
+
+const { Text } = Typography;
+
+interface SkillFormValues {
+  name: string;
+  aliases: string[];
+  implies: string[];
+}
+
+export default function SkillTaxonomy() {
+  const [form] = Form.useForm<SkillFormValues>();
+  const [skills, setSkills] = useState<SkillTaxonomyEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [search, setSearch] = useState("");
+  const [editingSkill, setEditingSkill] = useState<SkillTaxonomyEntry | null>(null);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [canEdit, setCanEdit] = useState(false);
+
+  const fetchSkills = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSkills(await fetchSkillTaxonomy());
+    } catch (error) {
+      message.error("Lỗi khi tải danh sách kỹ năng: " + (error as Error).message);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchSkills();
+    canEditSkillTaxonomy().then(setCanEdit);
+  }, [fetchSkills]);
+
+  const openModal = (skill: SkillTaxonomyEntry | null) => {
+    setEditingSkill(skill);
+    form.setFieldsValue({
+      name: skill?.name ?? "",
+      aliases: skill?.aliases ?? [],
+      implies: skill?.implies ?? [],
+    });
+    setModalOpen(true);
+  };
+
+  // Alias không được trùng với tên hoặc alias của kỹ năng khác
+  const findConflict = (values: SkillFormValues): string | null => {
+    const others = skills.filter((skill) => skill.id !== editingSkill?.id);
+    const terms = [values.name, ...values.aliases];
+    for (const term of terms) {
+      const owner = others.find((skill) =>
+        [skill.name, ...skill.aliases].some((other) => skillKey(other) === skillKey(term))
+      );
+      if (owner) return `"${term}" đã thuộc kỹ năng ${owner.name}`;
+    }
+    return null;
+  };
+
+  const handleSave = async (values: SkillFormValues) => {
+    const payload = {
+      name: values.name.trim(),
+      aliases: (values.aliases || []).map((alias) => alias.trim()).filter(Boolean),
+      implies: (values.implies || []).filter((implied) => implied !== values.name.trim()),
+    };
+
+    const conflict = findConflict(payload);
+    if (conflict) {
+      message.error(conflict);
+      return;
+    }
+
+    setSaving(true);
+    const { error } = editingSkill
+      ? await supabase.from("skill_taxonomy").update(payload).eq("id", editingSkill.id)
+      : await supabase.from("skill_taxonomy").insert(payload);
+    setSaving(false);
+
+    if (error) {
+      message.error("Lỗi khi lưu kỹ năng: " + error.message);
+      return;
+    }
+
+    message.success(editingSkill ? "Đã cập nhật kỹ năng" : "Đã thêm kỹ năng");
+    setModalOpen(false);
+    fetchSkills();
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from("skill_taxonomy").delete().eq("id", id);
+    if (error) {
+      message.error("Lỗi khi xóa: " + error.message);
+    } else {
+      message.success("Đã xóa kỹ năng");
+      fetchSkills();
+    }
+  };
+
+  const filteredSkills = search
+    ? skills.filter((skill) => skillMatchesSearch(skill, search))
+    : skills;
+
+  const columns = [
+    {
+      title: "Tên chuẩn",
+      dataIndex: "name",
+      key: "name",
+      sorter: (a: SkillTaxonomyEntry, b: SkillTaxonomyEntry) => a.name.localeCompare(b.name),
+      render: (name: string) => <Text strong>{name}</Text>,
+    },
+    {
+      title: "Tên gọi khác (alias)",
+      dataIndex: "aliases",
+      key: "aliases",
+      render: (aliases: string[]) =>
+        aliases.length > 0 ? (
+          aliases.map((alias) => <Tag key={alias}>{alias}</Tag>)
+        ) : (
+          <Text type="secondary">-</Text>
+        ),
+    },
+    {
+      title: "Bao hàm kỹ năng",
+      dataIndex: "implies",
+      key: "implies",
+      render: (implies: string[]) =>
+        implies.length > 0 ? (
+          implies.map((implied) => (
+            <Tag key={implied} color="blue">
+              {implied}
+            </Tag>
+          ))
+        ) : (
+          <Text type="secondary">-</Text>
+        ),
+    },
+    ...(canEdit ? [{
+      title: "Thao tác",
+      key: "action",
+      width: 180,
+      render: (_: unknown, record: SkillTaxonomyEntry) => (
+        <Space size={0}>
+          <Button type="text" icon={<EditOutlined />} onClick={() => openModal(record)}>
+            Sửa
+          </Button>
+          <Popconfirm
+            title="Xóa kỹ năng"
+            description="Kỹ năng đã gán cho ứng viên sẽ không còn được chuẩn hóa. Tiếp tục?"
+            onConfirm={() => handleDelete(record.id)}
+            okText="Xóa"
+            cancelText="Hủy"
+            okButtonProps={{ danger: true }}
+          >
+            <Button type="text" danger icon={<DeleteOutlined />}>
+              Xóa
+            </Button>
+          </Popconfirm>
+        </Space>
+      ),
+    }] : []),
+  ];
+
+  return (
+    <div style={{ padding: "24px" }}>
+      <Card
+        title={
+          <Space>
+            <TagsOutlined />
+            <span>Danh mục kỹ năng</span>
+            <Tag color="blue">{skills.length} kỹ năng</Tag>
+          </Space>
+        }
+        extra={
+          <Space>
+            <Button icon={<ReloadOutlined />} onClick={fetchSkills} loading={loading}>
+              Làm mới
+            </Button>
+            {canEdit ? (
+              <Button type="primary" icon={<PlusOutlined />} onClick={() => openModal(null)}>
+                Thêm kỹ năng
+              </Button>
+            ) : (
+              <Text type="secondary">Chỉ quản trị viên được sửa danh mục</Text>
+            )}
+          </Space>
+        }
+      >
+        <Input
+          placeholder="Tìm theo tên hoặc alias"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          prefix={<SearchOutlined />}
+          allowClear
+          style={{ marginBottom: 16, maxWidth: 320 }}
+        />
+
+        <Table
+          rowKey="id"
+          loading={loading}
+          dataSource={filteredSkills}
+          columns={columns}
+          pagination={{ pageSize: 20 }}
+        />
+      </Card>
+
+      <Modal
+        title={editingSkill ? `Sửa kỹ năng: ${editingSkill.name}` : "Thêm kỹ năng"}
+        open={modalOpen}
+        onCancel={() => setModalOpen(false)}
+        onOk={() => form.submit()}
+        okText="Lưu"
+        cancelText="Hủy"
+        confirmLoading={saving}
+        destroyOnClose
+      >
+        <Form form={form} layout="vertical" onFinish={handleSave}>
+          <Form.Item
+            name="name"
+            label="Tên chuẩn"
+            rules={[{ required: true, whitespace: true, message: "Vui lòng nhập tên kỹ năng" }]}
+          >
+            <Input placeholder="Ví dụ: JavaScript" />
+          </Form.Item>
+          <Form.Item
+            name="aliases"
+            label="Tên gọi khác"
+            extra="Được nhận diện trong CV và tự chuyển về tên chuẩn khi nhập"
+          >
+            <Select mode="tags" placeholder="Ví dụ: JS, ECMAScript" tokenSeparators={[","]} />
+          </Form.Item>
+          <Form.Item
+            name="implies"
+            label="Bao hàm kỹ năng"
+            extra="Ứng viên có kỹ năng này được tính là có cả các kỹ năng bên dưới (ví dụ: Next.js bao hàm React)"
+          >
+            <Select
+              mode="multiple"
+              placeholder="Chọn kỹ năng"
+              options={skills
+                .filter((skill) => skill.id !== editingSkill?.id)
+                .map((skill) => ({ value: skill.name, label: skill.name }))}
+            />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+}
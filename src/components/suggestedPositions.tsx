@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useState } from "react";
+import { List, Progress, Space, Tag, Tooltip, Typography, message } from "antd";
+import { WarningOutlined } from "@ant-design/icons";
+import { callEdgeFunction, getErrorMessage } from "../lib/edgeFunctions";
+
+const { Text } = Typography;
+
+interface PositionSuggestion {
+  job_requirement_id: string;
+  title: string;
+  department: string | null;
+  score: number;
+  matched_skills: string[];
+  missing_skills: string[];
+  missing_must_haves: string[];
+  meets_must_haves: boolean;
+  is_applied_position: boolean;
+}
+
+interface SuggestPositionsResponse {
+  suggestions: PositionSuggestion[];
+  statistics: {
+    open_positions: number;
+    scored_positions: number;
+  };
+}
+
+interface SuggestedPositionsProps {
+  candidateId: string;
+  limit?: number;
+}
+
+export default function SuggestedPositions({ candidateId, limit = 5 }: SuggestedPositionsProps) {
+  const [result, setResult] = useState<SuggestPositionsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchSuggestions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await callEdgeFunction<SuggestPositionsResponse>("suggest-positions", {
+        body: { candidate_id: candidateId, limit },
+      });
+      setResult(data);
+    } catch (error) {
+      message.error("Lỗi khi gợi ý vị trí: " + getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [candidateId, limit]);
+
+  useEffect(() => {
+    fetchSuggestions();
+  }, [fetchSuggestions]);
+
+  return (
+    <div>
+      {result && (
+        <Text type="secondary">
+          Đã so khớp với {result.statistics.scored_positions}/{result.statistics.open_positions} vị trí
+          đang tuyển
+        </Text>
+      )}
+
+      <List
+        style={{ marginTop: 8 }}
+        loading={loading}
+        dataSource={result?.suggestions ?? []}
+        locale={{ emptyText: "Chưa có vị trí đang tuyển phù hợp" }}
+        renderItem={(suggestion) => (
+          <List.Item
+            extra={
+              <Space direction="vertical" size={0} style={{ alignItems: "flex-end" }}>
+                <Progress
+                  percent={suggestion.score}
+                  size="small"
+                  status={
+                    suggestion.score >= 70
+                      ? "success"
+                      : suggestion.score >= 40
+                        ? "active"
+                        : "exception"
+                  }
+                  showInfo={false}
+                  style={{ width: 100 }}
+                />
+                <Text>{suggestion.score}%</Text>
+              </Space>
+            }
+          >
+            <List.Item.Meta
+              title={
+                <Space wrap>
+                  <Text strong>{suggestion.title}</Text>
+                  {suggestion.department && <Tag>{suggestion.department}</Tag>}
+                  {suggestion.is_applied_position && <Tag color="blue">Đang ứng tuyển</Tag>}
+                  {!suggestion.meets_must_haves && (
+                    <Tooltip title={`Thiếu: ${suggestion.missing_must_haves.join(", ")}`}>
+                      <Tag color="red" icon={<WarningOutlined />}>
+                        Thiếu kỹ năng bắt buộc
+                      </Tag>
+                    </Tooltip>
+                  )}
+                </Space>
+              }
+              description={
+                <Space direction="vertical" size={4}>
+                  {suggestion.matched_skills.length > 0 && (
+                    <div>
+                      <Text type="secondary">Khớp: </Text>
+                      {suggestion.matched_skills.map((skill) => (
+                        <Tag key={skill} color="green">
+                          {skill}
+                        </Tag>
+                      ))}
+                    </div>
+                  )}
+                  {suggestion.missing_skills.length > 0 && (
+                    <div>
+                      <Text type="secondary">Còn thiếu: </Text>
+                      {suggestion.missing_skills.map((skill) => (
+                        <Tag
+                          key={skill}
+                          color={suggestion.missing_must_haves.includes(skill) ? "red" : undefined}
+                        >
+                          {skill}
+                        </Tag>
+                      ))}
+                    </div>
+                  )}
+                </Space>
+              }
+            />
+          </List.Item>
+        )}
+      />
+    </div>
+  );
+}
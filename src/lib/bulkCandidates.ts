@@ -0,0 +1,96 @@
+import dayjs from "dayjs";
+import { callEdgeFunction } from "./edgeFunctions";
+import { downloadCsv } from "./csv";
+import { EDUCATION_LABELS, type EducationLevel, type Seniority, SENIORITY_LABELS } from "./experience";
+
+export type BulkAction = "status" | "delete" | "tag" | "shortlist" | "export";
+
+export type BulkRequest =
+  | { action: "status"; candidate_ids: string[]; status: string }
+  | { action: "delete"; candidate_ids: string[] }
+  | { action: "tag"; candidate_ids: string[]; add_tags?: string[]; remove_tags?: string[] }
+  | { action: "shortlist"; candidate_ids: string[]; shortlist_id: string }
+  | { action: "export"; candidate_ids: string[] };
+
+// Kết quả theo từng hồ sơ
+export interface BulkResult {
+  candidate_id: string;
+  ok: boolean;
+  result: "updated" | "unchanged" | "deleted" | "added" | "already_in_shortlist" | "exported" | "not_found";
+}
+
+export interface ExportedCandidate {
+  id: string;
+  full_name: string;
+  applied_position: string | null;
+  status: string;
+  email: string | null;
+  phone: string | null;
+  skills: string[] | null;
+  tags: string[];
+  matching_score: number | null;
+  total_years_experience: number | null;
+  seniority: Seniority | null;
+  education_level: EducationLevel | null;
+  resume_url: string | null;
+  created_at: string;
+}
+
+export interface BulkResponse {
+  action: BulkAction;
+  results: BulkResult[];
+  succeeded: number;
+  failed: number;
+  // Chỉ có khi action = export
+  rows?: ExportedCandidate[];
+}
+
+export const BULK_RESULT_LABELS: Record<BulkResult["result"], string> = {
+  updated: "Đã cập nhật",
+  unchanged: "Không đổi",
+  deleted: "Đã xóa",
+  added: "Đã thêm",
+  already_in_shortlist: "Đã có trong shortlist",
+  exported: "Đã xuất",
+  not_found: "Không tìm thấy hoặc không thuộc bạn",
+};
+
+// Áp một thao tác lên các hồ sơ đã chọn; thao tác ghi chạy trong một transaction trên server
+export function runBulkAction(request: BulkRequest): Promise<BulkResponse> {
+  return callEdgeFunction<BulkResponse>("bulk-candidates", { body: request });
+}
+
+export function exportCandidatesCsv(rows: ExportedCandidate[]): void {
+  const header = [
+    "Họ tên",
+    "Vị trí ứng tuyển",
+    "Trạng thái",
+    "Email",
+    "Điện thoại",
+    "Kỹ năng",
+    "Nhãn",
+    "Điểm phù hợp",
+    "Số năm kinh nghiệm",
+    "Cấp bậc",
+    "Học vấn",
+    "Ngày nộp",
+    "CV",
+  ];
+  const data = rows.map((row) => [
+    row.full_name,
+    row.applied_position,
+    row.status,
+    row.email,
+    row.phone,
+    (row.skills ?? []).join(", "),
+    row.tags.join(", "),
+    row.matching_score,
+    row.total_years_experience,
+    row.seniority ? SENIORITY_LABELS[row.seniority] : null,
+    row.education_level ? EDUCATION_LABELS[row.education_level] : null,
+    dayjs(row.created_at).format("DD/MM/YYYY"),
+    row.resume_url,
+  ]);
+
+  downloadCsv(`ung-vien-${dayjs().format("YYYYMMDD-HHmm")}`, header, data);
+}
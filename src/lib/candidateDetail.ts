@@ -0,0 +1,137 @@
+import { supabase } from "./supabaseClient";
+import { callEdgeFunction } from "./edgeFunctions";
+import type { CandidateExperience, ExperienceShortfall } from "./experience";
+import type { SkillRequirement } from "./jobRequirements";
+import type { DuplicateSummary } from "./candidates";
+
+export interface CandidateProfile extends CandidateExperience {
+  id: string;
+  user_id: string;
+  full_name: string;
+  applied_position: string | null;
+  status: string;
+  resume_url: string | null;
+  resume_preview_url: string | null;
+  resume_mime_type: string | null;
+  email: string | null;
+  phone: string | null;
+  skills: string[] | null;
+  detected_skills: string[] | null;
+  tags: string[];
+  matching_score: number | null;
+  missing_must_haves: string[] | null;
+  job_requirement_id: string | null;
+  score_computed_at: string | null;
+  score_requirement_version: number | null;
+  score_stale: boolean;
+  possible_duplicate_ids: string[] | null;
+  status_updated_at: string;
+  created_at: string;
+}
+
+// Điểm của ứng viên với job đang ứng tuyển, tính lại theo dữ liệu hiện tại
+export interface ScoreDetails {
+  job_requirement: {
+    id: string;
+    title: string;
+    department: string | null;
+    is_open: boolean;
+    skill_requirements: SkillRequirement[];
+    min_years_experience: number | null;
+    version: number;
+  };
+  score: number;
+  matched_skills: string[];
+  missing_skills: string[];
+  missing_must_haves: string[];
+  meets_must_haves: boolean;
+  under_experienced_skills: ExperienceShortfall[];
+  meets_experience: boolean;
+}
+
+export interface StatusChange {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  changed_at: string;
+}
+
+export interface CandidateNote {
+  id: string;
+  body: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CandidateDetail {
+  candidate: CandidateProfile;
+  score_details: ScoreDetails | null;
+  resumes: {
+    id: string;
+    file_url: string;
+    file_name: string | null;
+    mime_type: string | null;
+    preview_url: string | null;
+    is_current: boolean;
+    uploaded_at: string;
+  }[];
+  status_history: StatusChange[];
+  notes: CandidateNote[];
+  shortlists: {
+    id: string;
+    shortlist_id: string;
+    position: number;
+    note: string | null;
+    added_at: string;
+    shortlists: { name: string } | null;
+  }[];
+  suggestions: {
+    id: string;
+    job_requirement_id: string;
+    score: number;
+    created_at: string;
+    job_requirements: { title: string } | null;
+  }[];
+  duplicates: DuplicateSummary[];
+}
+
+export function fetchCandidateDetail(candidateId: string): Promise<CandidateDetail> {
+  return callEdgeFunction<CandidateDetail>("candidate-detail", {
+    body: { candidate_id: candidateId },
+  });
+}
+
+export async function addCandidateNote(candidateId: string, body: string): Promise<CandidateNote> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) throw new Error("Bạn chưa đăng nhập");
+
+  const { data, error } = await supabase
+    .from("candidate_notes")
+    .insert({ user_id: userData.user.id, candidate_id: candidateId, body: body.trim() })
+    .select("id, body, created_at, updated_at")
+    .single();
+
+  if (error) throw error;
+  return data as CandidateNote;
+}
+
+export async function deleteCandidateNote(id: string): Promise<void> {
+  const { error } = await supabase.from("candidate_notes").delete().eq("id", id);
+  if (error) throw error;
+}
+
+// Ứng viên đang mở trong URL (?candidate=<id>) để chia sẻ đường dẫn tới hồ sơ
+const CANDIDATE_PARAM = "candidate";
+
+export function readCandidateParam(): string | null {
+  return new URLSearchParams(window.location.search).get(CANDIDATE_PARAM);
+}
+
+export function writeCandidateParam(candidateId: string | null): void {
+  const params = new URLSearchParams(window.location.search);
+  if (candidateId) params.set(CANDIDATE_PARAM, candidateId);
+  else params.delete(CANDIDATE_PARAM);
+
+  const search = params.toString();
+  window.history.replaceState(null, "", `${window.location.pathname}${search ? `?${search}` : ""}${window.location.hash}`);
+}
@@ -0,0 +1,123 @@
+import { supabase } from "./supabaseClient";
+import { callEdgeFunction } from "./edgeFunctions";
+import type { CandidateFilters, CandidateSort } from "./candidates";
+
+// View đã lưu của danh sách ứng viên: bộ lọc, sắp xếp và cột hiển thị
+export interface CandidateView {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: CandidateFilters;
+  sort: CandidateSort;
+  // null: hiển thị mọi cột
+  visible_columns: string[] | null;
+  is_shared: boolean;
+  created_at: string;
+  updated_at: string;
+  // Ghim riêng của user hiện tại
+  pinned: boolean;
+}
+
+export type CandidateViewInput = Pick<CandidateView, "name" | "filters" | "sort" | "visible_columns" | "is_shared">;
+
+const VIEW_COLUMNS = "id, user_id, name, filters, sort, visible_columns, is_shared, created_at, updated_at";
+
+type CandidateViewRow = Omit<CandidateView, "pinned"> & { candidate_view_pins?: { pinned_at: string }[] };
+
+// RLS chỉ trả về ghim của user hiện tại nên view có ghim nghĩa là user đã ghim
+function toView({ candidate_view_pins, ...view }: CandidateViewRow): CandidateView {
+  return { ...view, pinned: (candidate_view_pins ?? []).length > 0 };
+}
+
+// View của user và view được chia sẻ trong nhóm
+export async function fetchCandidateViews(): Promise<CandidateView[]> {
+  const { data, error } = await supabase
+    .from("candidate_views")
+    .select(`${VIEW_COLUMNS}, candidate_view_pins(pinned_at)`)
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return ((data || []) as unknown as CandidateViewRow[]).map(toView);
+}
+
+export async function createCandidateView(input: CandidateViewInput, pinned: boolean): Promise<CandidateView> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) throw new Error("Bạn chưa đăng nhập");
+
+  const { data, error } = await supabase
+    .from("candidate_views")
+    .insert({ ...input, user_id: userData.user.id, name: input.name.trim() })
+    .select(VIEW_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  const view = toView(data as CandidateViewRow);
+  if (pinned) {
+    await setCandidateViewPinned(view.id, true);
+    view.pinned = true;
+  }
+  return view;
+}
+
+export async function updateCandidateView(id: string, patch: Partial<CandidateViewInput>): Promise<void> {
+  const { error } = await supabase
+    .from("candidate_views")
+    .update(patch.name !== undefined ? { ...patch, name: patch.name.trim() } : patch)
+    .eq("id", id);
+  if (error) throw error;
+}
+
+export async function deleteCandidateView(id: string): Promise<void> {
+  const { error } = await supabase.from("candidate_views").delete().eq("id", id);
+  if (error) throw error;
+}
+
+export async function setCandidateViewPinned(viewId: string, pinned: boolean): Promise<void> {
+  if (!pinned) {
+    const { error } = await supabase.from("candidate_view_pins").delete().eq("view_id", viewId);
+    if (error) throw error;
+    return;
+  }
+
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) throw new Error("Bạn chưa đăng nhập");
+
+  const { error } = await supabase
+    .from("candidate_view_pins")
+    .upsert({ user_id: userData.user.id, view_id: viewId }, { onConflict: "user_id,view_id", ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+// Số hồ sơ của user hiện tại khớp với từng view; null nếu bộ lọc của view không còn hợp lệ
+export async function fetchCandidateViewCounts(viewIds?: string[]): Promise<Record<string, number | null>> {
+  const { counts } = await callEdgeFunction<{ counts: Record<string, number | null> }>("candidate-view-counts", {
+    body: { view_ids: viewIds },
+  });
+  return counts;
+}
+
+// Bộ lọc dạng chuẩn để so sánh: bỏ giá trị rỗng và mặc định, sắp xếp khóa
+export function normalizeViewFilters(filters: CandidateFilters): CandidateFilters {
+  const entries = Object.entries(filters).filter(([key, value]) => {
+    if (value === undefined || value === null || value === "") return false;
+    if (Array.isArray(value) && value.length === 0) return false;
+    if (key === "skill_mode" && (value === "any" || !filters.skills?.length)) return false;
+    return true;
+  });
+  return Object.fromEntries(entries.sort(([a], [b]) => a.localeCompare(b)));
+}
+
+// Trạng thái hiện tại của danh sách có khác view đã lưu không
+export function isViewModified(
+  view: CandidateView,
+  filters: CandidateFilters,
+  sort: CandidateSort,
+  visibleColumns: string[] | null
+): boolean {
+  const columnsKey = (columns: string[] | null) => (columns ? [...columns].sort().join(",") : null);
+  return (
+    JSON.stringify(normalizeViewFilters(view.filters)) !== JSON.stringify(normalizeViewFilters(filters)) ||
+    view.sort !== sort ||
+    columnsKey(view.visible_columns) !== columnsKey(visibleColumns)
+  );
+}
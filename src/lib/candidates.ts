@@ -0,0 +1,154 @@
+import dayjs from "dayjs";
+import { callEdgeFunction } from "./edgeFunctions";
+
+export type PageDirection = "forward" | "backward";
+
+export type SkillMatchMode = "any" | "all";
+
+// Bộ lọc gửi lên get-candidate, lọc trên toàn bộ hồ sơ chứ không chỉ trang đang xem
+export interface CandidateFilters {
+  // Tìm toàn văn trên tên, vị trí, kỹ năng và nội dung CV
+  query?: string;
+  position?: string;
+  statuses?: string[];
+  skills?: string[];
+  skill_mode?: SkillMatchMode;
+  score_min?: number;
+  score_max?: number;
+  created_from?: string;
+  created_to?: string;
+  // "N ngày gần nhất", tính lại mỗi lần tải nên view đã lưu luôn theo ngày hiện tại
+  created_within_days?: number;
+}
+
+export const WITHIN_DAYS_OPTIONS = [7, 30, 90];
+
+export type CandidateSort =
+  | "created_at_desc"
+  | "created_at_asc"
+  | "matching_score_desc"
+  | "matching_score_asc"
+  | "full_name_asc"
+  | "full_name_desc";
+
+export const DEFAULT_CANDIDATE_SORT: CandidateSort = "created_at_desc";
+
+const CANDIDATE_SORTS: CandidateSort[] = [
+  "created_at_desc",
+  "created_at_asc",
+  "matching_score_desc",
+  "matching_score_asc",
+  "full_name_asc",
+  "full_name_desc",
+];
+
+export interface CandidatePageRequest {
+  cursor?: string;
+  direction: PageDirection;
+  limit: number;
+  filters: CandidateFilters;
+  sort: CandidateSort;
+}
+
+export interface CandidatePageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+  totalCount: number;
+  sort: CandidateSort;
+  direction: PageDirection;
+}
+
+// Hồ sơ có thể trùng nằm ngoài trang hiện tại
+export interface DuplicateSummary {
+  id: string;
+  full_name: string;
+  applied_position: string | null;
+  created_at: string;
+}
+
+export interface CandidatePage<T> {
+  candidates: T[];
+  duplicates: DuplicateSummary[];
+  pagination: CandidatePageInfo;
+}
+
+// Một trang ứng viên, mới nhất trước, phân trang theo cursor
+export function fetchCandidatePage<T>({
+  cursor,
+  direction,
+  limit,
+  filters,
+  sort,
+}: CandidatePageRequest): Promise<CandidatePage<T>> {
+  return callEdgeFunction<CandidatePage<T>>("get-candidate", {
+    body: { cursor, direction, limit, filters, sort },
+  });
+}
+
+// Tham số URL của danh sách ứng viên; mảng được nối bằng dấu phẩy, ngày dạng YYYY-MM-DD
+const LIST_PARAMS = ["q", "position", "status", "skills", "skill_mode", "score_min", "score_max", "from", "to", "days", "sort"];
+
+function toDateParam(iso?: string): string | undefined {
+  return iso ? dayjs(iso).format("YYYY-MM-DD") : undefined;
+}
+
+// Ghi bộ lọc và cách sắp xếp vào URL (thay thế, không thêm lịch sử) để chia sẻ hoặc tải lại trang
+export function writeListParams(filters: CandidateFilters, sort: CandidateSort): void {
+  const params = new URLSearchParams(window.location.search);
+  LIST_PARAMS.forEach((key) => params.delete(key));
+
+  const values: Record<string, string | undefined> = {
+    q: filters.query,
+    position: filters.position,
+    status: filters.statuses?.join(","),
+    skills: filters.skills?.join(","),
+    skill_mode: filters.skills?.length && filters.skill_mode === "all" ? "all" : undefined,
+    score_min: filters.score_min?.toString(),
+    score_max: filters.score_max?.toString(),
+    from: toDateParam(filters.created_from),
+    to: toDateParam(filters.created_to),
+    days: filters.created_within_days?.toString(),
+    sort: sort !== DEFAULT_CANDIDATE_SORT ? sort : undefined,
+  };
+  Object.entries(values).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+
+  const search = params.toString();
+  window.history.replaceState(null, "", `${window.location.pathname}${search ? `?${search}` : ""}${window.location.hash}`);
+}
+
+// Đọc bộ lọc từ URL; giá trị không hợp lệ bị bỏ qua. Ngày được hiểu theo giờ địa phương
+export function readListParams(): { filters: CandidateFilters; sort: CandidateSort } {
+  const params = new URLSearchParams(window.location.search);
+  const list = (key: string) => params.get(key)?.split(",").map((value) => value.trim()).filter(Boolean);
+  const score = (key: string) => {
+    const value = Number(params.get(key) ?? NaN);
+    return Number.isFinite(value) && value >= 0 && value <= 100 ? value : undefined;
+  };
+  const date = (key: string, endOfDay: boolean) => {
+    const value = params.get(key);
+    if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value) || !dayjs(value).isValid()) return undefined;
+    return (endOfDay ? dayjs(value).endOf("day") : dayjs(value).startOf("day")).toISOString();
+  };
+  const days = Number(params.get("days") ?? NaN);
+  const sort = params.get("sort") as CandidateSort | null;
+
+  return {
+    filters: {
+      query: params.get("q") || undefined,
+      position: params.get("position") || undefined,
+      statuses: list("status"),
+      skills: list("skills"),
+      skill_mode: params.get("skill_mode") === "all" ? "all" : "any",
+      score_min: score("score_min"),
+      score_max: score("score_max"),
+      created_from: date("from", false),
+      created_to: date("to", true),
+      created_within_days: Number.isInteger(days) && days >= 1 && days <= 3650 ? days : undefined,
+    },
+    sort: sort && CANDIDATE_SORTS.includes(sort) ? sort : DEFAULT_CANDIDATE_SORT,
+  };
+}
@@ -0,0 +1,22 @@
+// Ô văn bản mở đầu bằng các ký tự này bị Excel / Sheets hiểu là công thức (CSV injection)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown): string {
+  let text = value === null || value === undefined ? "" : String(value);
+  // Chỉ áp cho chuỗi, số âm vẫn giữ nguyên để bảng tính đọc được
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Tải file CSV (có BOM để Excel đọc đúng tiếng Việt)
+export function downloadCsv(fileName: string, header: string[], rows: unknown[][]): void {
+  const csv = [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n");
+  const blob = new Blob(["\uFEFF" + csv], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${fileName.replace(/[\\/:*?"<>|]/g, "_")}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,160 @@
+import { supabase } from "./supabaseClient";
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// Thông báo hiển thị cho từng mã lỗi của edge function (xem supabase/functions/_shared/http.ts)
+const ERROR_MESSAGES: Record<string, string> = {
+  AUTH_MISSING_TOKEN: "Bạn chưa đăng nhập",
+  AUTH_INVALID_TOKEN: "Phiên đăng nhập đã hết hạn, vui lòng đăng nhập lại",
+  INVALID_JSON: "Dữ liệu gửi lên không hợp lệ",
+  VALIDATION_FAILED: "Dữ liệu không hợp lệ",
+  METHOD_NOT_ALLOWED: "Thao tác không được hỗ trợ",
+  CANDIDATE_NOT_FOUND: "Không tìm thấy hồ sơ ứng viên",
+  JOB_REQUIREMENT_NOT_FOUND: "Không tìm thấy vị trí tuyển dụng",
+  SHORTLIST_NOT_FOUND: "Không tìm thấy shortlist",
+  AMBIGUOUS_JOB_REQUIREMENT: "Vị trí khớp với nhiều tin tuyển dụng, hãy chọn chính xác",
+  JOB_HAS_NO_SKILLS: "Vị trí chưa khai báo kỹ năng yêu cầu",
+  NO_CANDIDATES: "Chưa có ứng viên nào có kỹ năng",
+  INSUFFICIENT_TRAINING_DATA: "Chưa đủ ứng viên Hired / Rejected để học trọng số",
+  DUPLICATE_CANDIDATE: "Hồ sơ ứng viên đã tồn tại",
+  DUPLICATE_JOB_TITLE: "Đã có vị trí trùng tên",
+  UNSUPPORTED_FILE_TYPE: "Định dạng CV không được hỗ trợ",
+  RESUME_TOO_LARGE: "Nội dung CV quá lớn",
+  SERVER_CONFIG_ERROR: "Máy chủ chưa được cấu hình đúng",
+  DATABASE_ERROR: "Lỗi cơ sở dữ liệu, vui lòng thử lại",
+  INTERNAL_ERROR: "Đã có lỗi xảy ra, vui lòng thử lại",
+  NETWORK_ERROR: "Không kết nối được máy chủ",
+  MISSING_CONFIG: "Thiếu biến môi trường",
+};
+
+// Tên trường hiển thị trong thông báo lỗi validation
+const FIELD_LABELS: Record<string, string> = {
+  candidate_id: "Ứng viên",
+  candidate_ids: "Danh sách ứng viên",
+  full_name: "Họ tên",
+  resume_url: "CV",
+  skills: "Kỹ năng",
+  status: "Trạng thái",
+  position: "Vị trí",
+  title: "Tên vị trí",
+  min_years_experience: "Số năm kinh nghiệm tối thiểu",
+  limit: "Số lượng",
+  format: "Định dạng file",
+  data: "Dữ liệu",
+  exclude_statuses: "Trạng thái loại trừ",
+  job_requirement_id: "Vị trí tuyển dụng",
+  action: "Thao tác",
+  add_tags: "Nhãn thêm",
+  remove_tags: "Nhãn bỏ",
+  shortlist_id: "Shortlist",
+};
+
+export interface JobRequirementMatch {
+  id: string;
+  title: string;
+  similarity: number;
+}
+
+export class EdgeFunctionError extends Error {
+  code: string;
+  status: number;
+  details?: unknown;
+  requestId?: string;
+
+  constructor(code: string, message: string, status = 0, details?: unknown, requestId?: string) {
+    super(message);
+    this.name = "EdgeFunctionError";
+    this.code = code;
+    this.status = status;
+    this.details = details;
+    this.requestId = requestId;
+  }
+
+  // Các job khớp tiêu đề (đã xếp hạng) khi lỗi AMBIGUOUS_JOB_REQUIREMENT
+  get jobMatches(): JobRequirementMatch[] {
+    const matches = (this.details as { matches?: JobRequirementMatch[] } | undefined)?.matches;
+    return this.code === "AMBIGUOUS_JOB_REQUIREMENT" && Array.isArray(matches) ? matches : [];
+  }
+
+  get fieldErrors(): FieldError[] {
+    return this.code === "VALIDATION_FAILED" && Array.isArray(this.details)
+      ? (this.details as FieldError[])
+      : [];
+  }
+}
+
+interface CallOptions {
+  method?: "GET" | "POST" | "PATCH" | "DELETE";
+  body?: unknown;
+  params?: Record<string, string>;
+}
+
+// Gọi edge function với access token của phiên hiện tại; lỗi được ném ra dưới dạng EdgeFunctionError
+export async function callEdgeFunction<T>(
+  name: string,
+  { method = "POST", body, params }: CallOptions = {}
+): Promise<T> {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const token = sessionData?.session?.access_token;
+  if (!token) {
+    throw new EdgeFunctionError("AUTH_MISSING_TOKEN", "Missing access token", 401);
+  }
+
+  const edgeBase = import.meta.env.VITE_EDGE_FUNCTION_BASE;
+  if (!edgeBase) {
+    throw new EdgeFunctionError("MISSING_CONFIG", "VITE_EDGE_FUNCTION_BASE is not set");
+  }
+
+  const query = params ? new URLSearchParams(params).toString() : "";
+
+  let res: Response;
+  try {
+    res = await fetch(`${edgeBase}/${name}${query ? `?${query}` : ""}`, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+  } catch (error) {
+    throw new EdgeFunctionError("NETWORK_ERROR", (error as Error).message);
+  }
+
+  const responseData = await res.json().catch(() => null);
+
+  if (!res.ok) {
+    const error = responseData?.error;
+    throw new EdgeFunctionError(
+      error?.code ?? "INTERNAL_ERROR",
+      error?.message ?? res.statusText,
+      res.status,
+      error?.details,
+      responseData?.request_id ?? res.headers.get("x-request-id") ?? undefined
+    );
+  }
+
+  return responseData as T;
+}
+
+// Thông báo lỗi theo mã; lỗi validation kèm tên trường bị sai
+export function getErrorMessage(error: unknown): string {
+  if (!(error instanceof EdgeFunctionError)) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  const base = ERROR_MESSAGES[error.code] ?? ERROR_MESSAGES.INTERNAL_ERROR;
+  const fields = error.fieldErrors.map(
+    (fieldError) => FIELD_LABELS[fieldError.field] ?? fieldError.field
+  );
+  if (fields.length > 0) {
+    return `${base}: ${[...new Set(fields)].join(", ")}`;
+  }
+  if (error.jobMatches.length > 0) {
+    return `${base}: ${error.jobMatches.map((match) => match.title).join(", ")}`;
+  }
+  return base;
+}
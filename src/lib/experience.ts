@@ -0,0 +1,55 @@
+// Kinh nghiệm trích từ CV (create-candidate), lưu trên candidates
+export type Seniority = "intern" | "junior" | "mid" | "senior" | "lead";
+
+export type EducationLevel = "high_school" | "associate" | "bachelor" | "master" | "phd";
+
+export interface CandidateExperience {
+  total_years_experience?: number | null;
+  skill_years?: Record<string, number> | null;
+  seniority?: Seniority | null;
+  education_level?: EducationLevel | null;
+}
+
+// Kỹ năng có trong CV nhưng chưa đủ số năm job yêu cầu
+export interface ExperienceShortfall {
+  skill: string;
+  years: number;
+  min_years: number;
+}
+
+export const SENIORITY_LABELS: Record<Seniority, string> = {
+  intern: "Thực tập",
+  junior: "Junior",
+  mid: "Middle",
+  senior: "Senior",
+  lead: "Lead",
+};
+
+export const SENIORITY_COLORS: Record<Seniority, string> = {
+  intern: "default",
+  junior: "cyan",
+  mid: "blue",
+  senior: "geekblue",
+  lead: "purple",
+};
+
+export const EDUCATION_LABELS: Record<EducationLevel, string> = {
+  high_school: "THPT",
+  associate: "Cao đẳng",
+  bachelor: "Đại học",
+  master: "Thạc sĩ",
+  phd: "Tiến sĩ",
+};
+
+// "5 năm · Senior"; không trích được gì thì trả về null
+export function formatExperience(experience: CandidateExperience): string | null {
+  const parts = [
+    experience.total_years_experience != null ? `${experience.total_years_experience} năm` : null,
+    experience.seniority ? SENIORITY_LABELS[experience.seniority] : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+export function formatShortfall(shortfall: ExperienceShortfall): string {
+  return `${shortfall.skill} ${shortfall.years}/${shortfall.min_years} năm`;
+}
@@ -0,0 +1,69 @@
+import { callEdgeFunction } from "./edgeFunctions";
+
+export type SkillTier = "must_have" | "nice_to_have";
+
+export interface SkillRequirement {
+  skill: string;
+  tier: SkillTier;
+  weight: number;
+  min_years?: number | null;
+}
+
+export interface JobRequirement {
+  id: string;
+  title: string;
+  description: string | null;
+  department: string | null;
+  is_open: boolean;
+  required_skills: string[] | null;
+  skill_requirements: SkillRequirement[] | null;
+  min_years_experience: number | null;
+  // Chỉ người tạo (hoặc admin) được sửa / xóa
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type JobRequirementInput = Partial<
+  Pick<JobRequirement, "title" | "description" | "department" | "is_open" | "min_years_experience"> & {
+    skill_requirements: SkillRequirement[];
+  }
+>;
+
+// Kết quả lưu vị trí, kèm số ứng viên cũ được tìm lại khi vị trí mới mở / đổi yêu cầu
+export interface JobRequirementSaveResult {
+  job_requirement: JobRequirement;
+  rediscovered: number;
+}
+
+// Gọi edge function job-requirements; lỗi được ném ra dưới dạng EdgeFunctionError
+function callJobRequirements<T>(
+  method: "GET" | "POST" | "PATCH" | "DELETE",
+  params: Record<string, string> = {},
+  body?: JobRequirementInput
+): Promise<T> {
+  return callEdgeFunction<T>("job-requirements", { method, params, body });
+}
+
+export async function fetchJobRequirements(openOnly = false): Promise<JobRequirement[]> {
+  const { job_requirements } = await callJobRequirements<{ job_requirements: JobRequirement[] }>(
+    "GET",
+    openOnly ? { open_only: "true" } : {}
+  );
+  return job_requirements;
+}
+
+export function createJobRequirement(input: JobRequirementInput): Promise<JobRequirementSaveResult> {
+  return callJobRequirements<JobRequirementSaveResult>("POST", {}, input);
+}
+
+export function updateJobRequirement(
+  id: string,
+  input: JobRequirementInput
+): Promise<JobRequirementSaveResult> {
+  return callJobRequirements<JobRequirementSaveResult>("PATCH", { id }, input);
+}
+
+export async function deleteJobRequirement(id: string): Promise<void> {
+  await callJobRequirements("DELETE", { id });
+}
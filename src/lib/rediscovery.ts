@@ -0,0 +1,76 @@
+import { supabase } from "./supabaseClient";
+import { callEdgeFunction } from "./edgeFunctions";
+
+// Ứng viên cũ được tìm lại cho một vị trí mới (edge function rediscover-candidates)
+export interface RediscoverySuggestion {
+  id: string;
+  job_requirement_id: string;
+  candidate_id: string;
+  score: number;
+  matched_skills: string[];
+  missing_skills: string[];
+  status: "new" | "dismissed";
+  created_at: string;
+  candidates: {
+    full_name: string;
+    applied_position: string | null;
+    status: string;
+    resume_url: string | null;
+    resume_preview_url: string | null;
+  } | null;
+  job_requirements: { title: string; is_open: boolean } | null;
+}
+
+export interface RediscoveryResult {
+  job_requirement_id: string;
+  scanned: number;
+  suggested: number;
+}
+
+// Gợi ý chưa xử lý của các vị trí đang tuyển, điểm cao trước
+export async function fetchRediscoverySuggestions(
+  filter: { jobRequirementId?: string; candidateId?: string } = {}
+): Promise<RediscoverySuggestion[]> {
+  let query = supabase
+    .from("rediscovery_suggestions")
+    .select(
+      "id, job_requirement_id, candidate_id, score, matched_skills, missing_skills, status, created_at, candidates!inner(full_name, applied_position, status, resume_url, resume_preview_url), job_requirements!inner(title, is_open)"
+    )
+    .eq("status", "new")
+    .eq("job_requirements.is_open", true)
+    // Ứng viên đã được tuyển sau lần quét thì không còn là gợi ý
+    .neq("candidates.status", "Hired")
+    .order("score", { ascending: false });
+
+  if (filter.jobRequirementId) query = query.eq("job_requirement_id", filter.jobRequirementId);
+  if (filter.candidateId) query = query.eq("candidate_id", filter.candidateId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as unknown as RediscoverySuggestion[];
+}
+
+export async function dismissRediscoverySuggestion(id: string): Promise<void> {
+  const { error } = await supabase
+    .from("rediscovery_suggestions")
+    .update({ status: "dismissed" })
+    .eq("id", id);
+  if (error) throw error;
+}
+
+export function runRediscovery(jobRequirementId: string): Promise<RediscoveryResult> {
+  return callEdgeFunction<RediscoveryResult>("rediscover-candidates", {
+    body: { job_requirement_id: jobRequirementId },
+  });
+}
+
+// Nhóm gợi ý theo một khóa (vị trí hoặc ứng viên) để hiển thị badge
+export function groupSuggestionsBy(
+  suggestions: RediscoverySuggestion[],
+  key: "job_requirement_id" | "candidate_id"
+): Record<string, RediscoverySuggestion[]> {
+  return suggestions.reduce<Record<string, RediscoverySuggestion[]>>((groups, suggestion) => {
+    (groups[suggestion[key]] ??= []).push(suggestion);
+    return groups;
+  }, {});
+}
@@ -0,0 +1,26 @@
+export const MAX_RESUME_FILE_SIZE = 10 * 1024 * 1024;
+
+export const ALLOWED_RESUME_TYPES = [
+  "application/pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.oasis.opendocument.text",
+  "application/rtf",
+  "text/rtf",
+  "text/plain",
+];
+
+export const ALLOWED_RESUME_EXTENSIONS = [".pdf", ".docx", ".odt", ".rtf", ".txt"];
+
+export const RESUME_ACCEPT = [...ALLOWED_RESUME_EXTENSIONS, ...ALLOWED_RESUME_TYPES].join(",");
+
+export const RESUME_FORMATS_LABEL = "PDF, DOCX, ODT, RTF, TXT";
+
+// Trình duyệt có thể để trống MIME type (RTF, ODT) nên kiểm tra cả phần mở rộng.
+// Định dạng thật được create-candidate xác minh lại theo chữ ký file.
+export function isAllowedResumeFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return (
+    ALLOWED_RESUME_TYPES.includes(file.type) ||
+    ALLOWED_RESUME_EXTENSIONS.some((extension) => name.endsWith(extension))
+  );
+}
@@ -0,0 +1,131 @@
+import { supabase } from "./supabaseClient";
+
+export type ScoreComponent = "skills" | "text" | "recency" | "position" | "status" | "matching_score";
+
+export type RecommendationWeights = Record<ScoreComponent, number>;
+
+export interface ScoringSettings {
+  weights: RecommendationWeights;
+  exclude_statuses: string[];
+}
+
+export interface ScoreBreakdownItem {
+  value: number;
+  weight: number;
+  contribution: number;
+}
+
+export type ScoreBreakdown = Record<ScoreComponent, ScoreBreakdownItem>;
+
+export const SCORE_COMPONENT_LABELS: Record<ScoreComponent, string> = {
+  skills: "Kỹ năng",
+  text: "Nội dung CV",
+  recency: "Độ mới hồ sơ",
+  position: "Khớp vị trí ứng tuyển",
+  status: "Trạng thái",
+  matching_score: "Điểm phù hợp đã lưu",
+};
+
+// Cùng giá trị mặc định với _shared/recommendation.ts và bảng scoring_settings
+export const DEFAULT_SCORING_SETTINGS: ScoringSettings = {
+  weights: {
+    skills: 60,
+    text: 10,
+    recency: 10,
+    position: 15,
+    status: 0,
+    matching_score: 15,
+  },
+  exclude_statuses: ["Hired", "Rejected"],
+};
+
+export async function fetchScoringSettings(): Promise<ScoringSettings> {
+  const { data, error } = await supabase
+    .from("scoring_settings")
+    .select("skills_weight, text_weight, recency_weight, position_weight, status_weight, matching_score_weight, exclude_statuses")
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return DEFAULT_SCORING_SETTINGS;
+
+  return {
+    weights: {
+      skills: Number(data.skills_weight),
+      text: Number(data.text_weight),
+      recency: Number(data.recency_weight),
+      position: Number(data.position_weight),
+      status: Number(data.status_weight),
+      matching_score: Number(data.matching_score_weight),
+    },
+    exclude_statuses: data.exclude_statuses ?? [],
+  };
+}
+
+export async function saveScoringSettings(userId: string, settings: ScoringSettings): Promise<void> {
+  const { error } = await supabase.from("scoring_settings").upsert({
+    user_id: userId,
+    skills_weight: settings.weights.skills,
+    text_weight: settings.weights.text,
+    recency_weight: settings.weights.recency,
+    position_weight: settings.weights.position,
+    status_weight: settings.weights.status,
+    matching_score_weight: settings.weights.matching_score,
+    exclude_statuses: settings.exclude_statuses,
+  });
+
+  if (error) throw error;
+}
+
+export interface LearnedModelEvaluation {
+  k: number;
+  split: string;
+  train_samples: number;
+  test_samples: number;
+  jobs_evaluated: number;
+  model_precision: number | null;
+  heuristic_precision: number | null;
+}
+
+// Mô hình học từ kết quả Hired / Rejected (edge function train-weights)
+export interface LearnedModel {
+  weights: Record<string, number>;
+  intercept: number;
+  training_samples: number;
+  hired_samples: number;
+  evaluation: LearnedModelEvaluation | null;
+  enabled: boolean;
+  trained_at: string;
+}
+
+export const LEARNED_FEATURE_LABELS: Record<string, string> = {
+  skills: "Tỉ lệ khớp kỹ năng",
+  text: "Nội dung CV",
+  recency: "Độ mới hồ sơ",
+  position: "Khớp vị trí ứng tuyển",
+  meets_must_haves: "Đủ kỹ năng bắt buộc",
+};
+
+export function learnedFeatureLabel(feature: string): string {
+  return feature.startsWith("skill:")
+    ? `Có kỹ năng ${feature.slice("skill:".length)}`
+    : LEARNED_FEATURE_LABELS[feature] ?? feature;
+}
+
+export async function fetchLearnedModel(): Promise<LearnedModel | null> {
+  const { data, error } = await supabase
+    .from("learned_scoring_models")
+    .select("weights, intercept, training_samples, hired_samples, evaluation, enabled, trained_at")
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as LearnedModel | null;
+}
+
+export async function setLearnedModelEnabled(userId: string, enabled: boolean): Promise<void> {
+  const { error } = await supabase
+    .from("learned_scoring_models")
+    .update({ enabled })
+    .eq("user_id", userId);
+
+  if (error) throw error;
+}
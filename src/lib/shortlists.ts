@@ -0,0 +1,158 @@
+import { supabase } from "./supabaseClient";
+import type { ScoreBreakdown } from "./scoringSettings";
+import { downloadCsv } from "./csv";
+
+export interface Shortlist {
+  id: string;
+  name: string;
+  job_requirement_id: string | null;
+  created_at: string;
+  updated_at: string;
+  job_requirements?: { title: string } | null;
+  shortlist_entries?: { count: number }[];
+}
+
+export interface ShortlistEntry {
+  id: string;
+  shortlist_id: string;
+  candidate_id: string;
+  position: number;
+  note: string | null;
+  score_snapshot: number | null;
+  score_breakdown: ScoreBreakdown | null;
+  added_at: string;
+  candidates: {
+    full_name: string;
+    applied_position: string | null;
+    status: string;
+    resume_url: string | null;
+    resume_preview_url: string | null;
+    matching_score: number | null;
+  } | null;
+}
+
+// Ứng viên cần thêm, kèm điểm tại thời điểm thêm
+export interface ShortlistCandidate {
+  candidate_id: string;
+  score_snapshot?: number | null;
+  score_breakdown?: ScoreBreakdown | null;
+}
+
+export async function fetchShortlists(): Promise<Shortlist[]> {
+  const { data, error } = await supabase
+    .from("shortlists")
+    .select("id, name, job_requirement_id, created_at, updated_at, job_requirements(title), shortlist_entries(count)")
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as unknown as Shortlist[];
+}
+
+export async function createShortlist(name: string, jobRequirementId: string | null): Promise<Shortlist> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) throw new Error("Bạn chưa đăng nhập");
+
+  const { data, error } = await supabase
+    .from("shortlists")
+    .insert({ user_id: userData.user.id, name: name.trim(), job_requirement_id: jobRequirementId })
+    .select("id, name, job_requirement_id, created_at, updated_at")
+    .single();
+
+  if (error) throw error;
+  return data as Shortlist;
+}
+
+export async function deleteShortlist(id: string): Promise<void> {
+  const { error } = await supabase.from("shortlists").delete().eq("id", id);
+  if (error) throw error;
+}
+
+export async function fetchShortlistEntries(shortlistId: string): Promise<ShortlistEntry[]> {
+  const { data, error } = await supabase
+    .from("shortlist_entries")
+    .select(
+      "*, candidates(full_name, applied_position, status, resume_url, resume_preview_url, matching_score)"
+    )
+    .eq("shortlist_id", shortlistId)
+    .order("position", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as unknown as ShortlistEntry[];
+}
+
+// Thêm vào cuối shortlist; ứng viên đã có trong shortlist thì giữ nguyên. Trả về số ứng viên được thêm
+export async function addToShortlist(
+  shortlistId: string,
+  candidates: ShortlistCandidate[]
+): Promise<number> {
+  const { data: last, error: lastError } = await supabase
+    .from("shortlist_entries")
+    .select("position")
+    .eq("shortlist_id", shortlistId)
+    .order("position", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (lastError) throw lastError;
+
+  const start = (last?.position ?? -1) + 1;
+  const { data, error } = await supabase
+    .from("shortlist_entries")
+    .upsert(
+      candidates.map((candidate, index) => ({
+        shortlist_id: shortlistId,
+        candidate_id: candidate.candidate_id,
+        position: start + index,
+        score_snapshot: candidate.score_snapshot ?? null,
+        score_breakdown: candidate.score_breakdown ?? null,
+      })),
+      { onConflict: "shortlist_id,candidate_id", ignoreDuplicates: true }
+    )
+    .select("id");
+
+  if (error) throw error;
+  return data?.length ?? 0;
+}
+
+export async function updateShortlistEntryNote(id: string, note: string): Promise<void> {
+  const { error } = await supabase
+    .from("shortlist_entries")
+    .update({ note: note.trim() || null })
+    .eq("id", id);
+  if (error) throw error;
+}
+
+export async function removeShortlistEntry(id: string): Promise<void> {
+  const { error } = await supabase.from("shortlist_entries").delete().eq("id", id);
+  if (error) throw error;
+}
+
+// Ghi lại thứ tự theo danh sách đã sắp xếp trong một request
+export async function reorderShortlistEntries(entries: ShortlistEntry[]): Promise<void> {
+  const { error } = await supabase.from("shortlist_entries").upsert(
+    entries.map((entry, index) => ({
+      id: entry.id,
+      shortlist_id: entry.shortlist_id,
+      candidate_id: entry.candidate_id,
+      position: index,
+    }))
+  );
+  if (error) throw error;
+}
+
+// Xuất shortlist ra CSV
+export function exportShortlistCsv(shortlist: Shortlist, entries: ShortlistEntry[]): void {
+  const header = ["STT", "Họ tên", "Vị trí ứng tuyển", "Trạng thái", "Điểm khi thêm", "Điểm hiện tại", "Ghi chú", "Ngày thêm", "CV"];
+  const rows = entries.map((entry, index) => [
+    index + 1,
+    entry.candidates?.full_name,
+    entry.candidates?.applied_position,
+    entry.candidates?.status,
+    entry.score_snapshot,
+    entry.candidates?.matching_score,
+    entry.note,
+    entry.added_at,
+    entry.candidates?.resume_url,
+  ]);
+
+  downloadCsv(shortlist.name, header, rows);
+}
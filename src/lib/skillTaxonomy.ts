@@ -0,0 +1,62 @@
+import { supabase } from "./supabaseClient";
+
+export interface SkillTaxonomyEntry {
+  id: string;
+  name: string;
+  aliases: string[];
+  implies: string[];
+  updated_at?: string;
+}
+
+// Chỉ admin (app_metadata.role) được sửa taxonomy, khớp với RLS của bảng skill_taxonomy
+export async function canEditSkillTaxonomy(): Promise<boolean> {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.app_metadata?.role === "admin";
+}
+
+export function skillKey(skill: string): string {
+  return skill.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export async function fetchSkillTaxonomy(): Promise<SkillTaxonomyEntry[]> {
+  const { data, error } = await supabase
+    .from("skill_taxonomy")
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Đưa kỹ năng nhập tay về tên chuẩn (JS -> JavaScript) và bỏ trùng,
+// cùng quy tắc với _shared/skills.ts phía edge function
+export function canonicalizeSkills(
+  skills: string[],
+  taxonomy: SkillTaxonomyEntry[]
+): string[] {
+  const canonicalByKey = new Map<string, string>();
+  taxonomy.forEach((entry) => canonicalByKey.set(skillKey(entry.name), entry.name));
+  taxonomy.forEach((entry) =>
+    entry.aliases.forEach((alias) => {
+      if (!canonicalByKey.has(skillKey(alias))) {
+        canonicalByKey.set(skillKey(alias), entry.name);
+      }
+    })
+  );
+
+  const seen = new Set<string>();
+  return skills
+    .map((skill) => canonicalByKey.get(skillKey(skill)) ?? skill.trim())
+    .filter((skill) => {
+      const key = skillKey(skill);
+      if (!skill || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+// Tìm kiếm trong ô chọn kỹ năng theo cả tên chuẩn và alias
+export function skillMatchesSearch(entry: SkillTaxonomyEntry, search: string): boolean {
+  const key = skillKey(search);
+  return [entry.name, ...entry.aliases].some((term) => skillKey(term).includes(key));
+}
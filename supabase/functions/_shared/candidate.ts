@@ -0,0 +1,46 @@
+import type { FieldError } from "./http.ts";
+
+export const VALID_STATUSES = ["New", "Screening", "Interviewing", "Hired", "Rejected"];
+
+export interface CandidateInput {
+  full_name: string;
+  applied_position?: string;
+  status?: string;
+  resume_url: string;
+  skills?: string[];
+  email?: string;
+  phone?: string;
+}
+
+// Kiểm tra dữ liệu ứng viên, trả về danh sách lỗi theo trường (rỗng nếu hợp lệ)
+export function validateCandidateInput(input: Partial<CandidateInput>): FieldError[] {
+  const errors: FieldError[] = [];
+  const { full_name, resume_url, skills, status } = input;
+
+  if (!full_name || typeof full_name !== 'string' || full_name.trim().length === 0) {
+    errors.push({ field: "full_name", message: "full_name is required and must be a non-empty string" });
+  }
+
+  if (!resume_url || typeof resume_url !== 'string') {
+    errors.push({ field: "resume_url", message: "resume_url is required and must be a string" });
+  } else {
+    // Validate URL format
+    try {
+      new URL(resume_url);
+    } catch {
+      errors.push({ field: "resume_url", message: "resume_url must be a valid URL" });
+    }
+  }
+
+  // Validate skills array
+  if (skills && !Array.isArray(skills)) {
+    errors.push({ field: "skills", message: "skills must be an array" });
+  }
+
+  // Validate status
+  if (status && !VALID_STATUSES.includes(status)) {
+    errors.push({ field: "status", message: `Invalid status. Must be one of: ${VALID_STATUSES.join(", ")}` });
+  }
+
+  return errors;
+}
@@ -0,0 +1,241 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { FieldError } from "./http.ts";
+import { VALID_STATUSES } from "./candidate.ts";
+import { escapeLikePattern } from "./matching.ts";
+import { canonicalizeSkill, type SkillTaxonomy } from "./skills.ts";
+import { foldText } from "./textIndex.ts";
+
+export type SkillMatchMode = "any" | "all";
+
+// Bộ lọc danh sách ứng viên, dùng chung cho trang dữ liệu và tổng số
+export interface CandidateFilters {
+  // Tìm toàn văn trên tên, vị trí, kỹ năng và nội dung CV (search_vector)
+  query?: string;
+  position?: string;
+  statuses?: string[];
+  skills?: string[];
+  // any: có ít nhất một kỹ năng; all: có đủ mọi kỹ năng
+  skill_mode?: SkillMatchMode;
+  score_min?: number;
+  score_max?: number;
+  // ISO timestamp, tính cả hai đầu
+  created_from?: string;
+  created_to?: string;
+  // Khoảng tương đối "N ngày gần nhất", tính lại mỗi lần truy vấn (dùng cho view đã lưu)
+  created_within_days?: number;
+}
+
+// Cột trả về cho danh sách: không kèm resume_text và search_vector vì nặng và không hiển thị
+export const CANDIDATE_LIST_COLUMNS = [
+  "id",
+  "user_id",
+  "full_name",
+  "applied_position",
+  "status",
+  "resume_url",
+  "resume_preview_url",
+  "email",
+  "phone",
+  "skills",
+  "matching_score",
+  "missing_must_haves",
+  "job_requirement_id",
+  "score_computed_at",
+  "score_stale",
+  "possible_duplicate_ids",
+  "total_years_experience",
+  "skill_years",
+  "seniority",
+  "education_level",
+  "tags",
+  "status_updated_at",
+  "created_at",
+].join(", ");
+
+export const CANDIDATE_SORTS = {
+  created_at_desc: { column: "created_at", ascending: false, nullable: false },
+  created_at_asc: { column: "created_at", ascending: true, nullable: false },
+  matching_score_desc: { column: "matching_score", ascending: false, nullable: true },
+  matching_score_asc: { column: "matching_score", ascending: true, nullable: true },
+  full_name_asc: { column: "full_name", ascending: true, nullable: false },
+  full_name_desc: { column: "full_name", ascending: false, nullable: false },
+} as const;
+
+export type CandidateSort = keyof typeof CANDIDATE_SORTS;
+
+export const DEFAULT_CANDIDATE_SORT: CandidateSort = "created_at_desc";
+
+const SKILL_MODES: SkillMatchMode[] = ["any", "all"];
+
+const MAX_WITHIN_DAYS = 3650;
+
+// Vị trí của bản ghi đầu (hoặc cuối) trang theo khóa sắp xếp. id làm khóa phụ để các ứng viên
+// có cùng giá trị sắp xếp không bị lặp hoặc bỏ sót giữa hai trang
+export interface CandidateCursor {
+  sort: CandidateSort;
+  value: string | number | null;
+  id: string;
+}
+
+export function encodeCursor(sort: CandidateSort, row: Record<string, unknown>): string {
+  const value = row[CANDIDATE_SORTS[sort].column] as string | number | null;
+  return btoa(encodeURIComponent(JSON.stringify([sort, value ?? null, row.id])));
+}
+
+export function decodeCursor(encoded: string): CandidateCursor | null {
+  try {
+    const [sort, value, id] = JSON.parse(decodeURIComponent(atob(encoded)));
+    if (!Object.hasOwn(CANDIDATE_SORTS, sort) || typeof id !== "string") return null;
+    if (value !== null && typeof value !== "string" && typeof value !== "number") return null;
+    return { sort, value, id };
+  } catch {
+    return null;
+  }
+}
+
+// Giá trị trong filter .or() phải đặt trong ngoặc kép vì timestamp và text có thể chứa , : ( )
+export function quoteFilterValue(value: string | number): string {
+  return `"${String(value).replace(/["\\]/g, "\\$&")}"`;
+}
+
+// Điều kiện "nằm sau cursor" theo thứ tự hiển thị (after = true) hoặc "nằm trước cursor" (after = false).
+// Cột có thể null (matching_score) luôn xếp null cuối cùng ở cả hai chiều
+export function cursorFilter({ sort, value, id }: CandidateCursor, after: boolean): string {
+  const { column, ascending, nullable } = CANDIDATE_SORTS[sort];
+  const op = ascending === after ? "gt" : "lt";
+  const idOp = `id.${op}.${id}`;
+
+  if (value === null) {
+    return after
+      ? `and(${column}.is.null,${idOp})`
+      : `${column}.not.is.null,and(${column}.is.null,${idOp})`;
+  }
+
+  const quoted = quoteFilterValue(value);
+  const conditions = [`${column}.${op}.${quoted}`, `and(${column}.eq.${quoted},${idOp})`];
+  if (nullable && after) conditions.push(`${column}.is.null`);
+  return conditions.join(",");
+}
+
+// Chuỗi tìm kiếm -> tsquery khớp tiền tố từng từ ("ngu van" -> "ngu:* & van:*").
+// search_vector được tạo từ văn bản đã bỏ dấu nên gõ không dấu vẫn tìm được
+export function toPrefixTsQuery(query: string): string | null {
+  const words = foldText(query).match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.length > 0 ? words.map((word) => `${word}:*`).join(" & ") : null;
+}
+
+export function validateCandidateFilters(filters: unknown): FieldError[] {
+  if (filters === undefined || filters === null) return [];
+  if (typeof filters !== "object" || Array.isArray(filters)) {
+    return [{ field: "filters", message: "filters must be an object" }];
+  }
+
+  const errors: FieldError[] = [];
+  const {
+    query,
+    position,
+    statuses,
+    skills,
+    skill_mode,
+    score_min,
+    score_max,
+    created_from,
+    created_to,
+    created_within_days,
+  } = filters as CandidateFilters;
+
+  if (query !== undefined && typeof query !== "string") {
+    errors.push({ field: "filters.query", message: "filters.query must be a string" });
+  }
+  if (position !== undefined && typeof position !== "string") {
+    errors.push({ field: "filters.position", message: "filters.position must be a string" });
+  }
+  if (
+    statuses !== undefined &&
+    (!Array.isArray(statuses) || statuses.some((status) => !VALID_STATUSES.includes(status)))
+  ) {
+    errors.push({
+      field: "filters.statuses",
+      message: `filters.statuses must be an array of: ${VALID_STATUSES.join(", ")}`,
+    });
+  }
+  if (skills !== undefined && (!Array.isArray(skills) || skills.some((skill) => typeof skill !== "string"))) {
+    errors.push({ field: "filters.skills", message: "filters.skills must be an array of strings" });
+  }
+  if (skill_mode !== undefined && !SKILL_MODES.includes(skill_mode)) {
+    errors.push({ field: "filters.skill_mode", message: `filters.skill_mode must be one of: ${SKILL_MODES.join(", ")}` });
+  }
+  [["score_min", score_min], ["score_max", score_max]].forEach(([field, value]) => {
+    if (value !== undefined && (typeof value !== "number" || value < 0 || value > 100)) {
+      errors.push({ field: `filters.${field}`, message: `filters.${field} must be a number between 0 and 100` });
+    }
+  });
+  if (typeof score_min === "number" && typeof score_max === "number" && score_min > score_max) {
+    errors.push({ field: "filters.score_min", message: "filters.score_min must not exceed filters.score_max" });
+  }
+  [["created_from", created_from], ["created_to", created_to]].forEach(([field, value]) => {
+    if (value !== undefined && (typeof value !== "string" || Number.isNaN(Date.parse(value)))) {
+      errors.push({ field: `filters.${field}`, message: `filters.${field} must be an ISO date` });
+    }
+  });
+  if (
+    created_within_days !== undefined &&
+    (!Number.isInteger(created_within_days) || created_within_days < 1 || created_within_days > MAX_WITHIN_DAYS)
+  ) {
+    errors.push({
+      field: "filters.created_within_days",
+      message: `filters.created_within_days must be an integer between 1 and ${MAX_WITHIN_DAYS}`,
+    });
+  }
+
+  return errors;
+}
+
+// Kỹ năng lọc được đưa về tên chuẩn như kỹ năng lưu trên candidates (JS -> JavaScript)
+export function normalizeCandidateFilters(filters: CandidateFilters, taxonomy: SkillTaxonomy): CandidateFilters {
+  if (!filters.skills || filters.skills.length === 0) return filters;
+  return {
+    ...filters,
+    skills: [...new Set(filters.skills.map((skill) => canonicalizeSkill(skill, taxonomy)))],
+  };
+}
+
+// Query ứng viên của user đã áp bộ lọc; dùng với count: "exact", head: true để đếm
+export function queryCandidates(
+  supabase: SupabaseClient,
+  userId: string,
+  filters: CandidateFilters = {},
+  columns = "*",
+  options?: { count?: "exact"; head?: boolean }
+) {
+  let query = supabase
+    .from("candidates")
+    .select(columns, options)
+    .eq("user_id", userId);
+
+  const tsQuery = filters.query ? toPrefixTsQuery(filters.query) : null;
+  if (tsQuery) {
+    query = query.textSearch("search_vector", tsQuery, { config: "simple" });
+  }
+  if (filters.position?.trim()) {
+    query = query.ilike("applied_position", `%${escapeLikePattern(filters.position.trim())}%`);
+  }
+  if (filters.statuses && filters.statuses.length > 0) {
+    query = query.in("status", filters.statuses);
+  }
+  if (filters.skills && filters.skills.length > 0) {
+    query = filters.skill_mode === "all"
+      ? query.contains("skills", filters.skills)
+      : query.overlaps("skills", filters.skills);
+  }
+  if (filters.score_min !== undefined) query = query.gte("matching_score", filters.score_min);
+  if (filters.score_max !== undefined) query = query.lte("matching_score", filters.score_max);
+  if (filters.created_from) query = query.gte("created_at", filters.created_from);
+  if (filters.created_to) query = query.lte("created_at", filters.created_to);
+  if (filters.created_within_days) {
+    const since = new Date(Date.now() - filters.created_within_days * 24 * 60 * 60 * 1000);
+    query = query.gte("created_at", since.toISOString());
+  }
+
+  return query;
+}
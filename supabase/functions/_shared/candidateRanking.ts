@@ -0,0 +1,147 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  type ExperienceShortfall,
+  getSkillRequirements,
+  type JobRequirement,
+  scoreSkills,
+} from "./matching.ts";
+import {
+  combineScores,
+  positionScore,
+  recencyScore,
+  type RecommendationSettings,
+  type ScoreBreakdown,
+  statusScore,
+} from "./recommendation.ts";
+import { extractFeatures, type LearnedModel, modelSkillFeatures, predict } from "./learnedModel.ts";
+import type { SkillTaxonomy } from "./skills.ts";
+import { backfillResumeIndex, scoreResumeText } from "./textIndex.ts";
+
+export interface RankableCandidate {
+  id: string;
+  applied_position: string | null;
+  status: string;
+  skills: string[] | null;
+  matching_score: number | null;
+  created_at: string;
+  total_years_experience?: number | null;
+  skill_years?: Record<string, number> | null;
+}
+
+export interface RankingFields {
+  recommendation_score: number;
+  matched_skills: string[];
+  missing_skills: string[];
+  missing_must_haves: string[];
+  meets_must_haves: boolean;
+  under_experienced_skills: ExperienceShortfall[];
+  meets_experience: boolean;
+  match_percentage: number;
+  text_score: number;
+  learned_score: number | null;
+  // Thành phần của điểm heuristic; null khi điểm gợi ý lấy từ mô hình học (không cộng dồn như vậy)
+  score_breakdown: ScoreBreakdown | null;
+}
+
+export interface RankingContext {
+  settings: RecommendationSettings;
+  taxonomy: SkillTaxonomy;
+  learnedModel: LearnedModel | null;
+  textScores: Map<string, number>;
+}
+
+// Độ tương đồng nội dung CV với mô tả job (BM25 trên chỉ mục của user); lỗi thì coi như 0
+export async function loadJobTextScores(
+  supabase: SupabaseClient,
+  userId: string,
+  job: JobRequirement
+): Promise<Map<string, number>> {
+  try {
+    await backfillResumeIndex(supabase, userId);
+    return await scoreResumeText(
+      supabase,
+      userId,
+      [job.title, job.description ?? "", ...getSkillRequirements(job).map((requirement) => requirement.skill)].join(" ")
+    );
+  } catch (textError) {
+    console.error("Resume text scoring error:", textError);
+    return new Map();
+  }
+}
+
+// Chấm và xếp hạng ứng viên với một job theo cùng công thức của recommend:
+// ứng viên đủ kỹ năng bắt buộc trước, sau đó theo recommendation score
+export function rankCandidates<T extends RankableCandidate>(
+  candidates: T[],
+  job: JobRequirement,
+  position: string,
+  { settings, taxonomy, learnedModel, textScores }: RankingContext
+): (T & RankingFields)[] {
+  const learnedSkillFeatures = learnedModel ? modelSkillFeatures(learnedModel) : [];
+  const now = Date.now();
+
+  return candidates
+    .map((candidate) => {
+      // Chấm điểm kỹ năng theo yêu cầu có trọng số (must-have / nice-to-have)
+      const {
+        score: match_percentage,
+        matched_skills,
+        missing_skills,
+        missing_must_haves,
+        meets_must_haves,
+        under_experienced_skills,
+        meets_experience,
+      } = scoreSkills(candidate.skills || [], job, taxonomy, candidate);
+
+      const text_score = textScores.get(candidate.id) ?? 0;
+
+      // Điểm gợi ý = trung bình có trọng số của các thành phần 0-100, kèm breakdown để giải thích
+      const { score: heuristic_score, breakdown } = combineScores(
+        {
+          skills: match_percentage,
+          text: text_score,
+          recency: recencyScore(candidate.created_at, now),
+          position: positionScore(candidate.applied_position, position),
+          status: statusScore(candidate.status),
+          matching_score: candidate.matching_score ?? 0,
+        },
+        settings.weights
+      );
+
+      // Có mô hình thì điểm gợi ý = xác suất được tuyển (0-100); breakdown heuristic không khớp điểm này
+      // nên không trả về
+      const learned_score = learnedModel
+        ? Math.round(
+          predict(
+            learnedModel,
+            extractFeatures(
+              { ...candidate, skills: candidate.skills || [], text_score },
+              job,
+              taxonomy,
+              learnedSkillFeatures,
+              now
+            )
+          ) * 1000
+        ) / 10
+        : null;
+
+      return {
+        ...candidate,
+        recommendation_score: learned_score ?? heuristic_score,
+        score_breakdown: learned_score === null ? breakdown : null,
+        matched_skills,
+        missing_skills,
+        missing_must_haves,
+        meets_must_haves,
+        under_experienced_skills,
+        meets_experience,
+        match_percentage,
+        text_score,
+        learned_score,
+      };
+    })
+    .sort((a, b) =>
+      Number(b.meets_must_haves) - Number(a.meets_must_haves) ||
+      b.recommendation_score - a.recommendation_score
+    );
+}
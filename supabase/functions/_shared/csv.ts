@@ -0,0 +1,60 @@
+// Parser CSV tối giản theo RFC 4180: hỗ trợ ô có dấu ngoặc kép, xuống dòng trong ô và CRLF.
+// Dấu phân cách (',' hoặc ';') được đoán từ dòng tiêu đề.
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter =
+    (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Bỏ các dòng trống
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+// Chuyển CSV thành mảng object theo dòng tiêu đề
+export function csvToRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = header.map((column) => column.trim());
+  return rows.map((cells) =>
+    Object.fromEntries(columns.map((column, index) => [column, (cells[index] ?? "").trim()]))
+  );
+}
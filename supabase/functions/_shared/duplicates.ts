@@ -0,0 +1,100 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface DuplicateKeys {
+  normalized_name: string;
+  resume_hash?: string | null;
+  email?: string | null;
+  phone?: string | null;
+}
+
+export interface PossibleDuplicate {
+  id: string;
+  full_name: string;
+  applied_position: string | null;
+  created_at: string;
+  matched_on: (keyof DuplicateKeys)[];
+}
+
+// Chuẩn hóa họ tên: bỏ dấu tiếng Việt, chữ thường, gộp khoảng trắng
+export function normalizeName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/g, "d")
+    .replace(/Đ/g, "D")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Chỉ giữ chữ số, đưa đầu số +84 về 0 để so sánh số điện thoại Việt Nam
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  return digits.startsWith("84") && digits.length >= 11 ? `0${digits.slice(2)}` : digits;
+}
+
+// Băm SHA-256 nội dung file CV
+export async function hashContent(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Lấy email và số điện thoại đầu tiên xuất hiện trong CV
+export function extractContactInfo(text: string): { email: string | null; phone: string | null } {
+  const email = text.match(/[\w.+-]+@[\w-]+(\.[\w-]+)+/)?.[0] ?? null;
+  const phone = text.match(/(\+84|0)[\s.-]?\d{2,3}([\s.-]?\d{3}){2}/)?.[0] ?? null;
+
+  return {
+    email: email ? normalizeEmail(email) : null,
+    phone: phone ? normalizePhone(phone) : null,
+  };
+}
+
+// Tìm các hồ sơ cùng user có khả năng là cùng một người
+export async function findPossibleDuplicates(
+  supabase: SupabaseClient,
+  userId: string,
+  keys: DuplicateKeys,
+  excludeId?: string
+): Promise<PossibleDuplicate[]> {
+  const criteria = (Object.entries(keys) as [keyof DuplicateKeys, string | null | undefined][])
+    .filter(([, value]) => !!value);
+
+  // Mỗi tiêu chí một query riêng để không phải escape giá trị trong filter .or()
+  const results = await Promise.all(
+    criteria.map(([column, value]) => {
+      let query = supabase
+        .from("candidates")
+        .select("id, full_name, applied_position, created_at")
+        .eq("user_id", userId)
+        .eq(column, value)
+        .limit(10);
+      if (excludeId) query = query.neq("id", excludeId);
+      return query;
+    })
+  );
+
+  const duplicates = new Map<string, PossibleDuplicate>();
+  results.forEach(({ data, error }, index) => {
+    if (error) throw error;
+    const column = criteria[index][0];
+    data?.forEach((row) => {
+      const existing = duplicates.get(row.id);
+      if (existing) {
+        existing.matched_on.push(column);
+      } else {
+        duplicates.set(row.id, { ...row, matched_on: [column] });
+      }
+    });
+  });
+
+  // Ưu tiên hồ sơ khớp nhiều tiêu chí nhất
+  return [...duplicates.values()].sort((a, b) => b.matched_on.length - a.matched_on.length);
+}
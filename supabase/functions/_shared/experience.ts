@@ -0,0 +1,137 @@
+import { foldText } from "./textIndex.ts";
+import { detectSkills, type SkillTaxonomy } from "./skills.ts";
+
+export type Seniority = "intern" | "junior" | "mid" | "senior" | "lead";
+
+export type EducationLevel = "high_school" | "associate" | "bachelor" | "master" | "phd";
+
+// Kinh nghiệm trích từ CV, lưu trên candidates
+export interface CandidateExperience {
+  total_years_experience: number | null;
+  // Số năm theo tên kỹ năng chuẩn, chỉ có khi CV ghi rõ (vd: "5 years of React")
+  skill_years: Record<string, number> | null;
+  seniority: Seniority | null;
+  education_level: EducationLevel | null;
+}
+
+export const SENIORITY_LEVELS: Seniority[] = ["intern", "junior", "mid", "senior", "lead"];
+
+export const EDUCATION_LEVELS: EducationLevel[] = ["high_school", "associate", "bachelor", "master", "phd"];
+
+// Con số lớn hơn thế này gần như chắc chắn là đọc nhầm (năm sinh, mã số...)
+const MAX_YEARS = 50;
+
+// Các mẫu chạy trên văn bản đã bỏ dấu, viết thường (foldText)
+const YEARS_PATTERN = /(\d{1,2}(?:[.,]\d+)?)\s*\+?\s*(?:years?|yrs?|nam)(?![a-z])/g;
+const EXPERIENCE_PATTERN = /experience|kinh nghiem/;
+const DATE_RANGE_PATTERN =
+  /(?:(\d{1,2})\s*[/.-]\s*)?((?:19|20)\d{2})\s*(?:-|–|—|to|den)\s*(?:(?:(\d{1,2})\s*[/.-]\s*)?((?:19|20)\d{2})|(present|now|current|nay|hien tai))/g;
+
+// Thứ tự từ thấp đến cao; lấy cấp cao nhất xuất hiện trong CV
+const SENIORITY_PATTERNS: [Seniority, RegExp][] = [
+  ["intern", /\b(intern|internship|thuc tap sinh|thuc tap)\b/],
+  ["junior", /\b(junior|jr|fresher|entry level|moi tot nghiep)\b/],
+  ["mid", /\b(middle|mid level|mid-level)\b/],
+  ["senior", /\b(senior|sr)\b/],
+  ["lead", /\b(tech lead|team lead|lead engineer|lead developer|principal|architect|head of|truong nhom|engineering manager)\b/],
+];
+
+const EDUCATION_PATTERNS: [EducationLevel, RegExp][] = [
+  ["high_school", /\b(high school|thpt|trung hoc pho thong)\b/],
+  ["associate", /\b(associate degree|college|cao dang)\b/],
+  ["bachelor", /\b(bachelor|b\.?sc|b\.?eng|cu nhan|ky su|dai hoc|university)\b/],
+  ["master", /\b(master|m\.?sc|mba|thac si)\b/],
+  ["phd", /\b(ph\.?d|doctor of|tien si)\b/],
+];
+
+function roundYears(years: number): number {
+  return Math.round(years * 2) / 2;
+}
+
+function parseYears(value: string): number {
+  return Number(value.replace(",", "."));
+}
+
+function yearMentions(line: string): number[] {
+  return [...line.matchAll(YEARS_PATTERN)]
+    .map((match) => parseYears(match[1]))
+    .filter((years) => years > 0 && years <= MAX_YEARS);
+}
+
+// Tổng số năm từ các khoảng thời gian làm việc (gộp các khoảng chồng nhau), bỏ qua dòng học vấn
+function yearsFromDateRanges(lines: string[], now: Date): number {
+  const nowMonth = now.getFullYear() * 12 + now.getMonth();
+  const intervals: [number, number][] = [];
+
+  lines
+    .filter((line) => !EDUCATION_PATTERNS.some(([, pattern]) => pattern.test(line)))
+    .forEach((line) => {
+      for (const match of line.matchAll(DATE_RANGE_PATTERN)) {
+        const start = Number(match[2]) * 12 + (match[1] ? Number(match[1]) - 1 : 0);
+        const end = match[5] ? nowMonth : Number(match[4]) * 12 + (match[3] ? Number(match[3]) - 1 : 11);
+        if (end > start && end <= nowMonth && end - start <= MAX_YEARS * 12) {
+          intervals.push([start, end]);
+        }
+      }
+    });
+
+  intervals.sort((a, b) => a[0] - b[0]);
+  let months = 0;
+  let coveredUntil = -Infinity;
+  for (const [start, end] of intervals) {
+    // Chỉ cộng phần chưa được tính của khoảng chồng lên khoảng trước
+    months += Math.max(0, end - Math.max(start, coveredUntil));
+    coveredUntil = Math.max(coveredUntil, end);
+  }
+
+  return months / 12;
+}
+
+// Trích số năm kinh nghiệm (tổng và theo kỹ năng), cấp bậc và học vấn từ nội dung CV.
+// Không chắc chắn thì để null: điểm chỉ bị trừ khi CV cho thấy rõ là chưa đủ kinh nghiệm
+export function extractExperience(
+  text: string | null,
+  taxonomy: SkillTaxonomy,
+  now = new Date()
+): CandidateExperience {
+  if (!text) {
+    return { total_years_experience: null, skill_years: null, seniority: null, education_level: null };
+  }
+
+  const lines = text.split(/\r?\n|[;•]/).map((line) => line.trim()).filter(Boolean);
+  const foldedLines = lines.map(foldText);
+
+  // Số năm ghi rõ ("8+ years of experience", "5 năm kinh nghiệm") và số năm tính từ các mốc thời gian
+  const statedYears = foldedLines
+    .filter((line) => EXPERIENCE_PATTERN.test(line))
+    .flatMap(yearMentions);
+  const totalYears = Math.max(0, ...statedYears, yearsFromDateRanges(foldedLines, now));
+
+  // Số năm theo kỹ năng: kỹ năng nằm cùng cụm (tách theo dấu phẩy) với số năm ("React (3 years)", "4 năm Java")
+  const skillYears: Record<string, number> = {};
+  lines.flatMap((line) => line.split(/[,|]/)).forEach((segment) => {
+    const years = yearMentions(foldText(segment));
+    if (years.length === 0) return;
+    detectSkills(segment, taxonomy).forEach((skill) => {
+      skillYears[skill] = Math.max(skillYears[skill] ?? 0, ...years);
+    });
+  });
+
+  const folded = foldedLines.join("\n");
+  const keywordSeniority = [...SENIORITY_PATTERNS].reverse().find(([, pattern]) => pattern.test(folded))?.[0];
+  const education = [...EDUCATION_PATTERNS].reverse().find(([, pattern]) => pattern.test(folded))?.[0];
+
+  return {
+    total_years_experience: totalYears > 0 ? roundYears(totalYears) : null,
+    skill_years: Object.keys(skillYears).length > 0 ? skillYears : null,
+    seniority: keywordSeniority ?? (totalYears > 0 ? seniorityFromYears(totalYears) : null),
+    education_level: education ?? null,
+  };
+}
+
+// Cấp bậc ước lượng khi CV không ghi rõ
+function seniorityFromYears(years: number): Seniority {
+  if (years < 2) return "junior";
+  if (years < 5) return "mid";
+  return "senior";
+}
@@ -0,0 +1,168 @@
+import { createClient, type SupabaseClient, type User } from "https://esm.sh/@supabase/supabase-js@2";
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-request-id',
+  'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+  'Access-Control-Expose-Headers': 'x-request-id',
+};
+
+// Mã lỗi ổn định để frontend hiển thị thông báo theo ngôn ngữ, không phụ thuộc nội dung message
+export type ErrorCode =
+  | "AUTH_MISSING_TOKEN"
+  | "AUTH_INVALID_TOKEN"
+  | "INVALID_JSON"
+  | "VALIDATION_FAILED"
+  | "METHOD_NOT_ALLOWED"
+  | "CANDIDATE_NOT_FOUND"
+  | "JOB_REQUIREMENT_NOT_FOUND"
+  | "SHORTLIST_NOT_FOUND"
+  | "AMBIGUOUS_JOB_REQUIREMENT"
+  | "JOB_HAS_NO_SKILLS"
+  | "NO_CANDIDATES"
+  | "INSUFFICIENT_TRAINING_DATA"
+  | "DUPLICATE_CANDIDATE"
+  | "DUPLICATE_JOB_TITLE"
+  | "UNSUPPORTED_FILE_TYPE"
+  | "RESUME_TOO_LARGE"
+  | "SERVER_CONFIG_ERROR"
+  | "DATABASE_ERROR"
+  | "INTERNAL_ERROR";
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: ErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export function validationError(errors: FieldError[]): ApiError {
+  return new ApiError(400, "VALIDATION_FAILED", errors[0]?.message ?? "Invalid request", errors);
+}
+
+export interface RequestContext {
+  requestId: string;
+  json: (body: unknown, status?: number) => Response;
+}
+
+// Mọi response đều có CORS và X-Request-Id.
+// Lỗi luôn có dạng { error: { code, message, details? }, request_id }
+function jsonResponse(body: unknown, status: number, requestId: string): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', 'X-Request-Id': requestId },
+  });
+}
+
+function errorResponse(error: ApiError, requestId: string): Response {
+  return jsonResponse(
+    {
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(error.details !== undefined ? { details: error.details } : {}),
+      },
+      request_id: requestId,
+    },
+    error.status,
+    requestId
+  );
+}
+
+// Bọc handler của edge function: xử lý CORS preflight, request ID và chuyển lỗi về envelope chung
+export function createHandler(
+  name: string,
+  handler: (req: Request, ctx: RequestContext) => Promise<Response>
+) {
+  return async (req: Request): Promise<Response> => {
+    // Handle CORS preflight
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    const requestId = req.headers.get("x-request-id") || crypto.randomUUID();
+    const ctx: RequestContext = {
+      requestId,
+      json: (body, status = 200) => jsonResponse(body, status, requestId),
+    };
+
+    try {
+      return await handler(req, ctx);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        if (err.status >= 500) console.error(`[${name}] ${requestId}`, err.message, err.cause ?? "");
+        return errorResponse(err, requestId);
+      }
+
+      console.error(`[${name}] ${requestId} unhandled error:`, err);
+      return errorResponse(new ApiError(500, "INTERNAL_ERROR", "Internal server error"), requestId);
+    }
+  };
+}
+
+// Xác thực Bearer token, trả về client service role và user
+export async function authenticate(req: Request): Promise<{ supabase: SupabaseClient; user: User }> {
+  // 🧠 Xác thực request
+  const authHeader = req.headers.get("authorization") || "";
+  const token = authHeader.replace("Bearer ", "");
+
+  if (!token) {
+    throw new ApiError(401, "AUTH_MISSING_TOKEN", "Missing access token");
+  }
+
+  // 🔐 Kiểm tra environment variables
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !serviceKey) {
+    throw new ApiError(500, "SERVER_CONFIG_ERROR", "Server configuration error");
+  }
+
+  // 🚀 Khởi tạo Supabase client
+  const supabase = createClient(supabaseUrl, serviceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  });
+
+  // 👤 Xác thực user
+  const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+  if (userError || !user) {
+    throw new ApiError(401, "AUTH_INVALID_TOKEN", "Invalid token");
+  }
+
+  return { supabase, user };
+}
+
+// Đọc JSON body; allowEmpty = true thì body rỗng được coi là {}
+export async function readJson<T>(req: Request, allowEmpty = false): Promise<T> {
+  const text = await req.text();
+  if (!text && allowEmpty) return {} as T;
+
+  try {
+    const body = JSON.parse(text);
+    if (body === null || typeof body !== "object") throw new Error("Body must be a JSON object");
+    return body as T;
+  } catch {
+    throw new ApiError(400, "INVALID_JSON", "Invalid JSON body");
+  }
+}
+
+// Lỗi database: ghi log chi tiết, chỉ trả về message chung cho client
+export function databaseError(message: string, cause: unknown): ApiError {
+  const error = new ApiError(500, "DATABASE_ERROR", message);
+  error.cause = cause;
+  return error;
+}
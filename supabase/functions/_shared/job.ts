@@ -0,0 +1,122 @@
+import type { FieldError } from "./http.ts";
+import type { SkillRequirement, SkillTier } from "./matching.ts";
+import { canonicalizeSkill, skillKey, type SkillTaxonomy } from "./skills.ts";
+
+const VALID_TIERS: SkillTier[] = ["must_have", "nice_to_have"];
+
+export interface JobRequirementInput {
+  title: string;
+  description?: string | null;
+  department?: string | null;
+  is_open?: boolean;
+  required_skills?: string[];
+  skill_requirements?: SkillRequirement[];
+  // Tổng số năm kinh nghiệm tối thiểu; null = không yêu cầu
+  min_years_experience?: number | null;
+}
+
+// Kiểm tra dữ liệu vị trí tuyển dụng, trả về danh sách lỗi theo trường (rỗng nếu hợp lệ).
+// partial = true khi cập nhật: chỉ kiểm tra các trường được gửi lên
+export function validateJobRequirementInput(
+  input: Partial<JobRequirementInput>,
+  partial = false
+): FieldError[] {
+  const errors: FieldError[] = [];
+  const {
+    title,
+    description,
+    department,
+    is_open,
+    required_skills,
+    skill_requirements,
+    min_years_experience,
+  } = input;
+
+  if (!partial || title !== undefined) {
+    if (!title || typeof title !== "string" || title.trim().length === 0) {
+      errors.push({ field: "title", message: "title is required and must be a non-empty string" });
+    }
+  }
+
+  if (description !== undefined && description !== null && typeof description !== "string") {
+    errors.push({ field: "description", message: "description must be a string" });
+  }
+
+  if (department !== undefined && department !== null && typeof department !== "string") {
+    errors.push({ field: "department", message: "department must be a string" });
+  }
+
+  if (is_open !== undefined && typeof is_open !== "boolean") {
+    errors.push({ field: "is_open", message: "is_open must be a boolean" });
+  }
+
+  if (
+    min_years_experience !== undefined && min_years_experience !== null &&
+    (typeof min_years_experience !== "number" || min_years_experience < 0)
+  ) {
+    errors.push({ field: "min_years_experience", message: "min_years_experience must be a non-negative number" });
+  }
+
+  if (required_skills !== undefined && !Array.isArray(required_skills)) {
+    errors.push({ field: "required_skills", message: "required_skills must be an array" });
+  }
+
+  if (skill_requirements !== undefined) {
+    if (!Array.isArray(skill_requirements)) {
+      errors.push({ field: "skill_requirements", message: "skill_requirements must be an array" });
+    } else {
+      skill_requirements.forEach((requirement, index) => {
+        if (!requirement?.skill || typeof requirement.skill !== "string") {
+          errors.push({
+            field: `skill_requirements[${index}].skill`,
+            message: `skill_requirements[${index}].skill is required`,
+          });
+        }
+        if (!VALID_TIERS.includes(requirement?.tier)) {
+          errors.push({
+            field: `skill_requirements[${index}].tier`,
+            message: `skill_requirements[${index}].tier must be one of: ${VALID_TIERS.join(", ")}`,
+          });
+        }
+        if (typeof requirement?.weight !== "number" || requirement.weight <= 0) {
+          errors.push({
+            field: `skill_requirements[${index}].weight`,
+            message: `skill_requirements[${index}].weight must be a positive number`,
+          });
+        }
+        if (
+          requirement?.min_years !== undefined && requirement.min_years !== null &&
+          (typeof requirement.min_years !== "number" || requirement.min_years < 0)
+        ) {
+          errors.push({
+            field: `skill_requirements[${index}].min_years`,
+            message: `skill_requirements[${index}].min_years must be a non-negative number`,
+          });
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+// Chuẩn hóa tên kỹ năng theo taxonomy và bỏ yêu cầu trùng (giữ yêu cầu xuất hiện trước)
+export function normalizeSkillRequirements(
+  requirements: SkillRequirement[],
+  taxonomy: SkillTaxonomy
+): SkillRequirement[] {
+  const seen = new Set<string>();
+  return requirements
+    .map((requirement) => ({
+      skill: canonicalizeSkill(requirement.skill, taxonomy),
+      tier: requirement.tier,
+      weight: requirement.weight,
+      min_years: requirement.min_years ?? null,
+    }))
+    .filter((requirement) => {
+      const key = skillKey(requirement.skill);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
@@ -0,0 +1,171 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { scoreSkills, type JobRequirement } from "./matching.ts";
+import { positionScore, recencyScore } from "./recommendation.ts";
+import { expandSkills, type SkillTaxonomy } from "./skills.ts";
+
+// Đặc trưng chung cho mọi job, cùng thang 0-1
+export const BASE_FEATURES = ["skills", "text", "recency", "position", "meets_must_haves"] as const;
+
+export type BaseFeature = typeof BASE_FEATURES[number];
+
+// Đặc trưng kỹ năng cụ thể có dạng "skill:<khóa kỹ năng>"
+const SKILL_FEATURE_PREFIX = "skill:";
+
+export interface LearnedModel {
+  weights: Record<string, number>;
+  intercept: number;
+  trained_at: string;
+}
+
+export interface FeatureInput {
+  skills: string[];
+  applied_position: string | null;
+  created_at: string;
+  text_score: number;
+  total_years_experience?: number | null;
+  skill_years?: Record<string, number> | null;
+}
+
+export interface TrainingOptions {
+  epochs?: number;
+  learningRate?: number;
+  l2?: number;
+}
+
+// Logistic regression nhỏ, đủ dùng cho vài trăm đến vài nghìn hồ sơ mỗi team
+const DEFAULT_TRAINING_OPTIONS: Required<TrainingOptions> = {
+  epochs: 800,
+  learningRate: 0.5,
+  l2: 0.01,
+};
+
+export function skillFeatureName(skillKey: string): string {
+  return `${SKILL_FEATURE_PREFIX}${skillKey}`;
+}
+
+// Vector đặc trưng của một ứng viên với một job. `now` là thời điểm xét hồ sơ: lúc có kết quả
+// khi train, hiện tại khi recommend, để recency mang cùng ý nghĩa ở cả hai nơi
+export function extractFeatures(
+  candidate: FeatureInput,
+  job: JobRequirement,
+  taxonomy: SkillTaxonomy,
+  skillFeatures: string[],
+  now = Date.now()
+): Record<string, number> {
+  const match = scoreSkills(candidate.skills || [], job, taxonomy, candidate);
+  const features: Record<string, number> = {
+    skills: match.score / 100,
+    text: candidate.text_score / 100,
+    recency: recencyScore(candidate.created_at, now) / 100,
+    position: positionScore(candidate.applied_position, job.title) / 100,
+    meets_must_haves: match.meets_must_haves ? 1 : 0,
+  };
+
+  const candidateSkills = expandSkills(candidate.skills || [], taxonomy);
+  skillFeatures.forEach((feature) => {
+    features[feature] = candidateSkills.has(feature.slice(SKILL_FEATURE_PREFIX.length)) ? 1 : 0;
+  });
+
+  return features;
+}
+
+function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value));
+}
+
+// Xác suất được tuyển 0-1
+export function predict(model: Pick<LearnedModel, "weights" | "intercept">, features: Record<string, number>): number {
+  let logit = model.intercept;
+  Object.entries(model.weights).forEach(([feature, weight]) => {
+    logit += weight * (features[feature] ?? 0);
+  });
+  return sigmoid(logit);
+}
+
+// Batch gradient descent với L2 (không phạt intercept)
+export function trainLogisticRegression(
+  samples: { features: Record<string, number>; label: 0 | 1 }[],
+  featureNames: string[],
+  options: TrainingOptions = {}
+): Pick<LearnedModel, "weights" | "intercept"> {
+  const { epochs, learningRate, l2 } = { ...DEFAULT_TRAINING_OPTIONS, ...options };
+  const weights = new Array(featureNames.length).fill(0);
+  let intercept = 0;
+  const rows = samples.map((sample) => featureNames.map((name) => sample.features[name] ?? 0));
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const gradient = new Array(featureNames.length).fill(0);
+    let interceptGradient = 0;
+
+    rows.forEach((row, index) => {
+      const logit = row.reduce((sum, value, i) => sum + value * weights[i], intercept);
+      const error = sigmoid(logit) - samples[index].label;
+      interceptGradient += error;
+      row.forEach((value, i) => {
+        gradient[i] += error * value;
+      });
+    });
+
+    intercept -= (learningRate * interceptGradient) / rows.length;
+    weights.forEach((weight, i) => {
+      weights[i] = weight - learningRate * (gradient[i] / rows.length + l2 * weight);
+    });
+  }
+
+  const rounded: Record<string, number> = {};
+  featureNames.forEach((name, i) => {
+    rounded[name] = Math.round(weights[i] * 10000) / 10000;
+  });
+  return { weights: rounded, intercept: Math.round(intercept * 10000) / 10000 };
+}
+
+// Precision@k trung bình theo job: trong k ứng viên xếp đầu của mỗi job, tỉ lệ đã được tuyển.
+// Chỉ tính job có ít nhất một người được tuyển để so sánh có ý nghĩa
+export function precisionAtK(
+  groups: { scores: number[]; labels: (0 | 1)[] }[],
+  k: number
+): { precision: number | null; jobs_evaluated: number } {
+  const precisions = groups
+    .filter((group) => group.labels.length > 1 && group.labels.some((label) => label === 1))
+    .map((group) => {
+      const ranked = group.scores
+        .map((score, index) => ({ score, label: group.labels[index] }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, k);
+      return ranked.filter((item) => item.label === 1).length / ranked.length;
+    });
+
+  if (precisions.length === 0) return { precision: null, jobs_evaluated: 0 };
+  const average = precisions.reduce((sum, value) => sum + value, 0) / precisions.length;
+  return { precision: Math.round(average * 1000) / 1000, jobs_evaluated: precisions.length };
+}
+
+// Mô hình đã bật của user; chưa train hoặc chưa bật thì trả về null để dùng công thức heuristic
+export async function loadLearnedModel(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<LearnedModel | null> {
+  const { data, error } = await supabase
+    .from("learned_scoring_models")
+    .select("weights, intercept, trained_at")
+    .eq("user_id", userId)
+    .eq("enabled", true)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Learned model load error:", error);
+    return null;
+  }
+  if (!data) return null;
+
+  return {
+    weights: data.weights as Record<string, number>,
+    intercept: Number(data.intercept),
+    trained_at: data.trained_at,
+  };
+}
+
+// Các đặc trưng kỹ năng cụ thể mà mô hình đã học
+export function modelSkillFeatures(model: Pick<LearnedModel, "weights">): string[] {
+  return Object.keys(model.weights).filter((feature) => feature.startsWith(SKILL_FEATURE_PREFIX));
+}
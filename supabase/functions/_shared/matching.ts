@@ -0,0 +1,311 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ApiError, databaseError, validationError } from "./http.ts";
+import {
+  canonicalizeSkill,
+  expandSkills,
+  skillKey,
+  type SkillTaxonomy,
+} from "./skills.ts";
+import type { CandidateExperience } from "./experience.ts";
+
+export type SkillTier = "must_have" | "nice_to_have";
+
+export interface SkillRequirement {
+  skill: string;
+  tier: SkillTier;
+  weight: number;
+  min_years?: number | null;
+}
+
+export interface JobRequirement {
+  id: string;
+  title: string;
+  description?: string | null;
+  required_skills: string[];
+  skill_requirements?: SkillRequirement[] | null;
+  min_years_experience?: number | null;
+  version?: number;
+}
+
+// Kỹ năng có trong CV nhưng số năm chưa đạt min_years của yêu cầu
+export interface ExperienceShortfall {
+  skill: string;
+  years: number;
+  min_years: number;
+}
+
+export interface SkillMatchResult {
+  score: number;
+  matched_skills: string[];
+  missing_skills: string[];
+  missing_must_haves: string[];
+  meets_must_haves: boolean;
+  under_experienced_skills: ExperienceShortfall[];
+  meets_experience: boolean;
+}
+
+// Kết quả chấm điểm kèm job và phiên bản yêu cầu đã dùng để chấm
+export interface PositionMatch extends SkillMatchResult {
+  job_requirement_id: string;
+  requirement_version: number;
+}
+
+export const JOB_REQUIREMENT_COLUMNS =
+  "id, title, description, required_skills, skill_requirements, min_years_experience, version";
+
+// Thiếu kỹ năng bắt buộc thì điểm không vượt quá ngưỡng này, dù khớp nhiều kỹ năng khác
+export const MISSING_MUST_HAVE_SCORE_CAP = 30;
+
+// Chưa đủ tổng số năm kinh nghiệm của job thì điểm giảm theo tỉ lệ, nhưng không dưới mức này
+export const EXPERIENCE_SCORE_FLOOR = 0.5;
+
+// Số job tối đa lấy về để xếp hạng khi tìm theo tiêu đề
+const MAX_JOB_MATCHES = 20;
+
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface JobRequirementMatch {
+  id: string;
+  title: string;
+  similarity: number;
+}
+
+export interface JobSelection {
+  job_requirement_id?: string | null;
+  position?: string | null;
+}
+
+// Escape ký tự đặc biệt của LIKE (% _ \) trong dữ liệu người dùng nhập. PostgREST còn đổi mọi `*`
+// thành `%` trước khi escape có tác dụng, nên `*` được thay bằng `_` (khớp đúng một ký tự)
+// thay vì trở thành wildcard khớp cả chuỗi
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&").replaceAll("*", "_");
+}
+
+function titleTokens(value: string): string[] {
+  return value.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+// Độ tương đồng 0-1 giữa tiêu đề job và vị trí nhập vào: 1 khi trùng khớp,
+// còn lại theo tỉ lệ từ khớp (từ nhập vào là tiền tố của một từ trong tiêu đề)
+export function titleSimilarity(title: string, position: string): number {
+  const titleWords = titleTokens(title);
+  const positionWords = titleTokens(position);
+  if (titleWords.join(" ") === positionWords.join(" ")) return 1;
+  if (titleWords.length === 0 || positionWords.length === 0) return 0;
+
+  const matched = positionWords.filter((word) =>
+    titleWords.some((titleWord) => titleWord.startsWith(word))
+  ).length;
+  // Không bao giờ đạt 1 nếu tiêu đề không trùng khớp
+  return Math.min(0.99, Math.round(((2 * matched) / (titleWords.length + positionWords.length)) * 100) / 100);
+}
+
+// Các job có tiêu đề chứa các từ của vị trí (theo thứ tự), xếp theo độ tương đồng giảm dần
+export async function findJobRequirementMatches(
+  supabase: SupabaseClient,
+  position: string
+): Promise<(JobRequirement & { similarity: number })[]> {
+  const words = titleTokens(position).map(escapeLikePattern);
+  if (words.length === 0) return [];
+
+  const { data: jobs, error } = await supabase
+    .from("job_requirements")
+    .select(JOB_REQUIREMENT_COLUMNS)
+    .ilike("title", `%${words.join("%")}%`)
+    .limit(MAX_JOB_MATCHES);
+
+  if (error) throw error;
+  return ((jobs ?? []) as JobRequirement[])
+    .map((job) => ({ ...job, similarity: titleSimilarity(job.title, position) }))
+    .sort((a, b) => b.similarity - a.similarity || a.title.localeCompare(b.title));
+}
+
+// Chỉ chọn job khi không mơ hồ: tiêu đề trùng khớp hoặc chỉ có đúng một job khớp.
+// Nhiều job khớp thì job = null và matches là danh sách đã xếp hạng
+export async function resolveJobRequirement(
+  supabase: SupabaseClient,
+  position: string
+): Promise<{ job: JobRequirement | null; matches: JobRequirementMatch[] }> {
+  const ranked = await findJobRequirementMatches(supabase, position);
+  const exact = ranked.filter((job) => job.similarity === 1);
+  const job = exact.length === 1 ? exact[0] : ranked.length === 1 ? ranked[0] : null;
+
+  return {
+    job,
+    matches: ranked.map(({ id, title, similarity }) => ({ id, title, similarity })),
+  };
+}
+
+// Tìm job theo vị trí cho các luồng chạy nền (import, chấm lại); vị trí mơ hồ coi như không có job
+export async function findJobRequirement(
+  supabase: SupabaseClient,
+  position: string
+): Promise<JobRequirement | null> {
+  return (await resolveJobRequirement(supabase, position)).job;
+}
+
+// Chọn job cho request của người dùng: ưu tiên job_requirement_id; chỉ có tiêu đề mà khớp
+// nhiều job thì trả 409 kèm danh sách để người dùng chọn lại thay vì tự chọn một job
+export async function selectJobRequirement(
+  supabase: SupabaseClient,
+  { job_requirement_id, position }: JobSelection
+): Promise<JobRequirement | null> {
+  if (job_requirement_id) {
+    if (typeof job_requirement_id !== "string" || !UUID_PATTERN.test(job_requirement_id)) {
+      throw validationError([{ field: "job_requirement_id", message: "job_requirement_id must be a valid UUID" }]);
+    }
+
+    const { data: job, error } = await supabase
+      .from("job_requirements")
+      .select(JOB_REQUIREMENT_COLUMNS)
+      .eq("id", job_requirement_id)
+      .maybeSingle();
+
+    if (error) throw databaseError("Failed to fetch job requirement", error);
+    if (!job) {
+      throw new ApiError(404, "JOB_REQUIREMENT_NOT_FOUND", "Job requirement not found");
+    }
+    return job as JobRequirement;
+  }
+
+  if (!position?.trim()) return null;
+
+  let resolution: Awaited<ReturnType<typeof resolveJobRequirement>>;
+  try {
+    resolution = await resolveJobRequirement(supabase, position);
+  } catch (error) {
+    throw databaseError("Failed to find job requirements", error);
+  }
+
+  if (!resolution.job && resolution.matches.length > 1) {
+    throw new ApiError(
+      409,
+      "AMBIGUOUS_JOB_REQUIREMENT",
+      "Position matches several job requirements, pass job_requirement_id to choose one",
+      { matches: resolution.matches }
+    );
+  }
+  return resolution.job;
+}
+
+// Danh sách yêu cầu có trọng số. Job cũ chỉ có required_skills được coi là
+// nice-to-have trọng số 1 để giữ nguyên cách tính matched / required * 100
+export function getSkillRequirements(job: JobRequirement): SkillRequirement[] {
+  if (job.skill_requirements && job.skill_requirements.length > 0) {
+    return job.skill_requirements;
+  }
+  return (job.required_skills || []).map((skill) => ({
+    skill,
+    tier: "nice_to_have",
+    weight: 1,
+  }));
+}
+
+// Số năm của một kỹ năng: ưu tiên số năm CV ghi riêng cho kỹ năng, không có thì tổng số năm
+// là giới hạn trên. Không biết gì thì trả về null (không trừ điểm)
+function skillYearsOf(
+  requirement: SkillRequirement,
+  experience: Partial<CandidateExperience> | null | undefined,
+  taxonomy: SkillTaxonomy
+): number | null {
+  const requiredKey = skillKey(canonicalizeSkill(requirement.skill, taxonomy));
+  const stated = Object.entries(experience?.skill_years ?? {}).find(
+    ([skill]) => skillKey(canonicalizeSkill(skill, taxonomy)) === requiredKey
+  );
+  if (stated) return stated[1];
+  return experience?.total_years_experience ?? null;
+}
+
+// Chấm điểm kỹ năng của ứng viên theo yêu cầu có trọng số và phân tầng.
+// So khớp theo tên chuẩn trong taxonomy (JS = JavaScript, Next.js => React),
+// không so chuỗi con nên "Java" không còn khớp "JavaScript".
+// Có kinh nghiệm trích từ CV thì kỹ năng chưa đủ min_years chỉ được tính một phần trọng số
+export function scoreSkills(
+  skills: string[],
+  job: JobRequirement,
+  taxonomy: SkillTaxonomy,
+  experience?: Partial<CandidateExperience> | null
+): SkillMatchResult {
+  const requirements = getSkillRequirements(job);
+  const candidateSkills = expandSkills(skills, taxonomy);
+
+  const matched: SkillRequirement[] = [];
+  const missing: SkillRequirement[] = [];
+  const under_experienced_skills: ExperienceShortfall[] = [];
+  let matchedWeight = 0;
+  requirements.forEach((requirement) => {
+    const requiredKey = skillKey(canonicalizeSkill(requirement.skill, taxonomy));
+    if (!candidateSkills.has(requiredKey)) {
+      missing.push(requirement);
+      return;
+    }
+
+    matched.push(requirement);
+    let credit = 1;
+    const years = requirement.min_years ? skillYearsOf(requirement, experience, taxonomy) : null;
+    if (requirement.min_years && years !== null && years < requirement.min_years) {
+      credit = years / requirement.min_years;
+      under_experienced_skills.push({ skill: requirement.skill, years, min_years: requirement.min_years });
+    }
+    matchedWeight += Math.max(0, requirement.weight ?? 1) * credit;
+  });
+
+  const weightOf = (list: SkillRequirement[]) =>
+    list.reduce((sum, requirement) => sum + Math.max(0, requirement.weight ?? 1), 0);
+
+  const totalWeight = weightOf(requirements);
+  let score = totalWeight > 0 ? (matchedWeight / totalWeight) * 100 : 0;
+
+  // Tổng số năm kinh nghiệm tối thiểu của job
+  const totalYears = experience?.total_years_experience ?? null;
+  const lacksTotalYears = !!job.min_years_experience && totalYears !== null && totalYears < job.min_years_experience;
+  if (lacksTotalYears) {
+    score *= Math.max(EXPERIENCE_SCORE_FLOOR, totalYears! / job.min_years_experience!);
+  }
+  score = Math.round(score);
+
+  const missing_must_haves = missing
+    .filter((requirement) => requirement.tier === "must_have")
+    .map((requirement) => requirement.skill);
+
+  if (missing_must_haves.length > 0) {
+    score = Math.min(score, MISSING_MUST_HAVE_SCORE_CAP);
+  }
+
+  return {
+    score,
+    matched_skills: matched.map((requirement) => requirement.skill),
+    missing_skills: missing.map((requirement) => requirement.skill),
+    missing_must_haves,
+    meets_must_haves: missing_must_haves.length === 0,
+    under_experienced_skills,
+    meets_experience: under_experienced_skills.length === 0 && !lacksTotalYears,
+  };
+}
+
+// Chấm điểm theo một job cụ thể, ghi lại job và phiên bản yêu cầu
+export function scoreForJob(
+  skills: string[],
+  job: JobRequirement,
+  taxonomy: SkillTaxonomy,
+  experience?: Partial<CandidateExperience> | null
+): PositionMatch {
+  return {
+    ...scoreSkills(skills, job, taxonomy, experience),
+    job_requirement_id: job.id,
+    requirement_version: job.version ?? 1,
+  };
+}
+
+// Các cột điểm lưu trên candidates sau mỗi lần chấm (kể cả khi không tìm thấy job)
+export function toScoreColumns(match: PositionMatch | null) {
+  return {
+    matching_score: match?.score ?? 0,
+    missing_must_haves: match?.missing_must_haves.length ? match.missing_must_haves : null,
+    job_requirement_id: match?.job_requirement_id ?? null,
+    score_requirement_version: match?.requirement_version ?? null,
+    score_computed_at: new Date().toISOString(),
+    score_stale: false,
+  };
+}
@@ -0,0 +1,118 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type ScoreComponent = "skills" | "text" | "recency" | "position" | "status" | "matching_score";
+
+export type RecommendationWeights = Record<ScoreComponent, number>;
+
+export interface RecommendationSettings {
+  weights: RecommendationWeights;
+  exclude_statuses: string[];
+}
+
+export interface ScoreBreakdownItem {
+  value: number; // điểm thành phần, 0-100
+  weight: number; // trọng số đã chuẩn hóa, tổng các trọng số = 1
+  contribution: number; // value * weight, cộng lại ra recommendation_score
+}
+
+export type ScoreBreakdown = Record<ScoreComponent, ScoreBreakdownItem>;
+
+export const SCORE_COMPONENTS: ScoreComponent[] = [
+  "skills",
+  "text",
+  "recency",
+  "position",
+  "status",
+  "matching_score",
+];
+
+// Giữ tỉ lệ gần với công thức cũ: kỹ năng là chính, recency và vị trí ứng tuyển là điểm cộng
+export const DEFAULT_RECOMMENDATION_SETTINGS: RecommendationSettings = {
+  weights: {
+    skills: 60,
+    text: 10,
+    recency: 10,
+    position: 15,
+    status: 0,
+    matching_score: 15,
+  },
+  exclude_statuses: ["Hired", "Rejected"],
+};
+
+// Điểm theo trạng thái: ứng viên còn mới trong pipeline được ưu tiên hơn
+const STATUS_SCORES: Record<string, number> = {
+  New: 100,
+  Screening: 75,
+  Interviewing: 50,
+  Hired: 0,
+  Rejected: 0,
+};
+
+// Điểm recency giảm tuyến tính về 0 sau 10 tuần
+const RECENCY_WINDOW_DAYS = 70;
+
+// Đọc cấu hình của user, chưa có thì dùng mặc định
+export async function loadRecommendationSettings(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<RecommendationSettings> {
+  const { data, error } = await supabase
+    .from("scoring_settings")
+    .select("skills_weight, text_weight, recency_weight, position_weight, status_weight, matching_score_weight, exclude_statuses")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Scoring settings load error:", error);
+    return DEFAULT_RECOMMENDATION_SETTINGS;
+  }
+  if (!data) return DEFAULT_RECOMMENDATION_SETTINGS;
+
+  return {
+    weights: {
+      skills: Number(data.skills_weight),
+      text: Number(data.text_weight),
+      recency: Number(data.recency_weight),
+      position: Number(data.position_weight),
+      status: Number(data.status_weight),
+      matching_score: Number(data.matching_score_weight),
+    },
+    exclude_statuses: data.exclude_statuses ?? [],
+  };
+}
+
+export function recencyScore(createdAt: string, now = Date.now()): number {
+  const daysOld = (now - new Date(createdAt).getTime()) / (1000 * 60 * 60 * 24);
+  return Math.round(Math.max(0, 1 - daysOld / RECENCY_WINDOW_DAYS) * 100);
+}
+
+export function statusScore(status: string): number {
+  return STATUS_SCORES[status] ?? 0;
+}
+
+export function positionScore(appliedPosition: string | null, position: string): number {
+  return appliedPosition && appliedPosition.toLowerCase().includes(position.toLowerCase()) ? 100 : 0;
+}
+
+// Trung bình có trọng số của các thành phần, trả về cả điểm tổng và phần đóng góp của từng thành phần
+export function combineScores(
+  values: Record<ScoreComponent, number>,
+  weights: RecommendationWeights
+): { score: number; breakdown: ScoreBreakdown } {
+  const totalWeight = SCORE_COMPONENTS.reduce((sum, component) => sum + Math.max(0, weights[component]), 0);
+
+  let score = 0;
+  const breakdown = {} as ScoreBreakdown;
+  SCORE_COMPONENTS.forEach((component) => {
+    const weight = totalWeight > 0 ? Math.max(0, weights[component]) / totalWeight : 0;
+    const contribution = values[component] * weight;
+    score += contribution;
+    breakdown[component] = {
+      value: values[component],
+      weight: Math.round(weight * 1000) / 1000,
+      contribution: Math.round(contribution * 10) / 10,
+    };
+  });
+
+  return { score: Math.round(score * 10) / 10, breakdown };
+}
@@ -0,0 +1,94 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { databaseError } from "./http.ts";
+import { getSkillRequirements, type JobRequirement } from "./matching.ts";
+import { loadRecommendationSettings } from "./recommendation.ts";
+import { loadLearnedModel } from "./learnedModel.ts";
+import { loadJobTextScores, rankCandidates, type RankableCandidate } from "./candidateRanking.ts";
+import { loadSkillTaxonomy } from "./skills.ts";
+
+// Ứng viên bị loại gần đây chưa được gợi ý lại
+export const REJECTION_COOLDOWN_DAYS = 90;
+
+// Chỉ lưu ứng viên đủ kỹ năng bắt buộc và đạt điểm gợi ý tối thiểu. Ngưỡng theo từng cách chấm vì hai
+// thang khác nhau: heuristic là điểm tổng hợp 0-100, mô hình học là xác suất được tuyển (%)
+// nên thường thấp hơn nhiều khi tỉ lệ tuyển thực tế nhỏ
+export const MIN_REDISCOVERY_SCORE = {
+  heuristic: 50,
+  learned: 30,
+} as const;
+export const MAX_REDISCOVERY_SUGGESTIONS = 20;
+
+export interface RediscoveryResult {
+  scanned: number;
+  suggested: number;
+}
+
+// Chấm lại kho ứng viên cũ của user với một job (cùng công thức recommend) và lưu các ứng viên phù hợp
+// thành gợi ý. Gợi ý chưa xử lý của lần quét trước được thay mới; gợi ý đã bỏ qua thì giữ nguyên.
+// Kho chỉ gồm hồ sơ do chính user tải lên, kể cả khi vị trí được chia sẻ với cả nhóm
+export async function rediscoverCandidates(
+  supabase: SupabaseClient,
+  userId: string,
+  job: JobRequirement
+): Promise<RediscoveryResult> {
+  if (getSkillRequirements(job).length === 0) return { scanned: 0, suggested: 0 };
+
+  const rejectedBefore = new Date(Date.now() - REJECTION_COOLDOWN_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  // Bỏ qua người đã được tuyển, người bị loại gần đây và người đang ứng tuyển chính job này
+  const { data, error } = await supabase
+    .from("candidates")
+    .select("id, applied_position, status, skills, matching_score, created_at, job_requirement_id, total_years_experience, skill_years")
+    .eq("user_id", userId)
+    .not("skills", "is", null)
+    .neq("status", "Hired")
+    .or(`status.neq.Rejected,status_updated_at.lt.${rejectedBefore}`);
+
+  if (error) throw databaseError("Failed to fetch candidates for rediscovery", error);
+
+  const pool = ((data || []) as (RankableCandidate & { job_requirement_id: string | null })[])
+    .filter((candidate) => candidate.job_requirement_id !== job.id);
+
+  const [settings, taxonomy, learnedModel, textScores] = await Promise.all([
+    loadRecommendationSettings(supabase, userId),
+    loadSkillTaxonomy(supabase),
+    loadLearnedModel(supabase, userId),
+    loadJobTextScores(supabase, userId, job),
+  ]);
+
+  const minScore = learnedModel ? MIN_REDISCOVERY_SCORE.learned : MIN_REDISCOVERY_SCORE.heuristic;
+  const hits = rankCandidates(pool, job, job.title, { settings, taxonomy, learnedModel, textScores })
+    .filter((candidate) => candidate.meets_must_haves && candidate.recommendation_score >= minScore)
+    .slice(0, MAX_REDISCOVERY_SUGGESTIONS);
+
+  const { error: deleteError } = await supabase
+    .from("rediscovery_suggestions")
+    .delete()
+    .eq("user_id", userId)
+    .eq("job_requirement_id", job.id)
+    .eq("status", "new");
+
+  if (deleteError) throw databaseError("Failed to clear rediscovery suggestions", deleteError);
+
+  if (hits.length === 0) return { scanned: pool.length, suggested: 0 };
+
+  // Ứng viên đã bị bỏ qua cho job này không được gợi ý lại
+  const { data: inserted, error: insertError } = await supabase
+    .from("rediscovery_suggestions")
+    .upsert(
+      hits.map((candidate) => ({
+        user_id: userId,
+        job_requirement_id: job.id,
+        candidate_id: candidate.id,
+        score: candidate.recommendation_score,
+        matched_skills: candidate.matched_skills,
+        missing_skills: candidate.missing_skills,
+      })),
+      { onConflict: "job_requirement_id,candidate_id", ignoreDuplicates: true }
+    )
+    .select("id");
+
+  if (insertError) throw databaseError("Failed to save rediscovery suggestions", insertError);
+
+  return { scanned: pool.length, suggested: inserted?.length ?? 0 };
+}
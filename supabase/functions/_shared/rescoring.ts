@@ -0,0 +1,105 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  findJobRequirement,
+  JOB_REQUIREMENT_COLUMNS,
+  type JobRequirement,
+  scoreForJob,
+  toScoreColumns,
+} from "./matching.ts";
+import { loadSkillTaxonomy } from "./skills.ts";
+
+const RESCORE_PAGE_SIZE = 500;
+
+export interface RescoreFilter {
+  userId?: string;
+  jobRequirementId?: string;
+  candidateIds?: string[];
+  staleOnly?: boolean;
+}
+
+export interface RescoreSummary {
+  processed: number;
+  unmatched: number;
+}
+
+interface ScoringCandidate {
+  id: string;
+  applied_position: string | null;
+  skills: string[] | null;
+  job_requirement_id: string | null;
+  total_years_experience: number | null;
+  skill_years: Record<string, number> | null;
+}
+
+// Tính lại matching_score cho các ứng viên thỏa filter và ghi kèm job, phiên bản yêu cầu, thời điểm chấm
+export async function rescoreCandidates(
+  supabase: SupabaseClient,
+  filter: RescoreFilter
+): Promise<RescoreSummary> {
+  const taxonomy = await loadSkillTaxonomy(supabase);
+  const jobsById = new Map<string, JobRequirement | null>();
+  const jobsByPosition = new Map<string, JobRequirement | null>();
+  const summary: RescoreSummary = { processed: 0, unmatched: 0 };
+
+  // Ưu tiên job đã gắn với ứng viên; job bị xóa thì tìm lại theo vị trí ứng tuyển
+  const resolveJob = async (candidate: ScoringCandidate): Promise<JobRequirement | null> => {
+    if (candidate.job_requirement_id) {
+      if (!jobsById.has(candidate.job_requirement_id)) {
+        const { data: job, error } = await supabase
+          .from("job_requirements")
+          .select(JOB_REQUIREMENT_COLUMNS)
+          .eq("id", candidate.job_requirement_id)
+          .maybeSingle();
+        if (error) throw error;
+        jobsById.set(candidate.job_requirement_id, job as JobRequirement | null);
+      }
+      const job = jobsById.get(candidate.job_requirement_id);
+      if (job) return job;
+    }
+
+    const position = candidate.applied_position?.trim();
+    if (!position) return null;
+    if (!jobsByPosition.has(position)) {
+      jobsByPosition.set(position, await findJobRequirement(supabase, position));
+    }
+    return jobsByPosition.get(position) ?? null;
+  };
+
+  // Phân trang theo id để không bỏ sót khi score_stale thay đổi giữa các trang
+  let lastId: string | null = null;
+  while (true) {
+    let query = supabase
+      .from("candidates")
+      .select("id, applied_position, skills, job_requirement_id, total_years_experience, skill_years")
+      .order("id", { ascending: true })
+      .limit(RESCORE_PAGE_SIZE);
+
+    if (filter.userId) query = query.eq("user_id", filter.userId);
+    if (filter.jobRequirementId) query = query.eq("job_requirement_id", filter.jobRequirementId);
+    if (filter.candidateIds) query = query.in("id", filter.candidateIds);
+    if (filter.staleOnly) query = query.eq("score_stale", true);
+    if (lastId) query = query.gt("id", lastId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    const candidates = (data ?? []) as ScoringCandidate[];
+    if (candidates.length === 0) break;
+
+    const scores = [];
+    for (const candidate of candidates) {
+      const job = await resolveJob(candidate);
+      if (!job) summary.unmatched++;
+      const match = job ? scoreForJob(candidate.skills ?? [], job, taxonomy, candidate) : null;
+      scores.push({ id: candidate.id, ...toScoreColumns(match) });
+    }
+
+    const { error: applyError } = await supabase.rpc("apply_candidate_scores", { p_scores: scores });
+    if (applyError) throw applyError;
+
+    summary.processed += candidates.length;
+    lastId = candidates[candidates.length - 1].id;
+    if (candidates.length < RESCORE_PAGE_SIZE) break;
+  }
+
+  return summary;
+}
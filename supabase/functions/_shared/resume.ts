@@ -0,0 +1,242 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { extractText, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import { strFromU8, unzipSync } from "https://esm.sh/fflate@0.8.2";
+import { ApiError } from "./http.ts";
+
+export const RESUME_BUCKET = "resumes";
+
+export type ResumeFileType = "pdf" | "docx" | "odt" | "rtf" | "txt";
+
+export const RESUME_MIME_TYPES: Record<ResumeFileType, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  odt: "application/vnd.oasis.opendocument.text",
+  rtf: "application/rtf",
+  txt: "text/plain",
+};
+
+// Giới hạn độ dài văn bản lưu vào database
+const MAX_RESUME_TEXT_LENGTH = 100_000;
+
+// Dung lượng giải nén tối đa của mỗi file XML đọc từ DOCX / ODT, chặn zip bomb trước khi giải nén
+const MAX_ZIP_ENTRY_SIZE = 10 * 1024 * 1024;
+
+// Lấy đường dẫn file trong bucket từ public URL do getPublicUrl() trả về
+export function getResumeStoragePath(resumeUrl: string): string | null {
+  try {
+    const { pathname } = new URL(resumeUrl);
+    const marker = `/storage/v1/object/public/${RESUME_BUCKET}/`;
+    const index = pathname.indexOf(marker);
+    if (index === -1) return null;
+    return decodeURIComponent(pathname.slice(index + marker.length));
+  } catch {
+    return null;
+  }
+}
+
+// File trong bucket thuộc về user khi nằm trong thư mục `${userId}/` (frontend luôn tải lên đó)
+export function isOwnResumePath(path: string, userId: string): boolean {
+  return path.startsWith(`${userId}/`) && !path.split("/").includes("..");
+}
+
+// Tải file CV từ bucket. Chỉ đọc file trong storage của dự án và trong thư mục của user,
+// không fetch URL bên ngoài
+export async function downloadResume(
+  supabase: SupabaseClient,
+  userId: string,
+  resumeUrl: string
+): Promise<Uint8Array | null> {
+  const path = getResumeStoragePath(resumeUrl);
+  if (!path || !isOwnResumePath(path, userId)) return null;
+
+  const { data, error } = await supabase.storage.from(RESUME_BUCKET).download(path);
+  if (error) throw error;
+
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+// Chuẩn hóa khoảng trắng để lưu và tìm kiếm
+export function normalizeResumeText(text: string): string {
+  return text
+    .replaceAll("\u0000", "")
+    .replace(/[ \t\f\v]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim()
+    .slice(0, MAX_RESUME_TEXT_LENGTH);
+}
+
+// Xóa file khỏi bucket (vd: file bị từ chối sau khi kiểm tra định dạng). Không bao giờ xóa file
+// ngoài thư mục của user
+export async function removeResume(supabase: SupabaseClient, userId: string, resumeUrl: string): Promise<void> {
+  const path = getResumeStoragePath(resumeUrl);
+  if (!path || !isOwnResumePath(path, userId)) return;
+
+  const { error } = await supabase.storage.from(RESUME_BUCKET).remove([path]);
+  if (error) throw error;
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, index) => bytes[index] === byte);
+}
+
+// Đọc các file XML cần thiết bên trong gói ZIP (DOCX, ODT). Kích thước sau giải nén được
+// kiểm tra theo header trước khi giải nén, file quá lớn trả về 413
+function readZipEntries(bytes: Uint8Array, names: string[]): Record<string, Uint8Array> {
+  return unzipSync(bytes, {
+    filter: (file) => {
+      if (!names.includes(file.name)) return false;
+      if (file.originalSize > MAX_ZIP_ENTRY_SIZE) {
+        throw new ApiError(
+          413,
+          "RESUME_TOO_LARGE",
+          `Resume content exceeds ${MAX_ZIP_ENTRY_SIZE / 1024 / 1024} MB when decompressed`
+        );
+      }
+      return true;
+    },
+  });
+}
+
+// Xác định định dạng thật của file theo chữ ký (magic bytes), không tin MIME type từ trình duyệt
+export function detectResumeType(bytes: Uint8Array): ResumeFileType | null {
+  // %PDF
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46])) return "pdf";
+
+  // {\rtf
+  if (startsWith(bytes, [0x7b, 0x5c, 0x72, 0x74, 0x66])) return "rtf";
+
+  // PK\x03\x04: gói ZIP, phân biệt DOCX và ODT theo nội dung
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) {
+    try {
+      const entries = readZipEntries(bytes, ["mimetype", "word/document.xml"]);
+      if (entries["word/document.xml"]) return "docx";
+      if (entries["mimetype"] && strFromU8(entries["mimetype"]).trim() === RESUME_MIME_TYPES.odt) {
+        return "odt";
+      }
+    } catch (zipError) {
+      if (zipError instanceof ApiError) throw zipError;
+      return null;
+    }
+    return null;
+  }
+
+  // Văn bản thuần: UTF-8 hợp lệ và không chứa byte NUL
+  if (bytes.includes(0)) return null;
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return "txt";
+  } catch {
+    return null;
+  }
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+// Bỏ thẻ XML, giữ ngắt đoạn và tab
+function xmlToText(xml: string, paragraphTags: string[], tabTags: string[]): string {
+  let text = xml;
+  paragraphTags.forEach((tag) => {
+    text = text.replace(new RegExp(`</${tag}>`, "g"), "\n");
+  });
+  tabTags.forEach((tag) => {
+    text = text.replace(new RegExp(`<${tag}\\s*/>`, "g"), "\t");
+  });
+  return decodeXmlEntities(text.replace(/<[^>]+>/g, ""));
+}
+
+// Bỏ các nhóm RTF không chứa nội dung hiển thị ({\fonttbl...}, {\*...}), có xét ngoặc lồng nhau
+function stripRtfGroups(rtf: string): string {
+  const ignored = /^\{\\(\*|fonttbl|colortbl|stylesheet|info|pict)/;
+  let result = "";
+  let i = 0;
+
+  while (i < rtf.length) {
+    if (rtf[i] === "{" && rtf[i - 1] !== "\\" && ignored.test(rtf.slice(i, i + 12))) {
+      let depth = 0;
+      do {
+        if (rtf[i] === "\\") i++;
+        else if (rtf[i] === "{") depth++;
+        else if (rtf[i] === "}") depth--;
+        i++;
+      } while (depth > 0 && i < rtf.length);
+    } else {
+      result += rtf[i++];
+    }
+  }
+
+  return result;
+}
+
+// Chuyển RTF sang văn bản: bỏ nhóm điều khiển, giải mã \'hh và \uN
+function rtfToText(rtf: string): string {
+  return stripRtfGroups(rtf)
+    .replace(/\\u(-?\d+)\??/g, (_, code) => {
+      const value = Number(code);
+      return String.fromCharCode(value < 0 ? value + 65536 : value);
+    })
+    .replace(/\\'([0-9a-f]{2})/gi, (_, hex) =>
+      new TextDecoder("windows-1252").decode(new Uint8Array([parseInt(hex, 16)]))
+    )
+    .replace(/\\(par|line)\b ?/g, "\n")
+    .replace(/\\tab\b ?/g, "\t")
+    .replace(/\\[a-z]+-?\d* ?/gi, "")
+    .replace(/(?<!\\)[{}]/g, "")
+    .replace(/\\([{}\\])/g, "$1");
+}
+
+// Trích xuất văn bản đã chuẩn hóa từ CV theo định dạng
+export async function extractResumeText(bytes: Uint8Array, type: ResumeFileType): Promise<string> {
+  switch (type) {
+    case "pdf": {
+      const pdf = await getDocumentProxy(bytes);
+      const { text } = await extractText(pdf, { mergePages: true });
+      return normalizeResumeText(Array.isArray(text) ? text.join("\n") : text);
+    }
+    case "docx": {
+      const entries = readZipEntries(bytes, ["word/document.xml"]);
+      return normalizeResumeText(
+        xmlToText(strFromU8(entries["word/document.xml"]), ["w:p"], ["w:tab"])
+      );
+    }
+    case "odt": {
+      const entries = readZipEntries(bytes, ["content.xml"]);
+      return normalizeResumeText(
+        xmlToText(strFromU8(entries["content.xml"] ?? new Uint8Array()), ["text:p", "text:h"], ["text:tab"])
+      );
+    }
+    case "rtf":
+      return normalizeResumeText(rtfToText(new TextDecoder("latin1").decode(bytes)));
+    case "txt":
+      return normalizeResumeText(new TextDecoder("utf-8").decode(bytes));
+  }
+}
+
+// Lưu bản văn bản chuẩn hóa cạnh file gốc để xem trước CV không phải PDF
+export async function storeTextPreview(
+  supabase: SupabaseClient,
+  resumeUrl: string,
+  text: string
+): Promise<string | null> {
+  const path = getResumeStoragePath(resumeUrl);
+  if (!path) return null;
+
+  const previewPath = `${path}.txt`;
+  const { error } = await supabase.storage
+    .from(RESUME_BUCKET)
+    .upload(previewPath, new Blob([text], { type: "text/plain;charset=utf-8" }), {
+      contentType: "text/plain;charset=utf-8",
+      upsert: true,
+    });
+  if (error) throw error;
+
+  return supabase.storage.from(RESUME_BUCKET).getPublicUrl(previewPath).data.publicUrl;
+}
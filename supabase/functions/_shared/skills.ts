@@ -0,0 +1,168 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Từ điển kỹ năng mặc định, dùng khi chưa tải được bảng skill_taxonomy
+// (khởi tạo từ SKILLS_SUGGESTIONS trong src/components/candidateForm.tsx)
+export const SKILL_DICTIONARY = [
+  "React",
+  "TypeScript",
+  "JavaScript",
+  "Node.js",
+  "Python",
+  "Java",
+  "HTML",
+  "CSS",
+  "Vue.js",
+  "Angular",
+  "Next.js",
+  "Express.js",
+  "MongoDB",
+  "PostgreSQL",
+  "MySQL",
+  "Redis",
+  "Docker",
+  "AWS",
+  "Git",
+  "REST API",
+  "GraphQL",
+  "Firebase",
+  "Tailwind CSS",
+  "SASS",
+  "React Native",
+  "Flutter",
+  "Swift",
+  "Kotlin",
+  "Go",
+  "PHP",
+  "Machine Learning",
+  "Data Analysis",
+  "UI/UX Design",
+  "Figma",
+];
+
+export interface SkillTaxonomyEntry {
+  name: string;
+  aliases: string[];
+  implies: string[];
+}
+
+export interface SkillTaxonomy {
+  entries: SkillTaxonomyEntry[];
+  // Khóa chuẩn hóa của tên hoặc alias -> tên chuẩn
+  canonicalByKey: Map<string, string>;
+  // Tên chuẩn -> các kỹ năng được suy ra (vd: Next.js -> React)
+  impliesByName: Map<string, string[]>;
+}
+
+// Kỹ năng quá ngắn (vd: "Go") dễ trùng với từ thông thường nên chỉ so khớp phân biệt hoa thường
+const CASE_SENSITIVE_MAX_LENGTH = 2;
+
+export function skillKey(skill: string): string {
+  return skill.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export function buildSkillTaxonomy(entries: SkillTaxonomyEntry[]): SkillTaxonomy {
+  const canonicalByKey = new Map<string, string>();
+  const impliesByName = new Map<string, string[]>();
+
+  entries.forEach((entry) => {
+    canonicalByKey.set(skillKey(entry.name), entry.name);
+    impliesByName.set(entry.name, entry.implies ?? []);
+  });
+  // Alias không được ghi đè tên chuẩn của kỹ năng khác
+  entries.forEach((entry) => {
+    (entry.aliases ?? []).forEach((alias) => {
+      const key = skillKey(alias);
+      if (!canonicalByKey.has(key)) canonicalByKey.set(key, entry.name);
+    });
+  });
+
+  return { entries, canonicalByKey, impliesByName };
+}
+
+export const DEFAULT_SKILL_TAXONOMY = buildSkillTaxonomy(
+  SKILL_DICTIONARY.map((name) => ({ name, aliases: [], implies: [] }))
+);
+
+// Tải taxonomy từ database, lỗi thì dùng từ điển mặc định
+export async function loadSkillTaxonomy(supabase: SupabaseClient): Promise<SkillTaxonomy> {
+  const { data, error } = await supabase
+    .from("skill_taxonomy")
+    .select("name, aliases, implies");
+
+  if (error || !data || data.length === 0) {
+    if (error) console.error("Skill taxonomy query error:", error);
+    return DEFAULT_SKILL_TAXONOMY;
+  }
+
+  return buildSkillTaxonomy(data as SkillTaxonomyEntry[]);
+}
+
+// Đưa kỹ năng về tên chuẩn (JS -> JavaScript); kỹ năng ngoài taxonomy giữ nguyên
+export function canonicalizeSkill(skill: string, taxonomy: SkillTaxonomy): string {
+  return taxonomy.canonicalByKey.get(skillKey(skill)) ?? skill.trim();
+}
+
+// Tập khóa kỹ năng của ứng viên, gồm cả kỹ năng được suy ra qua quan hệ cha/con
+export function expandSkills(skills: string[], taxonomy: SkillTaxonomy): Set<string> {
+  const expanded = new Set<string>();
+  const queue = skills.map((skill) => canonicalizeSkill(skill, taxonomy));
+
+  while (queue.length > 0) {
+    const skill = queue.shift()!;
+    const key = skillKey(skill);
+    if (expanded.has(key)) continue;
+    expanded.add(key);
+    (taxonomy.impliesByName.get(skill) ?? []).forEach((implied) =>
+      queue.push(canonicalizeSkill(implied, taxonomy))
+    );
+  }
+
+  return expanded;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+function buildSkillPattern(skill: string): RegExp {
+  const body = skill
+    .trim()
+    .split(/\s+/)
+    .map(escapeRegExp)
+    .join("\\s+");
+  const flags = skill.length <= CASE_SENSITIVE_MAX_LENGTH ? "u" : "iu";
+  // Không cho phép chữ/số liền kề để "Java" không khớp với "JavaScript"
+  return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, flags);
+}
+
+// Nhận diện kỹ năng (theo tên chuẩn hoặc alias) xuất hiện trong văn bản, trả về tên chuẩn
+export function detectSkills(text: string, taxonomy: SkillTaxonomy = DEFAULT_SKILL_TAXONOMY): string[] {
+  if (!text) return [];
+
+  return taxonomy.entries
+    .filter((entry) =>
+      [entry.name, ...(entry.aliases ?? [])].some((term) => buildSkillPattern(term).test(text))
+    )
+    .map((entry) => entry.name);
+}
+
+// Gộp kỹ năng nhập tay với kỹ năng nhận diện được, đưa về tên chuẩn và bỏ trùng
+export function mergeSkills(
+  manual: string[],
+  detected: string[],
+  taxonomy: SkillTaxonomy = DEFAULT_SKILL_TAXONOMY
+): string[] {
+  const seen = new Set<string>();
+  const merged: string[] = [];
+
+  [...manual, ...detected].forEach((skill) => {
+    const canonical = canonicalizeSkill(skill, taxonomy);
+    const key = skillKey(canonical);
+    if (canonical && !seen.has(key)) {
+      seen.add(key);
+      merged.push(canonical);
+    }
+  });
+
+  return merged;
+}
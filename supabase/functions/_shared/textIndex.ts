@@ -0,0 +1,124 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Số CV chưa có chỉ mục được bổ sung mỗi lần gọi recommend (dữ liệu cũ trước khi có chỉ mục)
+const BACKFILL_BATCH_SIZE = 100;
+
+// Từ phổ biến không mang nghĩa khi so khớp (đã bỏ dấu)
+const STOPWORDS = new Set([
+  // English
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "have", "in", "is", "it",
+  "its", "of", "on", "or", "that", "the", "to", "was", "were", "will", "with", "we", "you", "our",
+  "your", "i", "my", "me", "this", "these", "those", "etc",
+  // Tiếng Việt
+  "va", "cua", "cac", "la", "co", "cho", "voi", "trong", "nhung", "mot", "duoc", "de", "tai", "tu",
+  "den", "nay", "khi", "ve", "nhu", "thi", "da", "se", "cung", "theo", "ra", "vao", "o", "khong",
+  "toi", "ban", "nhieu", "hon", "tren", "duoi", "sau", "truoc", "bang", "neu", "hoac", "moi",
+]);
+
+// Chuẩn hóa để tiếng Việt có dấu / không dấu và hoa / thường khớp nhau
+export function foldText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .replace(/đ/g, "d")
+    .replace(/Đ/g, "D")
+    .toLowerCase();
+}
+
+// Tách từ đơn (giữ "c++", "c#", "node.js") rồi thêm cặp từ liền kề, vì từ tiếng Việt
+// thường gồm nhiều âm tiết ("phat_trien") và cụm từ tiếng Anh cũng có nghĩa riêng ("machine_learning")
+export function tokenize(text: string): { unigrams: string[]; terms: string[] } {
+  const unigrams = (foldText(text).match(/[\p{L}\p{N}][\p{L}\p{N}+#.]*/gu) ?? [])
+    .map((token) => token.replace(/\.+$/, ""))
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+
+  const bigrams = unigrams.slice(1).map((token, index) => `${unigrams[index]}_${token}`);
+  return { unigrams, terms: [...unigrams, ...bigrams] };
+}
+
+export function termFrequencies(text: string): { terms: Record<string, number>; docLength: number } {
+  const { unigrams, terms } = tokenize(text);
+  const frequencies: Record<string, number> = {};
+  terms.forEach((term) => {
+    frequencies[term] = (frequencies[term] ?? 0) + 1;
+  });
+  return { terms: frequencies, docLength: unigrams.length };
+}
+
+// Ghi (hoặc ghi đè) chỉ mục của một CV rồi đánh dấu hồ sơ đã có chỉ mục; trigger tự cập nhật
+// thống kê của user
+export async function indexCandidateResume(
+  supabase: SupabaseClient,
+  userId: string,
+  candidateId: string,
+  resumeText: string | null
+): Promise<void> {
+  const indexed_at = new Date().toISOString();
+
+  if (!resumeText?.trim()) {
+    const { error } = await supabase
+      .from("candidate_resume_terms")
+      .delete()
+      .eq("candidate_id", candidateId);
+    if (error) throw error;
+  } else {
+    const { terms, docLength } = termFrequencies(resumeText);
+    const { error } = await supabase
+      .from("candidate_resume_terms")
+      .upsert({
+        candidate_id: candidateId,
+        user_id: userId,
+        terms,
+        doc_length: docLength,
+        indexed_at,
+      });
+    if (error) throw error;
+  }
+
+  const { error: flagError } = await supabase
+    .from("candidates")
+    .update({ resume_indexed_at: indexed_at })
+    .eq("id", candidateId);
+  if (flagError) throw flagError;
+}
+
+// Bổ sung chỉ mục cho các CV chưa được tách từ (resume_indexed_at rỗng), mỗi lần một lô.
+// Truy vấn đi qua partial index nên gần như không tốn gì khi mọi CV đã có chỉ mục
+export async function backfillResumeIndex(supabase: SupabaseClient, userId: string): Promise<number> {
+  const { data: candidates, error } = await supabase
+    .from("candidates")
+    .select("id, resume_text")
+    .eq("user_id", userId)
+    .is("resume_indexed_at", null)
+    .not("resume_text", "is", null)
+    .limit(BACKFILL_BATCH_SIZE);
+  if (error) throw error;
+
+  for (const candidate of candidates ?? []) {
+    await indexCandidateResume(supabase, userId, candidate.id, candidate.resume_text);
+  }
+  return candidates?.length ?? 0;
+}
+
+// Điểm tương đồng 0-100 giữa nội dung CV của từng ứng viên và đoạn văn bản truy vấn (mô tả job)
+export async function scoreResumeText(
+  supabase: SupabaseClient,
+  userId: string,
+  queryText: string
+): Promise<Map<string, number>> {
+  const queryTerms = [...new Set(tokenize(queryText).terms)];
+  if (queryTerms.length === 0) return new Map();
+
+  const { data, error } = await supabase.rpc("resume_text_scores", {
+    p_user_id: userId,
+    p_terms: queryTerms,
+  });
+  if (error) throw error;
+
+  return new Map(
+    ((data ?? []) as { candidate_id: string; text_score: number }[]).map((row) => [
+      row.candidate_id,
+      Number(row.text_score),
+    ])
+  );
+}
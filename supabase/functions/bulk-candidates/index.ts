@@ -0,0 +1,172 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import {
+  ApiError,
+  authenticate,
+  createHandler,
+  databaseError,
+  type FieldError,
+  readJson,
+  validationError,
+} from "../_shared/http.ts";
+import { VALID_STATUSES } from "../_shared/candidate.ts";
+import { UUID_PATTERN } from "../_shared/matching.ts";
+
+type BulkAction = "status" | "delete" | "tag" | "shortlist" | "export";
+
+interface BulkRequest {
+  action: BulkAction;
+  candidate_ids: string[];
+  // status
+  status?: string;
+  // tag
+  add_tags?: string[];
+  remove_tags?: string[];
+  // shortlist
+  shortlist_id?: string;
+}
+
+interface BulkResult {
+  candidate_id: string;
+  ok: boolean;
+  // updated | unchanged | deleted | added | already_in_shortlist | exported | not_found
+  result: string;
+}
+
+const BULK_ACTIONS: BulkAction[] = ["status", "delete", "tag", "shortlist", "export"];
+
+const MAX_BULK = 500;
+const MAX_TAG_LENGTH = 50;
+
+// Cột xuất CSV
+const EXPORT_COLUMNS = [
+  "id",
+  "full_name",
+  "applied_position",
+  "status",
+  "email",
+  "phone",
+  "skills",
+  "tags",
+  "matching_score",
+  "total_years_experience",
+  "seniority",
+  "education_level",
+  "resume_url",
+  "created_at",
+].join(", ");
+
+function validateTags(field: string, tags: unknown, errors: FieldError[]): string[] {
+  if (tags === undefined) return [];
+  if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== "string")) {
+    errors.push({ field, message: `${field} must be an array of strings` });
+    return [];
+  }
+  const cleaned = [...new Set(tags.map((tag: string) => tag.trim()).filter(Boolean))];
+  if (cleaned.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+    errors.push({ field, message: `each tag must be at most ${MAX_TAG_LENGTH} characters` });
+  }
+  return cleaned;
+}
+
+// Thao tác hàng loạt trên các hồ sơ đã chọn. Mỗi thao tác ghi chạy trong một transaction
+// (bulk_candidate_action); hồ sơ không thuộc user được báo not_found theo từng dòng
+serve(createHandler("bulk-candidates", async (req, ctx) => {
+  const { supabase, user } = await authenticate(req);
+
+  // 📥 Parse và validate request body
+  const body = await readJson<BulkRequest>(req);
+  const { action, candidate_ids } = body;
+
+  const fieldErrors: FieldError[] = [];
+  if (!BULK_ACTIONS.includes(action)) {
+    fieldErrors.push({ field: "action", message: `action must be one of: ${BULK_ACTIONS.join(", ")}` });
+  }
+  if (
+    !Array.isArray(candidate_ids) ||
+    candidate_ids.length === 0 ||
+    candidate_ids.length > MAX_BULK ||
+    candidate_ids.some((id) => typeof id !== "string" || !UUID_PATTERN.test(id))
+  ) {
+    fieldErrors.push({
+      field: "candidate_ids",
+      message: `candidate_ids must be an array of 1-${MAX_BULK} UUIDs`,
+    });
+  }
+
+  const payload: Record<string, unknown> = {};
+  if (action === "status") {
+    if (!body.status || !VALID_STATUSES.includes(body.status)) {
+      fieldErrors.push({ field: "status", message: `status must be one of: ${VALID_STATUSES.join(", ")}` });
+    }
+    payload.status = body.status;
+  }
+  if (action === "tag") {
+    payload.add = validateTags("add_tags", body.add_tags, fieldErrors);
+    payload.remove = validateTags("remove_tags", body.remove_tags, fieldErrors);
+    if ((payload.add as string[]).length === 0 && (payload.remove as string[]).length === 0) {
+      fieldErrors.push({ field: "add_tags", message: "add_tags or remove_tags must contain at least one tag" });
+    }
+  }
+  if (action === "shortlist") {
+    if (!body.shortlist_id || typeof body.shortlist_id !== "string" || !UUID_PATTERN.test(body.shortlist_id)) {
+      fieldErrors.push({ field: "shortlist_id", message: "shortlist_id must be a valid UUID" });
+    }
+    payload.shortlist_id = body.shortlist_id;
+  }
+  if (fieldErrors.length > 0) throw validationError(fieldErrors);
+
+  const ids = [...new Set(candidate_ids)];
+
+  // 📤 Xuất chỉ đọc dữ liệu, không cần transaction
+  if (action === "export") {
+    const { data, error } = await supabase
+      .from("candidates")
+      .select(EXPORT_COLUMNS)
+      .eq("user_id", user.id)
+      .in("id", ids);
+
+    if (error) throw databaseError("Failed to export candidates", error);
+
+    // Giữ thứ tự đã chọn
+    const byId = new Map((data ?? []).map((row) => [(row as { id: string }).id, row]));
+    const results: BulkResult[] = ids.map((id) => ({
+      candidate_id: id,
+      ok: byId.has(id),
+      result: byId.has(id) ? "exported" : "not_found",
+    }));
+
+    return ctx.json({
+      action,
+      results,
+      succeeded: byId.size,
+      failed: ids.length - byId.size,
+      rows: ids.filter((id) => byId.has(id)).map((id) => byId.get(id)),
+    });
+  }
+
+  // ✍️ Áp thao tác trong một transaction
+  const { data, error } = await supabase.rpc("bulk_candidate_action", {
+    p_user_id: user.id,
+    p_action: action,
+    p_candidate_ids: ids,
+    p_payload: payload,
+  });
+
+  if (error) {
+    if (error.code === "P0002") {
+      throw new ApiError(404, "SHORTLIST_NOT_FOUND", "Shortlist not found");
+    }
+    throw databaseError("Failed to apply bulk action", error);
+  }
+
+  const results = (data ?? []) as BulkResult[];
+  const succeeded = results.filter((row) => row.ok).length;
+
+  // ✅ Success response
+  return ctx.json({
+    action,
+    results,
+    succeeded,
+    failed: results.length - succeeded,
+  });
+}));
@@ -0,0 +1,149 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import {
+  ApiError,
+  authenticate,
+  createHandler,
+  databaseError,
+  readJson,
+  validationError,
+} from "../_shared/http.ts";
+import {
+  getSkillRequirements,
+  JOB_REQUIREMENT_COLUMNS,
+  type JobRequirement,
+  scoreForJob,
+  UUID_PATTERN,
+} from "../_shared/matching.ts";
+import { CANDIDATE_LIST_COLUMNS } from "../_shared/candidateQuery.ts";
+import { loadSkillTaxonomy } from "../_shared/skills.ts";
+
+interface CandidateDetailRequest {
+  candidate_id: string;
+}
+
+// Mọi trường của hồ sơ trừ resume_text và search_vector (nội dung CV xem qua bản xem trước)
+const CANDIDATE_DETAIL_COLUMNS = [
+  CANDIDATE_LIST_COLUMNS,
+  "detected_skills",
+  "resume_mime_type",
+  "score_requirement_version",
+].join(", ");
+
+// Toàn bộ thông tin của một ứng viên cho màn hình chi tiết: hồ sơ, điểm với job đang ứng tuyển,
+// các phiên bản CV, lịch sử trạng thái, ghi chú, shortlist và vị trí được gợi ý
+serve(createHandler("candidate-detail", async (req, ctx) => {
+  const { supabase, user } = await authenticate(req);
+
+  // 📥 Parse và validate request body
+  const { candidate_id } = await readJson<CandidateDetailRequest>(req);
+
+  if (!candidate_id || typeof candidate_id !== "string" || !UUID_PATTERN.test(candidate_id)) {
+    throw validationError([{ field: "candidate_id", message: "candidate_id must be a valid UUID" }]);
+  }
+
+  // 👤 Ứng viên phải thuộc user hiện tại
+  const { data: candidate, error: candidateError } = await supabase
+    .from("candidates")
+    .select(CANDIDATE_DETAIL_COLUMNS)
+    .eq("id", candidate_id)
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (candidateError) throw databaseError("Failed to fetch candidate", candidateError);
+  if (!candidate) {
+    throw new ApiError(404, "CANDIDATE_NOT_FOUND", "Candidate not found");
+  }
+
+  const duplicateIds: string[] = candidate.possible_duplicate_ids ?? [];
+
+  const [
+    { data: job, error: jobError },
+    { data: resumes, error: resumesError },
+    { data: statusHistory, error: historyError },
+    { data: notes, error: notesError },
+    { data: shortlists, error: shortlistsError },
+    { data: suggestions, error: suggestionsError },
+    { data: duplicates, error: duplicatesError },
+  ] = await Promise.all([
+    candidate.job_requirement_id
+      ? supabase
+        .from("job_requirements")
+        .select(`${JOB_REQUIREMENT_COLUMNS}, department, is_open`)
+        .eq("id", candidate.job_requirement_id)
+        .maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+    supabase
+      .from("candidate_resumes")
+      .select("id, file_url, file_name, mime_type, preview_url, is_current, uploaded_at")
+      .eq("candidate_id", candidate_id)
+      .order("uploaded_at", { ascending: false }),
+    supabase
+      .from("candidate_status_history")
+      .select("id, from_status, to_status, changed_at")
+      .eq("candidate_id", candidate_id)
+      .order("changed_at", { ascending: false }),
+    supabase
+      .from("candidate_notes")
+      .select("id, body, created_at, updated_at")
+      .eq("candidate_id", candidate_id)
+      .order("created_at", { ascending: false }),
+    supabase
+      .from("shortlist_entries")
+      .select("id, shortlist_id, position, note, added_at, shortlists!inner(name, user_id)")
+      .eq("candidate_id", candidate_id)
+      .eq("shortlists.user_id", user.id),
+    supabase
+      .from("rediscovery_suggestions")
+      .select("id, job_requirement_id, score, status, created_at, job_requirements!inner(title, is_open)")
+      .eq("candidate_id", candidate_id)
+      .eq("status", "new")
+      .eq("job_requirements.is_open", true)
+      .order("score", { ascending: false }),
+    duplicateIds.length > 0
+      ? supabase
+        .from("candidates")
+        .select("id, full_name, applied_position, created_at")
+        .eq("user_id", user.id)
+        .in("id", duplicateIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (jobError) throw databaseError("Failed to fetch job requirement", jobError);
+  if (resumesError) throw databaseError("Failed to fetch resumes", resumesError);
+  if (historyError) throw databaseError("Failed to fetch status history", historyError);
+  if (notesError) throw databaseError("Failed to fetch notes", notesError);
+  if (shortlistsError) throw databaseError("Failed to fetch shortlists", shortlistsError);
+  if (suggestionsError) throw databaseError("Failed to fetch suggestions", suggestionsError);
+  if (duplicatesError) throw databaseError("Failed to fetch duplicates", duplicatesError);
+
+  // 🎯 Điểm với job đang ứng tuyển, tính theo kỹ năng và kinh nghiệm hiện tại
+  let score_details = null;
+  if (job) {
+    const taxonomy = await loadSkillTaxonomy(supabase);
+    const requirement = job as JobRequirement & { department: string | null; is_open: boolean };
+    score_details = {
+      job_requirement: {
+        id: requirement.id,
+        title: requirement.title,
+        department: requirement.department,
+        is_open: requirement.is_open,
+        skill_requirements: getSkillRequirements(requirement),
+        min_years_experience: requirement.min_years_experience ?? null,
+        version: requirement.version ?? 1,
+      },
+      ...scoreForJob(candidate.skills || [], requirement, taxonomy, candidate),
+    };
+  }
+
+  // ✅ Success response
+  return ctx.json({
+    candidate,
+    score_details,
+    resumes: resumes ?? [],
+    status_history: statusHistory ?? [],
+    notes: notes ?? [],
+    shortlists: shortlists ?? [],
+    suggestions: suggestions ?? [],
+    duplicates: duplicates ?? [],
+  });
+}));
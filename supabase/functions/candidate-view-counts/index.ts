@@ -0,0 +1,89 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import {
+  authenticate,
+  createHandler,
+  databaseError,
+  readJson,
+  validationError,
+} from "../_shared/http.ts";
+import { UUID_PATTERN } from "../_shared/matching.ts";
+import {
+  type CandidateFilters,
+  normalizeCandidateFilters,
+  queryCandidates,
+  validateCandidateFilters,
+} from "../_shared/candidateQuery.ts";
+import { loadSkillTaxonomy } from "../_shared/skills.ts";
+
+interface ViewCountsRequest {
+  // Bỏ trống: đếm mọi view của user và view được chia sẻ
+  view_ids?: string[];
+}
+
+const MAX_VIEWS = 100;
+
+// Số hồ sơ của user hiện tại khớp với từng view đã lưu. View chia sẻ được áp lên hồ sơ
+// của người xem chứ không phải của người tạo
+serve(createHandler("candidate-view-counts", async (req, ctx) => {
+  const { supabase, user } = await authenticate(req);
+
+  // 📥 Parse và validate request body
+  const { view_ids } = await readJson<ViewCountsRequest>(req, true);
+
+  if (
+    view_ids !== undefined &&
+    (!Array.isArray(view_ids) ||
+      view_ids.length > MAX_VIEWS ||
+      view_ids.some((id) => typeof id !== "string" || !UUID_PATTERN.test(id)))
+  ) {
+    throw validationError([
+      { field: "view_ids", message: `view_ids must be an array of at most ${MAX_VIEWS} UUIDs` },
+    ]);
+  }
+
+  // 👀 Chỉ view của user hoặc view đang được chia sẻ. View của user được lấy trước, view chia sẻ
+  // của người khác lấp phần còn lại; cả hai sắp theo tên như danh sách view để kết quả ổn định
+  const fetchViews = (own: boolean, limit: number) => {
+    let viewQuery = supabase
+      .from("candidate_views")
+      .select("id, filters")
+      .order("name", { ascending: true })
+      .order("id", { ascending: true })
+      .limit(limit);
+    viewQuery = own
+      ? viewQuery.eq("user_id", user.id)
+      : viewQuery.neq("user_id", user.id).eq("is_shared", true);
+    if (view_ids) viewQuery = viewQuery.in("id", view_ids);
+    return viewQuery;
+  };
+
+  const { data: ownViews, error: ownError } = await fetchViews(true, MAX_VIEWS);
+  if (ownError) throw databaseError("Failed to fetch candidate views", ownError);
+
+  const remaining = MAX_VIEWS - (ownViews?.length ?? 0);
+  const { data: sharedViews, error: sharedError } = remaining > 0
+    ? await fetchViews(false, remaining)
+    : { data: [], error: null };
+  if (sharedError) throw databaseError("Failed to fetch candidate views", sharedError);
+
+  const rows = [...(ownViews ?? []), ...(sharedViews ?? [])] as { id: string; filters: CandidateFilters }[];
+  const taxonomy = rows.some((view) => view.filters?.skills?.length)
+    ? await loadSkillTaxonomy(supabase)
+    : null;
+
+  // 🔢 Đếm song song; view có bộ lọc không còn hợp lệ trả về null thay vì làm hỏng cả request
+  const counts = await Promise.all(rows.map(async (view) => {
+    if (validateCandidateFilters(view.filters).length > 0) return [view.id, null] as const;
+
+    const filters = taxonomy ? normalizeCandidateFilters(view.filters, taxonomy) : view.filters;
+    const { count, error } = await queryCandidates(supabase, user.id, filters, "id", {
+      count: "exact",
+      head: true,
+    });
+    if (error) throw databaseError("Failed to count candidates", error);
+    return [view.id, count ?? 0] as const;
+  }));
+
+  // ✅ Success response
+  return ctx.json({ counts: Object.fromEntries(counts) });
+}));
@@ -0,0 +1,115 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import {
+  ApiError,
+  authenticate,
+  createHandler,
+  databaseError,
+  type FieldError,
+  readJson,
+  validationError,
+} from "../_shared/http.ts";
+import { getSkillRequirements, scoreForJob, selectJobRequirement, UUID_PATTERN } from "../_shared/matching.ts";
+import { loadSkillTaxonomy, skillKey } from "../_shared/skills.ts";
+
+interface CompareCandidatesRequest {
+  candidate_ids: string[];
+  job_requirement_id: string;
+}
+
+const MIN_CANDIDATES = 2;
+const MAX_CANDIDATES = 4;
+
+serve(createHandler("compare-candidates", async (req, ctx) => {
+  const { supabase, user } = await authenticate(req);
+
+  // 📥 Parse và validate request body
+  const { candidate_ids, job_requirement_id } = await readJson<CompareCandidatesRequest>(req);
+
+  const fieldErrors: FieldError[] = [];
+  if (
+    !Array.isArray(candidate_ids) ||
+    candidate_ids.some((id) => typeof id !== "string" || !UUID_PATTERN.test(id)) ||
+    new Set(candidate_ids).size !== candidate_ids.length ||
+    candidate_ids.length < MIN_CANDIDATES ||
+    candidate_ids.length > MAX_CANDIDATES
+  ) {
+    fieldErrors.push({
+      field: "candidate_ids",
+      message: `candidate_ids must contain ${MIN_CANDIDATES}-${MAX_CANDIDATES} distinct UUIDs`,
+    });
+  }
+  if (!job_requirement_id) {
+    fieldErrors.push({ field: "job_requirement_id", message: "job_requirement_id is required" });
+  }
+  if (fieldErrors.length > 0) throw validationError(fieldErrors);
+
+  const job = await selectJobRequirement(supabase, { job_requirement_id });
+  if (!job) {
+    throw new ApiError(404, "JOB_REQUIREMENT_NOT_FOUND", "Job requirement not found");
+  }
+
+  // 👥 Các ứng viên phải thuộc user hiện tại
+  const { data: rows, error: candidatesError } = await supabase
+    .from("candidates")
+    .select("id, full_name, applied_position, status, skills, matching_score, resume_url, resume_preview_url, created_at, total_years_experience, skill_years, seniority, education_level")
+    .eq("user_id", user.id)
+    .in("id", candidate_ids);
+
+  if (candidatesError) throw databaseError("Failed to fetch candidates", candidatesError);
+  if (!rows || rows.length !== candidate_ids.length) {
+    throw new ApiError(404, "CANDIDATE_NOT_FOUND", "Candidate not found");
+  }
+
+  // Giữ thứ tự ứng viên như khi chọn
+  const candidates = candidate_ids.map((id) => rows.find((row) => row.id === id)!);
+
+  const taxonomy = await loadSkillTaxonomy(supabase);
+  const requirements = getSkillRequirements(job);
+  const requiredKeys = new Set(requirements.map((requirement) => skillKey(requirement.skill)));
+
+  // 🎯 Chấm điểm từng ứng viên với job đã chọn
+  const compared = candidates.map((candidate) => {
+    const skills: string[] = candidate.skills || [];
+    const match = scoreForJob(skills, job, taxonomy, candidate);
+    return {
+      ...candidate,
+      skills,
+      job_score: match.score,
+      matched_skills: match.matched_skills,
+      missing_skills: match.missing_skills,
+      missing_must_haves: match.missing_must_haves,
+      meets_must_haves: match.meets_must_haves,
+      under_experienced_skills: match.under_experienced_skills,
+      meets_experience: match.meets_experience,
+      // Kỹ năng ngoài yêu cầu của job
+      other_skills: skills.filter((skill) => !requiredKeys.has(skillKey(skill))),
+    };
+  });
+
+  // 🧮 Ma trận kỹ năng: mỗi yêu cầu của job, ứng viên nào có; differs = không phải ai cũng giống nhau
+  const skill_matrix = requirements.map((requirement) => {
+    const has: Record<string, boolean> = {};
+    compared.forEach((candidate) => {
+      has[candidate.id] = candidate.matched_skills.includes(requirement.skill);
+    });
+    const values = Object.values(has);
+    return {
+      skill: requirement.skill,
+      tier: requirement.tier,
+      weight: requirement.weight,
+      has,
+      differs: values.some((value) => value !== values[0]),
+    };
+  });
+
+  // ✅ Success response
+  return ctx.json({
+    job_requirement: {
+      id: job.id,
+      title: job.title,
+      skill_requirements: requirements,
+    },
+    candidates: compared,
+    skill_matrix,
+  });
+}));
@@ -1,291 +1,355 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  ApiError,
+  authenticate,
+  createHandler,
+  databaseError,
+  readJson,
+  validationError,
+} from "../_shared/http.ts";
+import { detectSkills, loadSkillTaxonomy, mergeSkills } from "../_shared/skills.ts";
+import {
+  detectResumeType,
+  downloadResume,
+  extractResumeText,
+  getResumeStoragePath,
+  isOwnResumePath,
+  removeResume,
+  RESUME_MIME_TYPES,
+  type ResumeFileType,
+  storeTextPreview,
+} from "../_shared/resume.ts";
+import {
+  extractContactInfo,
+  findPossibleDuplicates,
+  hashContent,
+  normalizeEmail,
+  normalizeName,
+  normalizePhone,
+  type PossibleDuplicate,
+} from "../_shared/duplicates.ts";
+import { type CandidateInput, validateCandidateInput } from "../_shared/candidate.ts";
+import { indexCandidateResume } from "../_shared/textIndex.ts";
+import { extractExperience } from "../_shared/experience.ts";
+import {
+  findJobRequirement,
+  type JobRequirement,
+  type PositionMatch,
+  scoreForJob,
+  selectJobRequirement,
+  toScoreColumns,
+} from "../_shared/matching.ts";
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+interface CreateCandidateRequest extends CandidateInput {
+  // Có candidate_id: gắn CV làm phiên bản mới của ứng viên đã có thay vì tạo hồ sơ mới
+  candidate_id?: string;
+  // Chọn chính xác job để chấm điểm, ưu tiên hơn applied_position
+  job_requirement_id?: string;
+  file_name?: string;
+}
 
-interface CandidateData {
+interface ExistingCandidate {
+  id: string;
   full_name: string;
-  applied_position?: string;
-  status?: string;
-  resume_url: string;
-  skills?: string[];
+  applied_position: string | null;
+  skills: string[] | null;
+  job_requirement_id: string | null;
 }
 
-interface JobRequirement {
-  required_skills: string[];
-  title: string;
-}
+serve(createHandler("create-candidate", async (req, ctx) => {
+  const { supabase, user } = await authenticate(req);
 
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders });
-  }
+  // 📥 Parse và validate request body
+  const body = await readJson<CreateCandidateRequest>(req);
 
-  try {
-    // 🧠 Xác thực request
-    const authHeader = req.headers.get("authorization") || "";
-    const token = authHeader.replace("Bearer ", "");
-    
-    if (!token) {
-      return new Response(
-        JSON.stringify({ error: "Missing access token" }), 
-        { 
-          status: 401,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+  const {
+    full_name,
+    applied_position,
+    status = "New",
+    resume_url,
+    skills = [],
+    email,
+    phone,
+    candidate_id,
+    job_requirement_id,
+    file_name,
+  } = body;
 
-    // 🔐 Kiểm tra environment variables
-    const supabaseUrl = Deno.env.get("SUPABASE_URL");
-    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-    
-    if (!supabaseUrl || !serviceKey) {
-      console.error("Missing environment variables");
-      return new Response(
-        JSON.stringify({ error: "Server configuration error" }), 
-        { 
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+  // 📎 Tải lên CV mới cho ứng viên đã có: kiểm tra quyền sở hữu
+  let existingCandidate: ExistingCandidate | null = null;
+  if (candidate_id) {
+    const { data, error: existingError } = await supabase
+      .from("candidates")
+      .select("id, full_name, applied_position, skills, job_requirement_id")
+      .eq("id", candidate_id)
+      .eq("user_id", user.id)
+      .maybeSingle();
 
-    // 🚀 Khởi tạo Supabase client
-    const supabase = createClient(supabaseUrl, serviceKey, {
-      auth: {
-        autoRefreshToken: false,
-        persistSession: false
-      }
-    });
+    if (existingError) throw databaseError("Failed to fetch candidate", existingError);
 
-    // 👤 Xác thực user
-    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
-    
-    if (userError) {
-      console.error("User authentication error:", userError);
-      return new Response(
-        JSON.stringify({ error: "Authentication failed" }), 
-        { 
-          status: 401,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
+    if (!data) {
+      throw new ApiError(404, "CANDIDATE_NOT_FOUND", "Candidate not found");
     }
+    existingCandidate = data as ExistingCandidate;
+  }
 
-    if (!user) {
-      return new Response(
-        JSON.stringify({ error: "Invalid token" }), 
-        { 
-          status: 401,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+  // ✅ Validation chi tiết
+  const validationErrors = validateCandidateInput(
+    existingCandidate ? { ...body, full_name: full_name || existingCandidate.full_name } : body
+  );
+  // CV trong bucket phải nằm trong thư mục của chính user, tránh đọc / xóa file của người khác
+  const resumePath = typeof resume_url === "string" ? getResumeStoragePath(resume_url) : null;
+  if (resumePath && !isOwnResumePath(resumePath, user.id)) {
+    validationErrors.push({ field: "resume_url", message: "resume_url must point to a file you uploaded" });
+  }
+  if (validationErrors.length > 0) {
+    throw validationError(validationErrors);
+  }
 
-    // 📥 Parse và validate request body
-    let body: CandidateData;
+  // 🔍 Chọn job trước khi xử lý CV để trả 409 sớm nếu vị trí khớp nhiều job
+  const position = existingCandidate?.applied_position ?? applied_position;
+  let job: JobRequirement | null;
+  if (existingCandidate && !job_requirement_id) {
+    // CV mới cho ứng viên đã có: giữ job đang gắn, không chặn upload vì vị trí mơ hồ
+    job = existingCandidate.job_requirement_id
+      ? await selectJobRequirement(supabase, { job_requirement_id: existingCandidate.job_requirement_id })
+      : await findJobRequirement(supabase, position ?? "").catch((matchingError) => {
+        console.error("Job requirement lookup error:", matchingError);
+        return null;
+      });
+  } else {
+    job = await selectJobRequirement(supabase, { job_requirement_id, position });
+  }
+
+  // 📄 Trích xuất nội dung CV và tự động nhận diện kỹ năng
+  let resume_text: string | null = null;
+  let resume_hash: string | null = null;
+  let resume_type: ResumeFileType | null = null;
+  let resume_preview_url: string | null = null;
+  let detected_skills: string[] = [];
+
+  // 🏷️ Taxonomy kỹ năng dùng chung cho nhận diện, chuẩn hóa và chấm điểm
+  const taxonomy = await loadSkillTaxonomy(supabase);
+
+  let resumeFile: Uint8Array | null = null;
+  try {
+    resumeFile = await downloadResume(supabase, user.id, resume_url);
+  } catch (downloadError) {
+    console.error("Resume download error:", downloadError);
+    // Không throw error, tiếp tục chỉ với kỹ năng nhập tay
+  }
+
+  if (resumeFile) {
+    // Kiểm tra định dạng thật của file theo chữ ký, không dựa vào MIME type của trình duyệt
+    let detectError: unknown = null;
     try {
-      body = await req.json();
-    } catch (parseError) {
-      return new Response(
-        JSON.stringify({ error: "Invalid JSON body" }), 
-        { 
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
+      resume_type = detectResumeType(resumeFile);
+    } catch (error) {
+      // File nén vượt giới hạn giải nén (413)
+      detectError = error;
     }
-
-    const {
-      full_name,
-      applied_position,
-      status = "New",
-      resume_url,
-      skills = [],
-    } = body;
-
-    // ✅ Validation chi tiết
-    if (!full_name || typeof full_name !== 'string' || full_name.trim().length === 0) {
-      return new Response(
-        JSON.stringify({ error: "full_name is required and must be a non-empty string" }), 
-        { 
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
+    if (!resume_type) {
+      await removeResume(supabase, user.id, resume_url).catch((removeError) =>
+        console.error("Resume cleanup error:", removeError)
       );
-    }
-
-    if (!resume_url || typeof resume_url !== 'string') {
-      return new Response(
-        JSON.stringify({ error: "resume_url is required and must be a string" }), 
-        { 
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
+      if (detectError) throw detectError;
+      throw new ApiError(
+        415,
+        "UNSUPPORTED_FILE_TYPE",
+        "Unsupported resume file type. Allowed: PDF, DOCX, ODT, RTF, TXT"
       );
     }
 
-    // Validate URL format
+    resume_hash = await hashContent(resumeFile);
+
     try {
-      new URL(resume_url);
-    } catch {
-      return new Response(
-        JSON.stringify({ error: "resume_url must be a valid URL" }), 
-        { 
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+      resume_text = await extractResumeText(resumeFile, resume_type);
+      detected_skills = detectSkills(resume_text, taxonomy);
 
-    // Validate skills array
-    if (skills && !Array.isArray(skills)) {
-      return new Response(
-        JSON.stringify({ error: "skills must be an array" }), 
-        { 
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
+      // CV không phải PDF: lưu bản văn bản chuẩn hóa để xem trước
+      if (resume_type !== "pdf") {
+        resume_preview_url = await storeTextPreview(supabase, resume_url, resume_text);
+      }
+    } catch (extractError) {
+      // CV vượt giới hạn giải nén thì xóa file và trả 413
+      if (extractError instanceof ApiError) {
+        await removeResume(supabase, user.id, resume_url).catch((removeError) =>
+          console.error("Resume cleanup error:", removeError)
+        );
+        throw extractError;
+      }
+      console.error("Resume extraction error:", extractError);
+      // Không throw error, tiếp tục chỉ với kỹ năng nhập tay
     }
+  }
 
-    // Validate status
-    const validStatuses = ["New", "Screening", "Interviewing", "Hired", "Rejected"];
-    if (status && !validStatuses.includes(status)) {
-      return new Response(
-        JSON.stringify({ error: `Invalid status. Must be one of: ${validStatuses.join(", ")}` }), 
-        { 
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+  const resume_mime_type = resume_type ? RESUME_MIME_TYPES[resume_type] : null;
 
-    // 🎯 Tính matching score nếu có applied_position và skills
-    let matching_score = 0;
-    
-    if (applied_position && skills.length > 0) {
-      try {
-        // Tìm job requirement với fuzzy matching
-        const { data: jobs, error: jobError } = await supabase
-          .from("job_requirements")
-          .select("id, title, required_skills")
-          .or(`title.ilike.%${applied_position}%,title.ilike.%${applied_position.split(' ').join('%')}%`)
-          .limit(1);
-
-        if (jobError) {
-          console.error("Job requirement query error:", jobError);
-          // Không throw error, tiếp tục với matching_score = 0
-        } else if (jobs && jobs.length > 0) {
-          const job = jobs[0] as JobRequirement;
-          const requiredSkills = job.required_skills || [];
-          
-          if (requiredSkills.length > 0) {
-            // Chuẩn hóa skills để so sánh (lowercase, trim)
-            const candidateSkills = skills.map(skill => 
-              skill.toLowerCase().trim()
-            );
-            const normalizedRequiredSkills = requiredSkills.map(skill => 
-              skill.toLowerCase().trim()
-            );
-
-            // Tìm skills khớp
-            const matched_skills = normalizedRequiredSkills.filter(requiredSkill =>
-              candidateSkills.some(candidateSkill =>
-                candidateSkill.includes(requiredSkill) || requiredSkill.includes(candidateSkill)
-              )
-            );
-
-            matching_score = Math.round((matched_skills.length / normalizedRequiredSkills.length) * 100);
-          }
-        }
-      } catch (matchingError) {
-        console.error("Matching score calculation error:", matchingError);
-        // Không throw error, tiếp tục với matching_score = 0
+  // Gộp kỹ năng nhập tay với kỹ năng nhận diện từ CV trước khi tính điểm
+  const allSkills = mergeSkills(skills, detected_skills, taxonomy);
+
+  // 🧑‍💼 Số năm kinh nghiệm, cấp bậc và học vấn trích từ nội dung CV
+  const experience = extractExperience(resume_text, taxonomy);
+
+  if (existingCandidate) {
+    // Bỏ qua nếu CV trùng nội dung với một phiên bản đã lưu
+    if (resume_hash) {
+      const { data: sameVersion } = await supabase
+        .from("candidate_resumes")
+        .select("*")
+        .eq("candidate_id", existingCandidate.id)
+        .eq("content_hash", resume_hash)
+        .limit(1)
+        .maybeSingle();
+
+      if (sameVersion) {
+        return ctx.json({ resume: sameVersion, unchanged: true });
       }
     }
 
-    // 💾 Insert candidate vào database - CHỈ với các trường có trong schema
-    const candidateData = {
-      user_id: user.id,
-      full_name: full_name.trim(),
-      applied_position: applied_position?.trim() || null,
-      status,
-      resume_url,
-      skills: skills.length > 0 ? skills : null,
-      matching_score,
-    };
+    const candidateSkills = mergeSkills(existingCandidate.skills ?? [], allSkills, taxonomy);
+    const versionMatch: PositionMatch | null = job ? scoreForJob(candidateSkills, job, taxonomy, experience) : null;
 
-    const { data: candidate, error: insertError } = await supabase
-      .from("candidates")
-      .insert(candidateData)
-      .select(`
-        id,
-        full_name,
-        applied_position,
-        status,
-        resume_url,
-        skills,
-        matching_score,
-        created_at
-      `)
+    const { data: resume, error: attachError } = await supabase
+      .rpc("attach_candidate_resume", {
+        p_user_id: user.id,
+        p_candidate_id: existingCandidate.id,
+        p_file_url: resume_url,
+        p_file_name: file_name ?? null,
+        p_content_hash: resume_hash,
+        p_resume_text: resume_text,
+        p_preview_url: resume_preview_url,
+        p_mime_type: resume_mime_type,
+        p_skills: candidateSkills.length > 0 ? candidateSkills : null,
+        p_detected_skills: detected_skills.length > 0 ? detected_skills : null,
+        p_matching_score: versionMatch?.score ?? 0,
+      })
       .single();
 
-    if (insertError) {
-      console.error("Database insert error:", insertError);
-      
-      // Xử lý lỗi constraint violation
-      if (insertError.code === '23505') { // Unique violation
-        return new Response(
-          JSON.stringify({ error: "Candidate with these details already exists" }), 
-          { 
-            status: 409,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          }
-        );
-      }
-      
-      return new Response(
-        JSON.stringify({ error: "Failed to create candidate: " + insertError.message }), 
-        { 
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
+    if (attachError) {
+      throw databaseError("Failed to attach resume", attachError);
     }
 
-    // ✅ Success response
-    return new Response(
-      JSON.stringify({ 
-        candidate,
-        matching_info: {
-          score: matching_score,
-          // Có thể thêm thông tin matching khác nếu cần
-        }
-      }), 
-      {
-        status: 201,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
+    // Ghi kỹ năng bắt buộc còn thiếu, job và thời điểm chấm điểm; CV mới đọc được thì cập nhật cả kinh nghiệm
+    const { error: flagError } = await supabase
+      .from("candidates")
+      .update({ ...toScoreColumns(versionMatch), ...(resume_text ? experience : {}) })
+      .eq("id", existingCandidate.id);
+    if (flagError) console.error("Score metadata update error:", flagError);
+
+    // 📝 Cập nhật chỉ mục nội dung CV theo phiên bản mới
+    await indexCandidateResume(supabase, user.id, existingCandidate.id, resume_text).catch((indexError) =>
+      console.error("Resume index error:", indexError)
     );
 
-  } catch (err: any) {
-    console.error("Unexpected error:", err);
+    return ctx.json({
+      resume,
+      matching_info: {
+        score: versionMatch?.score ?? 0,
+        detected_skills,
+        experience,
+        ...versionMatch,
+      },
+    });
+  }
+
+  // 🔎 Phát hiện hồ sơ trùng theo tên chuẩn hóa, nội dung CV và thông tin liên hệ
+  const contactInfo = extractContactInfo(resume_text ?? "");
+  const duplicateKeys = {
+    normalized_name: normalizeName(full_name),
+    resume_hash,
+    email: email ? normalizeEmail(email) : contactInfo.email,
+    phone: phone ? normalizePhone(phone) : contactInfo.phone,
+  };
+
+  let duplicates: PossibleDuplicate[] = [];
+  try {
+    duplicates = await findPossibleDuplicates(supabase, user.id, duplicateKeys);
+  } catch (duplicateError) {
+    console.error("Duplicate detection error:", duplicateError);
+    // Không throw error, vẫn tạo hồ sơ
+  }
+
+  // 🎯 Tính matching score theo job đã chọn (không có job thì matching_score = 0)
+  const skillMatch: PositionMatch | null = job ? scoreForJob(allSkills, job, taxonomy, experience) : null;
+
+  const matching_score = skillMatch?.score ?? 0;
+
+  // 💾 Insert candidate vào database - CHỈ với các trường có trong schema
+  const candidateData = {
+    user_id: user.id,
+    full_name: full_name.trim(),
+    applied_position: applied_position?.trim() || job?.title || null,
+    status,
+    resume_url,
+    skills: allSkills.length > 0 ? allSkills : null,
+    detected_skills: detected_skills.length > 0 ? detected_skills : null,
+    resume_text,
+    resume_preview_url,
+    resume_mime_type,
+    ...experience,
+    ...duplicateKeys,
+    possible_duplicate_ids: duplicates.length > 0 ? duplicates.map((d) => d.id) : null,
+    ...toScoreColumns(skillMatch),
+  };
+
+  const { data: candidate, error: insertError } = await supabase
+    .from("candidates")
+    .insert(candidateData)
+    .select(`
+      id,
+      full_name,
+      applied_position,
+      status,
+      resume_url,
+      resume_preview_url,
+      skills,
+      detected_skills,
+      email,
+      phone,
+      possible_duplicate_ids,
+      matching_score,
+      missing_must_haves,
+      total_years_experience,
+      seniority,
+      education_level,
+      created_at
+    `)
+    .single();
+
+  if (insertError) {
+    // Xử lý lỗi constraint violation
+    if (insertError.code === '23505') { // Unique violation
+      throw new ApiError(409, "DUPLICATE_CANDIDATE", "Candidate with these details already exists");
+    }
     
-    return new Response(
-      JSON.stringify({ 
-        error: "Internal server error",
-        details: process.env.NODE_ENV === 'development' ? err.message : undefined
-      }), 
-      { 
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
+    throw databaseError("Failed to create candidate", insertError);
+  }
+
+  // Phiên bản CV đầu tiên được tạo bởi trigger, bổ sung tên file gốc
+  if (file_name) {
+    const { error: resumeError } = await supabase
+      .from("candidate_resumes")
+      .update({ file_name })
+      .eq("candidate_id", candidate.id)
+      .eq("is_current", true);
+    if (resumeError) console.error("Resume version update error:", resumeError);
   }
-});
\ No newline at end of file
+
+  // 📝 Thêm CV vào chỉ mục nội dung của user
+  await indexCandidateResume(supabase, user.id, candidate.id, resume_text).catch((indexError) =>
+    console.error("Resume index error:", indexError)
+  );
+
+  // ✅ Success response
+  return ctx.json({
+    candidate,
+    matching_info: {
+      score: matching_score,
+      detected_skills,
+      experience,
+      ...skillMatch,
+    },
+    duplicates,
+  }, 201);
+}));
\ No newline at end of file
@@ -1,145 +1,143 @@
 // supabase/functions/get-candidates/index.ts
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import {
+  authenticate,
+  createHandler,
+  databaseError,
+  type FieldError,
+  readJson,
+  validationError,
+} from "../_shared/http.ts";
+import {
+  CANDIDATE_LIST_COLUMNS,
+  CANDIDATE_SORTS,
+  type CandidateCursor,
+  type CandidateFilters,
+  type CandidateSort,
+  cursorFilter,
+  decodeCursor,
+  DEFAULT_CANDIDATE_SORT,
+  encodeCursor,
+  normalizeCandidateFilters,
+  queryCandidates,
+  validateCandidateFilters,
+} from "../_shared/candidateQuery.ts";
+import { loadSkillTaxonomy } from "../_shared/skills.ts";
 
 interface PaginationParams {
   cursor?: string;
   limit?: number;
-  direction: 'forward' | 'backward';
-  sortBy: 'created_at' | 'id';
+  // forward: trang sau bản ghi cuối; backward: trang trước bản ghi đầu (theo thứ tự sort)
+  direction?: 'forward' | 'backward';
+  filters?: CandidateFilters;
+  sort?: CandidateSort;
 }
 
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders });
-  }
+const MAX_LIMIT = 100;
 
-  try {
-    const authHeader = req.headers.get("authorization") || "";
-    const token = authHeader.replace("Bearer ", "");
-    
-    if (!token) {
-      return new Response(
-        JSON.stringify({ error: "Missing access token" }), 
-        { 
-          status: 401,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+// Hồ sơ có thể trùng nằm ở trang khác: trả kèm thông tin tối thiểu để hiển thị và gộp
+const DUPLICATE_COLUMNS = "id, full_name, applied_position, created_at";
 
-    const supabaseUrl = Deno.env.get("SUPABASE_URL");
-    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-    
-    if (!supabaseUrl || !serviceKey) {
-      return new Response(
-        JSON.stringify({ error: "Server configuration error" }), 
-        { 
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+serve(createHandler("get-candidate", async (req, ctx) => {
+  const { supabase, user } = await authenticate(req);
 
-    const supabase = createClient(supabaseUrl, serviceKey);
-
-    // Xác thực user
-    const { data: userData, error: userError } = await supabase.auth.getUser(token);
-    if (userError || !userData?.user) {
-      return new Response(
-        JSON.stringify({ error: "Invalid token" }), 
-        { 
-          status: 401,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+  const { cursor, limit = 10, direction = 'forward', filters: rawFilters = {}, sort = DEFAULT_CANDIDATE_SORT } =
+    await readJson<PaginationParams>(req, true);
 
-    const user = userData.user;
-    const { cursor, limit = 10, direction = 'forward', sortBy = 'created_at' }: PaginationParams = await req.json();
-
-    // Validate parameters
-    if (limit > 100) {
-      return new Response(
-        JSON.stringify({ error: "Limit cannot exceed 100" }), 
-        { 
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+  // Validate parameters
+  const fieldErrors: FieldError[] = [];
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    fieldErrors.push({ field: "limit", message: `limit must be an integer between 1 and ${MAX_LIMIT}` });
+  }
+  if (direction !== 'forward' && direction !== 'backward') {
+    fieldErrors.push({ field: "direction", message: "direction must be 'forward' or 'backward'" });
+  }
+  if (!Object.hasOwn(CANDIDATE_SORTS, sort)) {
+    fieldErrors.push({ field: "sort", message: `sort must be one of: ${Object.keys(CANDIDATE_SORTS).join(", ")}` });
+  }
+  let position: CandidateCursor | null = null;
+  if (cursor !== undefined && cursor !== null) {
+    position = typeof cursor === "string" ? decodeCursor(cursor) : null;
+    // Cursor của cách sắp xếp khác không dùng được
+    if (!position || position.sort !== sort) fieldErrors.push({ field: "cursor", message: "cursor is invalid" });
+  }
+  fieldErrors.push(...validateCandidateFilters(rawFilters));
+  if (fieldErrors.length > 0) throw validationError(fieldErrors);
 
-    let query = supabase
-      .from("candidates")
-      .select("*")
-      .eq("user_id", user.id);
-
-    // Cursor-based pagination logic
-    if (cursor) {
-      if (direction === 'forward') {
-        // Load next page - records after cursor
-        query = query.lt(sortBy, cursor);
-      } else {
-        // Load previous page - records before cursor
-        query = query.gt(sortBy, cursor);
-      }
-    }
+  const filters = rawFilters.skills?.length
+    ? normalizeCandidateFilters(rawFilters, await loadSkillTaxonomy(supabase))
+    : rawFilters;
 
-    // Always order by sortBy descending for consistent pagination
-    query = query.order(sortBy, { ascending: false }).limit(limit);
+  // Trang trước được đọc theo chiều ngược từ cursor rồi đảo lại,
+  // nên cả hai chiều đều trả về đúng thứ tự hiển thị
+  const backward = direction === 'backward';
+  const { column, ascending } = CANDIDATE_SORTS[sort];
+  let query = queryCandidates(supabase, user.id, filters, CANDIDATE_LIST_COLUMNS);
 
-    const { data: candidates, error } = await query;
+  if (position) {
+    query = query.or(cursorFilter(position, !backward));
+  }
 
-    if (error) {
-      throw error;
-    }
+  // Lấy dư một bản ghi để biết còn trang tiếp theo theo chiều đang đi hay không
+  const [{ data, error }, { count, error: countError }] = await Promise.all([
+    query
+      .order(column, { ascending: ascending !== backward, nullsFirst: backward })
+      .order("id", { ascending: ascending !== backward })
+      .limit(limit + 1),
+    queryCandidates(supabase, user.id, filters, "id", { count: "exact", head: true }),
+  ]);
+
+  if (error) {
+    throw databaseError("Failed to fetch candidates", error);
+  }
+  if (countError) {
+    throw databaseError("Failed to count candidates", countError);
+  }
 
-    // Calculate pagination metadata
-    const hasNextPage = candidates.length === limit;
-    const hasPreviousPage = !!cursor;
-    
-    const startCursor = candidates.length > 0 ? candidates[0][sortBy] : null;
-    const endCursor = candidates.length > 0 ? candidates[candidates.length - 1][sortBy] : null;
-
-    const result = {
-      candidates,
-      pagination: {
-        hasNextPage,
-        hasPreviousPage,
-        startCursor,
-        endCursor,
-        totalCount: candidates.length,
-        sortBy,
-        direction
-      }
-    };
-
-    return new Response(
-      JSON.stringify(result), 
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      }
-    );
-
-  } catch (err: any) {
-    console.error("Pagination error:", err);
-    
-    return new Response(
-      JSON.stringify({ 
-        error: err?.message ?? "Unknown error",
-        details: err?.details || null 
-      }), 
-      { 
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
+  const rows = data ?? [];
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+  const candidates = backward ? page.reverse() : page;
+
+  // Calculate pagination metadata
+  const hasNextPage = backward ? !!position : hasMore;
+  const hasPreviousPage = backward ? hasMore : !!position;
+
+  const first = candidates[0];
+  const last = candidates[candidates.length - 1];
+  const startCursor = first ? encodeCursor(sort, first) : null;
+  const endCursor = last ? encodeCursor(sort, last) : null;
+
+  // 👥 Thông tin các hồ sơ có thể trùng không nằm trong trang này
+  const pageIds = new Set(candidates.map((candidate) => candidate.id));
+  const duplicateIds = [...new Set(
+    candidates.flatMap((candidate) => (candidate.possible_duplicate_ids ?? []) as string[])
+  )].filter((id) => !pageIds.has(id));
+
+  let duplicates: unknown[] = [];
+  if (duplicateIds.length > 0) {
+    const { data: duplicateRows, error: duplicateError } = await supabase
+      .from("candidates")
+      .select(DUPLICATE_COLUMNS)
+      .eq("user_id", user.id)
+      .in("id", duplicateIds);
+    if (duplicateError) console.error("Duplicate lookup error:", duplicateError);
+    duplicates = duplicateRows ?? [];
   }
-});
\ No newline at end of file
+
+  const result = {
+    candidates,
+    duplicates,
+    pagination: {
+      hasNextPage,
+      hasPreviousPage,
+      startCursor,
+      endCursor,
+      totalCount: count ?? 0,
+      sort,
+      direction
+    }
+  };
+
+  return ctx.json(result);
+}));
@@ -0,0 +1,312 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import {
+  authenticate,
+  createHandler,
+  type FieldError,
+  readJson,
+  validationError,
+} from "../_shared/http.ts";
+import { csvToRecords } from "../_shared/csv.ts";
+import { type CandidateInput, validateCandidateInput } from "../_shared/candidate.ts";
+import {
+  findJobRequirement,
+  type JobRequirement,
+  type PositionMatch,
+  scoreForJob,
+  toScoreColumns,
+} from "../_shared/matching.ts";
+import { normalizeEmail, normalizeName, normalizePhone } from "../_shared/duplicates.ts";
+import { loadSkillTaxonomy, mergeSkills } from "../_shared/skills.ts";
+
+const MAX_IMPORT_ROWS = 1000;
+
+// Số dòng mỗi lần insert; lô lỗi được insert lại từng dòng để biết dòng nào gây lỗi
+const INSERT_CHUNK_SIZE = 50;
+
+const IMPORT_FIELDS = [
+  "full_name",
+  "applied_position",
+  "status",
+  "skills",
+  "resume_url",
+  "email",
+  "phone",
+] as const;
+
+type ImportField = typeof IMPORT_FIELDS[number];
+
+interface ImportRequest {
+  format: "csv" | "json";
+  data: string | Record<string, unknown>[];
+  mapping?: Partial<Record<ImportField, string>>;
+  dry_run?: boolean;
+}
+
+interface ImportRowReport {
+  row: number;
+  status: "valid" | "created" | "error";
+  errors: FieldError[];
+  candidate_id?: string;
+  matching_score?: number;
+  missing_must_haves?: string[];
+  possible_duplicate_ids?: string[];
+  // Các dòng khác trong cùng file có cùng tên chuẩn hóa
+  duplicate_rows?: number[];
+  data: Partial<CandidateInput>;
+}
+
+// Ánh xạ mặc định: cột trùng tên trường (không phân biệt hoa thường, khoảng trắng, gạch dưới)
+function buildDefaultMapping(columns: string[]): Partial<Record<ImportField, string>> {
+  const normalize = (value: string) => value.toLowerCase().replace(/[\s_-]/g, "");
+  const mapping: Partial<Record<ImportField, string>> = {};
+
+  IMPORT_FIELDS.forEach((field) => {
+    const column = columns.find((c) => normalize(c) === normalize(field));
+    if (column) mapping[field] = column;
+  });
+
+  return mapping;
+}
+
+function toText(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  const text = String(value).trim();
+  return text.length > 0 ? text : undefined;
+}
+
+// Kỹ năng có thể là mảng (JSON) hoặc chuỗi phân tách bởi , ; | (CSV). Kiểu khác được giữ nguyên
+// để validateCandidateInput báo lỗi theo dòng
+function toSkills(value: unknown): unknown {
+  if (value === null || value === undefined || value === "") return undefined;
+  if (Array.isArray(value)) return value.map((skill) => String(skill).trim()).filter(Boolean);
+  if (typeof value === "string") return value.split(/[,;|]/).map((skill) => skill.trim()).filter(Boolean);
+  return value;
+}
+
+function mapRecord(
+  record: Record<string, unknown>,
+  mapping: Partial<Record<ImportField, string>>
+): Partial<CandidateInput> {
+  const pick = (field: ImportField) => (mapping[field] ? record[mapping[field]!] : undefined);
+
+  return {
+    full_name: toText(pick("full_name")),
+    applied_position: toText(pick("applied_position")),
+    status: toText(pick("status")) ?? "New",
+    resume_url: toText(pick("resume_url")),
+    // Chưa chắc là mảng, chỉ dùng như string[] sau khi validate
+    skills: toSkills(pick("skills")) as string[] | undefined,
+    email: toText(pick("email")),
+    phone: toText(pick("phone")),
+  };
+}
+
+serve(createHandler("import-candidates", async (req, ctx) => {
+  const { supabase, user } = await authenticate(req);
+
+  // 📥 Parse request body
+  const body = await readJson<ImportRequest>(req);
+  const { format, data, dry_run = false } = body;
+
+  if (format !== "csv" && format !== "json") {
+    throw validationError([{ field: "format", message: "format must be 'csv' or 'json'" }]);
+  }
+
+  // 📄 Đọc dữ liệu CSV hoặc JSON thành danh sách bản ghi
+  let records: Record<string, unknown>[];
+  try {
+    if (format === "csv") {
+      if (typeof data !== "string") throw new Error("CSV data must be a string");
+      records = csvToRecords(data);
+    } else {
+      const parsed = typeof data === "string" ? JSON.parse(data) : data;
+      if (!Array.isArray(parsed)) throw new Error("JSON data must be an array of candidates");
+      records = parsed;
+    }
+  } catch (parseError) {
+    throw validationError([{ field: "data", message: (parseError as Error).message }]);
+  }
+
+  if (records.length === 0) {
+    throw validationError([{ field: "data", message: "No rows to import" }]);
+  }
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw validationError([
+      { field: "data", message: `Cannot import more than ${MAX_IMPORT_ROWS} rows at once` },
+    ]);
+  }
+
+  const columns = [...new Set(records.flatMap((record) => Object.keys(record ?? {})))];
+  const mapping = body.mapping ?? buildDefaultMapping(columns);
+
+  // ✅ Validate từng dòng giống create-candidate
+  const jobCache = new Map<string, JobRequirement | null>();
+  const taxonomy = await loadSkillTaxonomy(supabase);
+  const matches = new Map<number, PositionMatch>();
+  const reports: ImportRowReport[] = [];
+
+  for (const [index, record] of records.entries()) {
+    const candidate = mapRecord(record ?? {}, mapping);
+    const errors = validateCandidateInput(candidate);
+    const report: ImportRowReport = { row: index + 1, status: "valid", errors, data: candidate };
+
+    if (errors.length > 0) {
+      report.status = "error";
+    } else {
+      // Chuẩn hóa kỹ năng theo taxonomy sau khi dòng đã hợp lệ
+      if (candidate.skills) candidate.skills = mergeSkills(candidate.skills, [], taxonomy);
+
+      // 🎯 Tính matching score, cache job requirement theo vị trí
+      report.matching_score = 0;
+      const position = candidate.applied_position;
+      const skills = candidate.skills ?? [];
+
+      if (position && skills.length > 0) {
+        try {
+          if (!jobCache.has(position)) {
+            jobCache.set(position, await findJobRequirement(supabase, position));
+          }
+          const job = jobCache.get(position);
+          if (job) {
+            const skillMatch = scoreForJob(skills, job, taxonomy);
+            matches.set(report.row, skillMatch);
+            report.matching_score = skillMatch.score;
+            report.missing_must_haves = skillMatch.missing_must_haves;
+          }
+        } catch (matchingError) {
+          console.error("Matching score calculation error:", matchingError);
+        }
+      }
+    }
+
+    reports.push(report);
+  }
+
+  const validReports = reports.filter((r) => r.status === "valid");
+
+  // 🔎 Đánh dấu hồ sơ có thể trùng theo tên chuẩn hóa (trong DB và trong chính file)
+  const normalizedNames = validReports.map((r) => normalizeName(r.data.full_name!));
+  const existingIds = new Map<number, string[]>();
+  if (normalizedNames.length > 0) {
+    const { data: existing, error: duplicateError } = await supabase
+      .from("candidates")
+      .select("id, normalized_name")
+      .eq("user_id", user.id)
+      .in("normalized_name", [...new Set(normalizedNames)]);
+
+    if (duplicateError) {
+      console.error("Duplicate detection error:", duplicateError);
+    } else {
+      validReports.forEach((report, index) => {
+        const ids = (existing ?? [])
+          .filter((c) => c.normalized_name === normalizedNames[index])
+          .map((c) => c.id);
+        if (ids.length > 0) {
+          report.possible_duplicate_ids = ids;
+          existingIds.set(report.row, ids);
+        }
+      });
+    }
+  }
+
+  // Dòng trùng tên trong cùng file được liên kết với nhau
+  const rowsByName = new Map<string, ImportRowReport[]>();
+  validReports.forEach((report, index) => {
+    rowsByName.set(normalizedNames[index], [...(rowsByName.get(normalizedNames[index]) ?? []), report]);
+  });
+  rowsByName.forEach((group) => {
+    if (group.length < 2) return;
+    group.forEach((report) => {
+      report.duplicate_rows = group.filter((other) => other !== report).map((other) => other.row);
+    });
+  });
+
+  // 💾 Insert các dòng hợp lệ theo lô (trừ khi dry run)
+  if (!dry_run && validReports.length > 0) {
+    const toRow = (report: ImportRowReport, index: number) => {
+      const { full_name, applied_position, status, resume_url, skills = [], email, phone } = report.data;
+      return {
+        user_id: user.id,
+        full_name: full_name!.trim(),
+        applied_position: applied_position || null,
+        status,
+        resume_url,
+        skills: skills.length > 0 ? skills : null,
+        normalized_name: normalizedNames[index],
+        email: email ? normalizeEmail(email) : null,
+        phone: phone ? normalizePhone(phone) : null,
+        possible_duplicate_ids: existingIds.get(report.row) ?? null,
+        ...toScoreColumns(matches.get(report.row) ?? null),
+      };
+    };
+
+    for (let start = 0; start < validReports.length; start += INSERT_CHUNK_SIZE) {
+      const chunk = validReports.slice(start, start + INSERT_CHUNK_SIZE);
+      const { data: inserted, error: insertError } = await supabase
+        .from("candidates")
+        .insert(chunk.map((report, offset) => toRow(report, start + offset)))
+        .select("id");
+
+      if (!insertError) {
+        chunk.forEach((report, offset) => {
+          report.status = "created";
+          report.candidate_id = inserted?.[offset]?.id;
+        });
+        continue;
+      }
+
+      // Lô lỗi: insert lại từng dòng để gắn lỗi thật vào đúng dòng
+      for (const [offset, report] of chunk.entries()) {
+        const { data: single, error: rowError } = await supabase
+          .from("candidates")
+          .insert(toRow(report, start + offset))
+          .select("id")
+          .single();
+
+        if (rowError) {
+          console.error("Database insert error:", rowError);
+          report.status = "error";
+          report.errors = [{ field: "row", message: "Failed to create candidate: " + rowError.message }];
+        } else {
+          report.status = "created";
+          report.candidate_id = single.id;
+        }
+      }
+    }
+
+    // 🔗 Liên kết các hồ sơ trùng tên vừa tạo từ cùng file
+    for (const group of rowsByName.values()) {
+      const created = group.filter((report) => report.candidate_id);
+      if (created.length < 2) continue;
+
+      for (const report of created) {
+        const ids = [
+          ...(existingIds.get(report.row) ?? []),
+          ...created.filter((other) => other !== report).map((other) => other.candidate_id!),
+        ];
+        const { error: linkError } = await supabase
+          .from("candidates")
+          .update({ possible_duplicate_ids: ids })
+          .eq("id", report.candidate_id!);
+
+        if (linkError) console.error("Duplicate link error:", linkError);
+        else report.possible_duplicate_ids = ids;
+      }
+    }
+  }
+
+  // ✅ Báo cáo theo từng dòng
+  return ctx.json({
+    dry_run,
+    columns,
+    mapping,
+    summary: {
+      total: reports.length,
+      valid: reports.filter((r) => r.status !== "error").length,
+      created: reports.filter((r) => r.status === "created").length,
+      failed: reports.filter((r) => r.status === "error").length,
+    },
+    rows: reports,
+  });
+}));
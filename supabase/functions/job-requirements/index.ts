@@ -0,0 +1,187 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  ApiError,
+  authenticate,
+  createHandler,
+  databaseError,
+  readJson,
+  validationError,
+} from "../_shared/http.ts";
+import {
+  type JobRequirementInput,
+  normalizeSkillRequirements,
+  validateJobRequirementInput,
+} from "../_shared/job.ts";
+import { escapeLikePattern, type JobRequirement, UUID_PATTERN } from "../_shared/matching.ts";
+import { rediscoverCandidates } from "../_shared/rediscovery.ts";
+import { rescoreCandidates } from "../_shared/rescoring.ts";
+import { loadSkillTaxonomy, mergeSkills } from "../_shared/skills.ts";
+
+const JOB_REQUIREMENT_FIELDS =
+  "id, title, description, department, is_open, required_skills, skill_requirements, min_years_experience, version, created_by, created_at, updated_at";
+
+serve(createHandler("job-requirements", async (req, ctx) => {
+  const { supabase, user } = await authenticate(req);
+
+  const url = new URL(req.url);
+  const id = url.searchParams.get("id");
+  if (id !== null && !UUID_PATTERN.test(id)) {
+    throw validationError([{ field: "id", message: "id must be a valid UUID" }]);
+  }
+
+  // Vị trí dùng chung cho cả nhóm nhưng chỉ người tạo (hoặc admin) được sửa / xóa,
+  // vì sửa yêu cầu sẽ chấm lại ứng viên của mọi user đang gắn với vị trí
+  const isAdmin = user.app_metadata?.role === "admin";
+
+  // 📋 Danh sách vị trí (open_only=true để chỉ lấy vị trí đang tuyển)
+  if (req.method === "GET") {
+    let query = supabase
+      .from("job_requirements")
+      .select(JOB_REQUIREMENT_FIELDS)
+      .order("is_open", { ascending: false })
+      .order("title", { ascending: true });
+
+    if (id) query = query.eq("id", id);
+    if (url.searchParams.get("open_only") === "true") query = query.eq("is_open", true);
+
+    const { data: jobs, error: listError } = await query;
+    if (listError) throw databaseError("Failed to fetch job requirements", listError);
+
+    return ctx.json({ job_requirements: jobs ?? [] });
+  }
+
+  // 🗑️ Xóa vị trí
+  if (req.method === "DELETE") {
+    if (!id) {
+      throw validationError([{ field: "id", message: "id query parameter is required" }]);
+    }
+
+    let deleteQuery = supabase
+      .from("job_requirements")
+      .delete()
+      .eq("id", id);
+    if (!isAdmin) deleteQuery = deleteQuery.eq("created_by", user.id);
+
+    const { data: deleted, error: deleteError } = await deleteQuery.select("id");
+
+    if (deleteError) throw databaseError("Failed to delete job requirement", deleteError);
+    if (!deleted || deleted.length === 0) {
+      throw new ApiError(404, "JOB_REQUIREMENT_NOT_FOUND", "Job requirement not found");
+    }
+
+    return ctx.json({ deleted_id: id });
+  }
+
+  if (req.method !== "POST" && req.method !== "PATCH") {
+    throw new ApiError(405, "METHOD_NOT_ALLOWED", "Method not allowed");
+  }
+
+  // 📥 Parse và validate request body
+  const body = await readJson<Partial<JobRequirementInput>>(req);
+
+  const isUpdate = req.method === "PATCH";
+  if (isUpdate && !id) {
+    throw validationError([{ field: "id", message: "id query parameter is required" }]);
+  }
+
+  const errors = validateJobRequirementInput(body, isUpdate);
+  if (errors.length > 0) throw validationError(errors);
+
+  // 🧱 Chỉ ghi các trường được phép; required_skills luôn suy ra từ skill_requirements
+  const taxonomy = await loadSkillTaxonomy(supabase);
+  const values: Record<string, unknown> = {};
+
+  if (body.title !== undefined) values.title = body.title.trim();
+  if (body.description !== undefined) values.description = body.description?.trim() || null;
+  if (body.department !== undefined) values.department = body.department?.trim() || null;
+  if (body.is_open !== undefined) values.is_open = body.is_open;
+  if (body.min_years_experience !== undefined) values.min_years_experience = body.min_years_experience;
+
+  if (body.skill_requirements !== undefined) {
+    const skillRequirements = normalizeSkillRequirements(body.skill_requirements, taxonomy);
+    values.skill_requirements = skillRequirements;
+    values.required_skills = skillRequirements.map((requirement) => requirement.skill);
+  } else if (body.required_skills !== undefined) {
+    values.required_skills = mergeSkills(body.required_skills, [], taxonomy);
+    values.skill_requirements = [];
+  }
+
+  // 🔎 Không cho phép hai vị trí trùng tiêu đề
+  if (values.title) {
+    const title = values.title as string;
+    let duplicateQuery = supabase
+      .from("job_requirements")
+      .select("id, title")
+      .ilike("title", escapeLikePattern(title));
+    if (id) duplicateQuery = duplicateQuery.neq("id", id);
+
+    // `*` trong tiêu đề được so như một ký tự bất kỳ, so lại chính xác ở đây
+    const { data: sameTitle } = await duplicateQuery;
+    if (sameTitle?.some((job) => job.title.toLowerCase() === title.toLowerCase())) {
+      throw new ApiError(409, "DUPLICATE_JOB_TITLE", "A job requirement with this title already exists");
+    }
+  }
+
+  if (isUpdate) {
+    let updateQuery = supabase
+      .from("job_requirements")
+      .update(values)
+      .eq("id", id);
+    if (!isAdmin) updateQuery = updateQuery.eq("created_by", user.id);
+
+    const { data: updated, error: updateError } = await updateQuery.select(JOB_REQUIREMENT_FIELDS);
+
+    if (updateError) throw databaseError("Failed to update job requirement", updateError);
+    if (!updated || updated.length === 0) {
+      throw new ApiError(404, "JOB_REQUIREMENT_NOT_FOUND", "Job requirement not found");
+    }
+
+    // 🔄 Yêu cầu kỹ năng hoặc kinh nghiệm đổi (version tăng) thì chấm lại các ứng viên đang gắn với job này
+    const requirementsChanged = values.required_skills !== undefined || values.min_years_experience !== undefined;
+    let rescored = 0;
+    if (requirementsChanged) {
+      try {
+        rescored = (await rescoreCandidates(supabase, { jobRequirementId: id!, staleOnly: true })).processed;
+      } catch (rescoreError) {
+        // Không throw error, ứng viên vẫn được đánh dấu điểm cũ để chấm lại sau
+        console.error("Rescore error:", rescoreError);
+      }
+    }
+
+    // 🔁 Vị trí được mở lại hoặc đổi yêu cầu thì quét lại kho ứng viên cũ
+    let rediscovered = 0;
+    if (updated[0].is_open && (values.is_open === true || requirementsChanged)) {
+      rediscovered = await tryRediscover(supabase, user.id, updated[0]);
+    }
+
+    return ctx.json({ job_requirement: updated[0], rescored, rediscovered });
+  }
+
+  const { data: created, error: insertError } = await supabase
+    .from("job_requirements")
+    .insert({ required_skills: [], ...values, created_by: user.id })
+    .select(JOB_REQUIREMENT_FIELDS)
+    .single();
+
+  if (insertError) throw databaseError("Failed to create job requirement", insertError);
+
+  // 🔁 Vị trí mới: tìm lại ứng viên cũ phù hợp trong kho của user
+  const rediscovered = created.is_open ? await tryRediscover(supabase, user.id, created) : 0;
+
+  return ctx.json({ job_requirement: created, rediscovered }, 201);
+}));
+
+// Lỗi khi quét lại không làm hỏng thao tác lưu vị trí; có thể quét lại thủ công sau
+async function tryRediscover(
+  supabase: SupabaseClient,
+  userId: string,
+  job: JobRequirement
+): Promise<number> {
+  try {
+    return (await rediscoverCandidates(supabase, userId, job)).suggested;
+  } catch (rediscoverError) {
+    console.error("Rediscovery error:", rediscoverError);
+    return 0;
+  }
+}
@@ -0,0 +1,71 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import {
+  ApiError,
+  authenticate,
+  createHandler,
+  databaseError,
+  readJson,
+  validationError,
+} from "../_shared/http.ts";
+import { rescoreCandidates } from "../_shared/rescoring.ts";
+
+interface MergeRequest {
+  primary_id: string;
+  duplicate_id: string;
+}
+
+serve(createHandler("merge-candidates", async (req, ctx) => {
+  const { supabase, user } = await authenticate(req);
+
+  // 📥 Parse request body
+  const { primary_id, duplicate_id } = await readJson<MergeRequest>(req);
+
+  const fieldErrors = [
+    ...(!primary_id || typeof primary_id !== 'string'
+      ? [{ field: "primary_id", message: "primary_id is required" }]
+      : []),
+    ...(!duplicate_id || typeof duplicate_id !== 'string'
+      ? [{ field: "duplicate_id", message: "duplicate_id is required" }]
+      : []),
+  ];
+  if (fieldErrors.length > 0) throw validationError(fieldErrors);
+
+  // 🔀 Gộp trong một transaction (xem migration merge_candidates)
+  const { data, error: mergeError } = await supabase
+    .rpc("merge_candidates", {
+      p_user_id: user.id,
+      p_primary_id: primary_id,
+      p_duplicate_id: duplicate_id,
+    })
+    .single();
+
+  if (mergeError) {
+    if (mergeError.code === 'P0002') {
+      throw new ApiError(404, "CANDIDATE_NOT_FOUND", "Candidate not found");
+    }
+
+    if (mergeError.code === '22023') {
+      throw validationError([{ field: "duplicate_id", message: mergeError.message }]);
+    }
+
+    throw databaseError("Failed to merge candidates", mergeError);
+  }
+
+  // 🔄 Kỹ năng đã được gộp, chấm lại điểm cho hồ sơ giữ lại
+  let candidate = data;
+  try {
+    await rescoreCandidates(supabase, { userId: user.id, candidateIds: [primary_id] });
+    const { data: rescored } = await supabase
+      .from("candidates")
+      .select("*")
+      .eq("id", primary_id)
+      .single();
+    if (rescored) candidate = rescored;
+  } catch (rescoreError) {
+    // Không throw error, hồ sơ vẫn được đánh dấu điểm cũ
+    console.error("Rescore error:", rescoreError);
+  }
+
+  // ✅ Success response
+  return ctx.json({ candidate, merged_id: duplicate_id });
+}));
@@ -1,15 +1,29 @@
 // supabase/functions/recommend-candidates/index.ts
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import {
+  ApiError,
+  authenticate,
+  createHandler,
+  databaseError,
+  readJson,
+  validationError,
+} from "../_shared/http.ts";
+import {
+  getSkillRequirements,
+  selectJobRequirement,
+} from "../_shared/matching.ts";
+import { VALID_STATUSES } from "../_shared/candidate.ts";
+import { loadRecommendationSettings } from "../_shared/recommendation.ts";
+import { loadLearnedModel } from "../_shared/learnedModel.ts";
+import { loadJobTextScores, rankCandidates } from "../_shared/candidateRanking.ts";
+import { loadSkillTaxonomy } from "../_shared/skills.ts";
 
 interface RecommendationRequest {
-  position: string;
+  position?: string;
+  job_requirement_id?: string; // chọn chính xác job, ưu tiên hơn position
   limit?: number;
+  exclude_statuses?: string[]; // ghi đè cấu hình đã lưu cho lần gọi này
+  use_learned_model?: boolean; // false để so sánh với công thức heuristic khi đã bật mô hình
 }
 
 interface Candidate {
@@ -18,311 +32,131 @@ interface Candidate {
   applied_position: string;
   status: string;
   resume_url: string;
+  resume_preview_url: string | null;
   skills: string[];
   matching_score: number;
   created_at: string;
+  total_years_experience: number | null;
+  skill_years: Record<string, number> | null;
+  seniority: string | null;
+  education_level: string | null;
 }
 
-interface JobRequirement {
-  id: string;
-  title: string;
-  required_skills: string[];
-}
-
-interface ScoredCandidate extends Candidate {
-  recommendation_score: number;
-  matched_skills: string[];
-  missing_skills: string[];
-  match_percentage: number;
-}
+serve(createHandler("recommend", async (req, ctx) => {
+  const { supabase, user } = await authenticate(req);
 
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders });
-  }
+  // 📥 Parse request body
+  const body = await readJson<RecommendationRequest>(req);
 
-  try {
-    // 🧠 Xác thực request
-    const authHeader = req.headers.get("authorization") || "";
-    const token = authHeader.replace("Bearer ", "");
-    
-    if (!token) {
-      return new Response(
-        JSON.stringify({ error: "Missing access token" }), 
-        { 
-          status: 401,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+  const { position, job_requirement_id, limit = 3, exclude_statuses, use_learned_model = true } = body;
 
-    // 🔐 Kiểm tra environment variables
-    const supabaseUrl = Deno.env.get("SUPABASE_URL");
-    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-    
-    if (!supabaseUrl || !serviceKey) {
-      console.error("Missing environment variables");
-      return new Response(
-        JSON.stringify({ error: "Server configuration error" }), 
-        { 
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+  if (!job_requirement_id && (!position || typeof position !== 'string')) {
+    throw validationError([{ field: "position", message: "Position or job_requirement_id is required" }]);
+  }
 
-    // 🚀 Khởi tạo Supabase client
-    const supabase = createClient(supabaseUrl, serviceKey, {
-      auth: {
-        autoRefreshToken: false,
-        persistSession: false
-      }
-    });
+  if (limit > 10) {
+    throw validationError([{ field: "limit", message: "Limit cannot exceed 10" }]);
+  }
 
-    // 👤 Xác thực user
-    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
-    
-    if (userError) {
-      console.error("User authentication error:", userError);
-      return new Response(
-        JSON.stringify({ error: "Authentication failed" }), 
-        { 
-          status: 401,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+  if (
+    exclude_statuses !== undefined &&
+    (!Array.isArray(exclude_statuses) || exclude_statuses.some((status) => !VALID_STATUSES.includes(status)))
+  ) {
+    throw validationError([{
+      field: "exclude_statuses",
+      message: `exclude_statuses must be an array of: ${VALID_STATUSES.join(", ")}`,
+    }]);
+  }
 
-    if (!user) {
-      return new Response(
-        JSON.stringify({ error: "Invalid token" }), 
-        { 
-          status: 401,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+  // ⚖️ Trọng số và trạng thái loại trừ theo cấu hình của user
+  const settings = await loadRecommendationSettings(supabase, user.id);
+  const excludedStatuses = (exclude_statuses ?? settings.exclude_statuses)
+    .filter((status) => VALID_STATUSES.includes(status));
 
-    // 📥 Parse request body
-    let body: RecommendationRequest;
-    try {
-      body = await req.json();
-    } catch (parseError) {
-      return new Response(
-        JSON.stringify({ error: "Invalid JSON body" }), 
-        { 
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+  // 🧠 Mô hình học từ kết quả tuyển dụng, chỉ dùng khi user đã bật
+  const learnedModel = use_learned_model ? await loadLearnedModel(supabase, user.id) : null;
 
-    const { position, limit = 3 } = body;
+  // 🔍 Tìm job requirement phù hợp (409 nếu tiêu đề khớp nhiều job)
+  const job = await selectJobRequirement(supabase, { job_requirement_id, position });
 
-    if (!position || typeof position !== 'string') {
-      return new Response(
-        JSON.stringify({ error: "Position is required" }), 
-        { 
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+  if (!job) {
+    throw new ApiError(404, "JOB_REQUIREMENT_NOT_FOUND", "No job requirements found for this position");
+  }
 
-    if (limit > 10) {
-      return new Response(
-        JSON.stringify({ error: "Limit cannot exceed 10" }), 
-        { 
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+  const requiredSkills = job.required_skills || [];
+  const skillRequirements = getSkillRequirements(job);
+  
+  if (skillRequirements.length === 0) {
+    throw new ApiError(400, "JOB_HAS_NO_SKILLS", "Job requirement has no required skills defined");
+  }
 
-    // 🔍 Tìm job requirement phù hợp
-    const { data: jobs, error: jobError } = await supabase
-      .from("job_requirements")
-      .select("id, title, required_skills")
-      .or(`title.ilike.%${position}%,title.ilike.%${position.split(' ').join('%')}%`)
-      .limit(1);
+  // 👥 Lấy tất cả candidates của user
+  let candidatesQuery = supabase
+    .from("candidates")
+    .select("id, full_name, applied_position, status, resume_url, resume_preview_url, skills, matching_score, created_at, total_years_experience, skill_years, seniority, education_level")
+    .eq("user_id", user.id)
+    .not("skills", "is", null);
 
-    if (jobError) {
-      console.error("Job requirement query error:", jobError);
-      return new Response(
-        JSON.stringify({ error: "Failed to find job requirements" }), 
-        { 
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+  // Bỏ qua ứng viên đã Hired / Rejected (giá trị đã kiểm tra theo VALID_STATUSES)
+  if (excludedStatuses.length > 0) {
+    candidatesQuery = candidatesQuery.not("status", "in", `(${excludedStatuses.join(",")})`);
+  }
 
-    if (!jobs || jobs.length === 0) {
-      return new Response(
-        JSON.stringify({ error: "No job requirements found for this position" }), 
-        { 
-          status: 404,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+  const { data: candidates, error: candidatesError } = await candidatesQuery;
 
-    const job = jobs[0] as JobRequirement;
-    const requiredSkills = job.required_skills || [];
-    
-    if (requiredSkills.length === 0) {
-      return new Response(
-        JSON.stringify({ error: "Job requirement has no required skills defined" }), 
-        { 
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+  if (candidatesError) {
+    throw databaseError("Failed to fetch candidates", candidatesError);
+  }
 
-    // 👥 Lấy tất cả candidates của user
-    const { data: candidates, error: candidatesError } = await supabase
-      .from("candidates")
-      .select("id, full_name, applied_position, status, resume_url, skills, matching_score, created_at")
-      .eq("user_id", user.id)
-      .not("skills", "is", null);
+  if (!candidates || candidates.length === 0) {
+    throw new ApiError(404, "NO_CANDIDATES", "No candidates with skills found");
+  }
 
-    if (candidatesError) {
-      console.error("Candidates query error:", candidatesError);
-      return new Response(
-        JSON.stringify({ error: "Failed to fetch candidates" }), 
-        { 
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
+  // 🏷️ Taxonomy kỹ năng để so khớp theo tên chuẩn và alias
+  const taxonomy = await loadSkillTaxonomy(supabase);
+
+  // 📝 Độ tương đồng nội dung CV với mô tả job (BM25 trên chỉ mục của user)
+  const textScores = await loadJobTextScores(supabase, user.id, job);
+
+  // 🎯 Tính toán recommendation scores và sắp xếp: ứng viên đủ kỹ năng bắt buộc trước
+  const scoredCandidates = rankCandidates(candidates as Candidate[], job, position || job.title, {
+    settings,
+    taxonomy,
+    learnedModel,
+    textScores,
+  });
+  const topCandidates = scoredCandidates.slice(0, limit);
+
+  // 📈 Tính statistics
+  const stats = {
+    total_candidates: candidates.length,
+    candidates_with_skills: candidates.filter(c => c.skills && c.skills.length > 0).length,
+    average_match_percentage: Math.round(
+      scoredCandidates.reduce((sum, c) => sum + c.match_percentage, 0) / scoredCandidates.length
+    ),
+    excluded_statuses: excludedStatuses,
+    weights: settings.weights,
+    scoring_model: learnedModel
+      ? { source: "learned", trained_at: learnedModel.trained_at }
+      : { source: "heuristic" },
+    job_requirements: {
+      title: job.title,
+      required_skills: requiredSkills,
+      skill_requirements: skillRequirements,
+      min_years_experience: job.min_years_experience ?? null,
+      total_required_skills: skillRequirements.length
     }
-
-    if (!candidates || candidates.length === 0) {
-      return new Response(
-        JSON.stringify({ error: "No candidates with skills found" }), 
-        { 
-          status: 404,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
+  };
+
+  // ✅ Success response
+  return ctx.json({
+    recommendations: topCandidates,
+    statistics: stats,
+    job_requirement: {
+      id: job.id,
+      title: job.title,
+      required_skills: requiredSkills,
+      skill_requirements: skillRequirements
     }
-
-    // 🎯 Tính toán recommendation scores
-    const scoredCandidates: ScoredCandidate[] = candidates.map(candidate => {
-      const candidateSkills = candidate.skills || [];
-      
-      // Chuẩn hóa skills để so sánh
-      const normalizedCandidateSkills = candidateSkills.map(skill => 
-        skill.toLowerCase().trim()
-      );
-      const normalizedRequiredSkills = requiredSkills.map(skill => 
-        skill.toLowerCase().trim()
-      );
-
-      // Tìm skills khớp
-      const matched_skills = normalizedRequiredSkills.filter(requiredSkill =>
-        normalizedCandidateSkills.some(candidateSkill =>
-          candidateSkill.includes(requiredSkill) || requiredSkill.includes(candidateSkill)
-        )
-      );
-
-      // Tìm skills thiếu
-      const missing_skills = normalizedRequiredSkills.filter(requiredSkill =>
-        !normalizedCandidateSkills.some(candidateSkill =>
-          candidateSkill.includes(requiredSkill) || requiredSkill.includes(candidateSkill)
-        )
-      );
-
-      // Tính match percentage
-      const match_percentage = normalizedRequiredSkills.length > 0 
-        ? Math.round((matched_skills.length / normalizedRequiredSkills.length) * 100)
-        : 0;
-
-      // Tính recommendation score (có thể tùy chỉnh thuật toán)
-      let recommendation_score = match_percentage;
-
-      // Bonus points cho status phù hợp
-    //   const statusBonus = {
-    //     'New': 10,
-    //     'Screening': 5,
-    //     'Interviewing': 0,
-    //     'Hired': -20, // Trừ điểm nếu đã hired
-    //     'Rejected': -50 // Trừ điểm nếu đã rejected
-    //   }[candidate.status] || 0;
-
-    //   recommendation_score += statusBonus;
-
-      // Bonus points cho recency (ứng viên mới hơn)
-      const candidateAge = Date.now() - new Date(candidate.created_at).getTime();
-      const daysOld = candidateAge / (1000 * 60 * 60 * 24);
-      const recencyBonus = Math.max(0, 10 - (daysOld / 7)); // Giảm dần theo tuần
-      recommendation_score += recencyBonus;
-
-      // Bonus points nếu applied_position khớp
-      if (candidate.applied_position && 
-          candidate.applied_position.toLowerCase().includes(position.toLowerCase())) {
-        recommendation_score += 15;
-      }
-
-      return {
-        ...candidate,
-        recommendation_score: Math.max(0, Math.min(100, recommendation_score)), // Giới hạn 0-100
-        matched_skills,
-        missing_skills,
-        match_percentage
-      };
-    });
-
-    // 📊 Sắp xếp theo recommendation score
-    const topCandidates = scoredCandidates
-      .sort((a, b) => b.recommendation_score - a.recommendation_score)
-      .slice(0, limit);
-
-    // 📈 Tính statistics
-    const stats = {
-      total_candidates: candidates.length,
-      candidates_with_skills: candidates.filter(c => c.skills && c.skills.length > 0).length,
-      average_match_percentage: Math.round(
-        scoredCandidates.reduce((sum, c) => sum + c.match_percentage, 0) / scoredCandidates.length
-      ),
-      job_requirements: {
-        title: job.title,
-        required_skills: requiredSkills,
-        total_required_skills: requiredSkills.length
-      }
-    };
-
-    // ✅ Success response
-    return new Response(
-      JSON.stringify({ 
-        recommendations: topCandidates,
-        statistics: stats,
-        job_requirement: {
-          id: job.id,
-          title: job.title,
-          required_skills: requiredSkills
-        }
-      }), 
-      {
-        status: 200,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
-
-  } catch (err: any) {
-    console.error("Recommendation error:", err);
-    
-    return new Response(
-      JSON.stringify({ 
-        error: "Internal server error",
-        details: process.env.NODE_ENV === 'development' ? err.message : undefined
-      }), 
-      { 
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
-  }
-});
\ No newline at end of file
+  });
+}));
\ No newline at end of file
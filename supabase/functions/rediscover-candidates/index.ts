@@ -0,0 +1,36 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import {
+  ApiError,
+  authenticate,
+  createHandler,
+  readJson,
+  validationError,
+} from "../_shared/http.ts";
+import { selectJobRequirement } from "../_shared/matching.ts";
+import { rediscoverCandidates } from "../_shared/rediscovery.ts";
+
+interface RediscoverRequest {
+  job_requirement_id: string;
+}
+
+// Quét lại kho ứng viên cũ cho một vị trí (tự chạy khi tạo / mở lại vị trí, hoặc gọi thủ công)
+serve(createHandler("rediscover-candidates", async (req, ctx) => {
+  const { supabase, user } = await authenticate(req);
+
+  // 📥 Parse và validate request body
+  const { job_requirement_id } = await readJson<RediscoverRequest>(req);
+
+  if (!job_requirement_id) {
+    throw validationError([{ field: "job_requirement_id", message: "job_requirement_id is required" }]);
+  }
+
+  const job = await selectJobRequirement(supabase, { job_requirement_id });
+  if (!job) {
+    throw new ApiError(404, "JOB_REQUIREMENT_NOT_FOUND", "Job requirement not found");
+  }
+
+  const result = await rediscoverCandidates(supabase, user.id, job);
+
+  // ✅ Success response
+  return ctx.json({ job_requirement_id: job.id, ...result });
+}));
@@ -0,0 +1,28 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { authenticate, createHandler, readJson, validationError } from "../_shared/http.ts";
+import { rescoreCandidates } from "../_shared/rescoring.ts";
+
+interface RescoreRequest {
+  scope?: "stale" | "all";
+  job_requirement_id?: string;
+}
+
+serve(createHandler("rescore", async (req, ctx) => {
+  const { supabase, user } = await authenticate(req);
+
+  // 📥 Parse request body (body rỗng = chỉ chấm lại các điểm đã cũ)
+  const { scope = "stale", job_requirement_id } = await readJson<RescoreRequest>(req, true);
+
+  if (scope !== "stale" && scope !== "all") {
+    throw validationError([{ field: "scope", message: "scope must be 'stale' or 'all'" }]);
+  }
+
+  // 🔄 Chấm lại ứng viên của user hiện tại
+  const summary = await rescoreCandidates(supabase, {
+    userId: user.id,
+    jobRequirementId: job_requirement_id,
+    staleOnly: scope === "stale",
+  });
+
+  return ctx.json({ scope, summary });
+}));
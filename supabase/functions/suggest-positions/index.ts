@@ -0,0 +1,110 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import {
+  ApiError,
+  authenticate,
+  createHandler,
+  databaseError,
+  type FieldError,
+  readJson,
+  validationError,
+} from "../_shared/http.ts";
+import {
+  getSkillRequirements,
+  JOB_REQUIREMENT_COLUMNS,
+  type JobRequirement,
+  scoreForJob,
+  UUID_PATTERN,
+} from "../_shared/matching.ts";
+import { loadSkillTaxonomy } from "../_shared/skills.ts";
+
+interface SuggestPositionsRequest {
+  candidate_id: string;
+  limit?: number;
+}
+
+interface OpenPosition extends JobRequirement {
+  department: string | null;
+}
+
+const MAX_LIMIT = 20;
+
+// Gợi ý chiều ngược lại của recommend: chấm một ứng viên với mọi vị trí đang tuyển
+serve(createHandler("suggest-positions", async (req, ctx) => {
+  const { supabase, user } = await authenticate(req);
+
+  // 📥 Parse và validate request body
+  const { candidate_id, limit = 5 } = await readJson<SuggestPositionsRequest>(req);
+
+  const fieldErrors: FieldError[] = [];
+  if (!candidate_id || typeof candidate_id !== "string" || !UUID_PATTERN.test(candidate_id)) {
+    fieldErrors.push({ field: "candidate_id", message: "candidate_id must be a valid UUID" });
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    fieldErrors.push({ field: "limit", message: `limit must be an integer between 1 and ${MAX_LIMIT}` });
+  }
+  if (fieldErrors.length > 0) throw validationError(fieldErrors);
+
+  // 👤 Ứng viên phải thuộc user hiện tại
+  const { data: candidate, error: candidateError } = await supabase
+    .from("candidates")
+    .select("id, full_name, applied_position, skills, job_requirement_id, total_years_experience, skill_years")
+    .eq("id", candidate_id)
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (candidateError) throw databaseError("Failed to fetch candidate", candidateError);
+  if (!candidate) {
+    throw new ApiError(404, "CANDIDATE_NOT_FOUND", "Candidate not found");
+  }
+
+  // 📋 Các vị trí đang tuyển
+  const { data: jobs, error: jobsError } = await supabase
+    .from("job_requirements")
+    .select(`${JOB_REQUIREMENT_COLUMNS}, department`)
+    .eq("is_open", true);
+
+  if (jobsError) throw databaseError("Failed to fetch job requirements", jobsError);
+
+  // 🎯 Chấm điểm với từng vị trí có khai báo kỹ năng
+  const taxonomy = await loadSkillTaxonomy(supabase);
+  const scorable = ((jobs ?? []) as OpenPosition[])
+    .filter((job) => getSkillRequirements(job).length > 0);
+
+  const suggestions = scorable
+    .map((job) => {
+      const match = scoreForJob(candidate.skills || [], job, taxonomy, candidate);
+      return {
+        job_requirement_id: job.id,
+        title: job.title,
+        department: job.department,
+        score: match.score,
+        matched_skills: match.matched_skills,
+        missing_skills: match.missing_skills,
+        missing_must_haves: match.missing_must_haves,
+        meets_must_haves: match.meets_must_haves,
+        under_experienced_skills: match.under_experienced_skills,
+        is_applied_position: job.id === candidate.job_requirement_id,
+      };
+    })
+    // 📊 Vị trí đủ kỹ năng bắt buộc trước, sau đó theo điểm
+    .sort((a, b) =>
+      Number(b.meets_must_haves) - Number(a.meets_must_haves) ||
+      b.score - a.score
+    )
+    .slice(0, limit);
+
+  // ✅ Success response
+  return ctx.json({
+    candidate: {
+      id: candidate.id,
+      full_name: candidate.full_name,
+      applied_position: candidate.applied_position,
+      skills: candidate.skills || [],
+    },
+    suggestions,
+    statistics: {
+      open_positions: jobs?.length ?? 0,
+      scored_positions: scorable.length,
+    },
+  });
+}));
@@ -0,0 +1,213 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import {
+  ApiError,
+  authenticate,
+  createHandler,
+  databaseError,
+  readJson,
+  validationError,
+} from "../_shared/http.ts";
+import { JOB_REQUIREMENT_COLUMNS, type JobRequirement } from "../_shared/matching.ts";
+import {
+  combineScores,
+  loadRecommendationSettings,
+  positionScore,
+  recencyScore,
+  statusScore,
+} from "../_shared/recommendation.ts";
+import {
+  BASE_FEATURES,
+  extractFeatures,
+  precisionAtK,
+  predict,
+  skillFeatureName,
+  trainLogisticRegression,
+} from "../_shared/learnedModel.ts";
+import { loadJobTextScores } from "../_shared/candidateRanking.ts";
+import { expandSkills, loadSkillTaxonomy } from "../_shared/skills.ts";
+
+interface TrainWeightsRequest {
+  k?: number; // precision@k khi đánh giá, mặc định bằng limit mặc định của recommend
+}
+
+interface LabelledCandidate {
+  id: string;
+  skills: string[];
+  applied_position: string | null;
+  status: string;
+  matching_score: number | null;
+  created_at: string;
+  // Thời điểm chuyển sang Hired / Rejected
+  status_updated_at: string;
+  job_requirement_id: string;
+  total_years_experience: number | null;
+  skill_years: Record<string, number> | null;
+}
+
+const MAX_K = 10;
+
+// Cần đủ kết quả tuyển dụng của cả hai phía mới train được
+const MIN_SAMPLES = 20;
+const MIN_SAMPLES_PER_CLASS = 5;
+
+// Chỉ học trọng số cho kỹ năng xuất hiện đủ nhiều, tránh overfit vào kỹ năng hiếm
+const MIN_SKILL_SUPPORT = 5;
+const MAX_SKILL_FEATURES = 20;
+
+// Đánh giá trên 25% hồ sơ mới nhất, train trên phần còn lại
+const TEST_FRACTION = 0.25;
+
+// Học trọng số gợi ý từ kết quả Hired / Rejected của user, kèm báo cáo so với công thức hiện tại.
+// Mô hình mới train không tự bật: user xem báo cáo rồi quyết định
+serve(createHandler("train-weights", async (req, ctx) => {
+  const { supabase, user } = await authenticate(req);
+
+  // 📥 Parse và validate request body
+  const { k = 3 } = await readJson<TrainWeightsRequest>(req, true);
+
+  if (!Number.isInteger(k) || k < 1 || k > MAX_K) {
+    throw validationError([{ field: "k", message: `k must be an integer between 1 and ${MAX_K}` }]);
+  }
+
+  // 🏷️ Ứng viên đã có kết quả, gắn với job đã dùng để chấm điểm
+  const { data, error: candidatesError } = await supabase
+    .from("candidates")
+    .select("id, skills, applied_position, status, matching_score, created_at, status_updated_at, job_requirement_id, total_years_experience, skill_years")
+    .eq("user_id", user.id)
+    .in("status", ["Hired", "Rejected"])
+    .not("job_requirement_id", "is", null)
+    .order("created_at", { ascending: true });
+
+  if (candidatesError) throw databaseError("Failed to fetch candidates", candidatesError);
+
+  const labelled = (data || []) as LabelledCandidate[];
+  const jobIds = [...new Set(labelled.map((candidate) => candidate.job_requirement_id))];
+
+  const { data: jobRows, error: jobsError } = jobIds.length > 0
+    ? await supabase.from("job_requirements").select(JOB_REQUIREMENT_COLUMNS).in("id", jobIds)
+    : { data: [], error: null };
+
+  if (jobsError) throw databaseError("Failed to fetch job requirements", jobsError);
+
+  const jobs = new Map((jobRows as JobRequirement[]).map((job) => [job.id, job]));
+  const samples = labelled.filter((candidate) => jobs.has(candidate.job_requirement_id));
+
+  const hired = samples.filter((candidate) => candidate.status === "Hired").length;
+  const rejected = samples.length - hired;
+  if (samples.length < MIN_SAMPLES || hired < MIN_SAMPLES_PER_CLASS || rejected < MIN_SAMPLES_PER_CLASS) {
+    throw new ApiError(
+      422,
+      "INSUFFICIENT_TRAINING_DATA",
+      `Need at least ${MIN_SAMPLES} candidates with outcomes, including ${MIN_SAMPLES_PER_CLASS} Hired and ${MIN_SAMPLES_PER_CLASS} Rejected`,
+      { samples: samples.length, hired, rejected }
+    );
+  }
+
+  const taxonomy = await loadSkillTaxonomy(supabase);
+
+  // 📝 Điểm nội dung CV theo từng job, như recommend
+  const textScores = new Map<string, Map<string, number>>();
+  for (const job of jobs.values()) {
+    textScores.set(job.id, await loadJobTextScores(supabase, user.id, job));
+  }
+
+  // 🧩 Kỹ năng cụ thể đủ phổ biến để làm đặc trưng riêng
+  const skillCounts = new Map<string, number>();
+  samples.forEach((candidate) => {
+    expandSkills(candidate.skills || [], taxonomy).forEach((key) => {
+      skillCounts.set(key, (skillCounts.get(key) ?? 0) + 1);
+    });
+  });
+  const skillFeatures = [...skillCounts.entries()]
+    .filter(([, count]) => count >= MIN_SKILL_SUPPORT && count < samples.length)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_SKILL_FEATURES)
+    .map(([key]) => skillFeatureName(key));
+  const featureNames = [...BASE_FEATURES, ...skillFeatures];
+
+  // Recency tính tại thời điểm có kết quả, như khi hồ sơ đó được xét lúc ấy
+  const rows = samples.map((candidate) => {
+    const job = jobs.get(candidate.job_requirement_id)!;
+    const text_score = textScores.get(job.id)?.get(candidate.id) ?? 0;
+    const decidedAt = Date.parse(candidate.status_updated_at);
+    const features = extractFeatures({ ...candidate, text_score }, job, taxonomy, skillFeatures, decidedAt);
+    return {
+      candidate,
+      job,
+      text_score,
+      decidedAt,
+      features,
+      label: (candidate.status === "Hired" ? 1 : 0) as 0 | 1,
+    };
+  });
+
+  // 🧪 Đánh giá: train trên hồ sơ cũ, xếp hạng hồ sơ mới nhất theo job
+  const testStart = Math.floor(rows.length * (1 - TEST_FRACTION));
+  const trainRows = rows.slice(0, testStart);
+  const testRows = rows.slice(testStart);
+  const evaluationModel = trainLogisticRegression(trainRows, featureNames);
+
+  const settings = await loadRecommendationSettings(supabase, user.id);
+  const groupScores = (score: (row: typeof rows[number]) => number) => {
+    const groups = new Map<string, { scores: number[]; labels: (0 | 1)[] }>();
+    testRows.forEach((row) => {
+      const group = groups.get(row.job.id) ?? { scores: [], labels: [] };
+      group.scores.push(score(row));
+      group.labels.push(row.label);
+      groups.set(row.job.id, group);
+    });
+    return [...groups.values()];
+  };
+
+  const modelResult = precisionAtK(groupScores((row) => predict(evaluationModel, row.features)), k);
+  const heuristicResult = precisionAtK(
+    groupScores((row) =>
+      combineScores(
+        {
+          skills: row.features.skills * 100,
+          text: row.text_score,
+          recency: recencyScore(row.candidate.created_at, row.decidedAt),
+          position: positionScore(row.candidate.applied_position, row.job.title),
+          status: statusScore(row.candidate.status),
+          matching_score: row.candidate.matching_score ?? 0,
+        },
+        settings.weights
+      ).score
+    ),
+    k
+  );
+
+  const evaluation = {
+    k,
+    split: "temporal",
+    train_samples: trainRows.length,
+    test_samples: testRows.length,
+    jobs_evaluated: modelResult.jobs_evaluated,
+    model_precision: modelResult.precision,
+    heuristic_precision: heuristicResult.precision,
+  };
+
+  // 🧠 Mô hình cuối cùng train trên toàn bộ dữ liệu
+  const model = trainLogisticRegression(rows, featureNames);
+  const trained_at = new Date().toISOString();
+
+  // Không ghi cột enabled: train lại giữ nguyên lựa chọn bật/tắt của user
+  const { data: saved, error: saveError } = await supabase
+    .from("learned_scoring_models")
+    .upsert({
+      user_id: user.id,
+      weights: model.weights,
+      intercept: model.intercept,
+      training_samples: rows.length,
+      hired_samples: hired,
+      evaluation,
+      trained_at,
+    })
+    .select("weights, intercept, training_samples, hired_samples, evaluation, enabled, trained_at")
+    .single();
+
+  if (saveError) throw databaseError("Failed to save learned model", saveError);
+
+  // ✅ Success response
+  return ctx.json({ model: saved });
+}));
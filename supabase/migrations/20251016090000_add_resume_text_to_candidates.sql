@@ -0,0 +1,4 @@
+-- Lưu nội dung CV đã trích xuất và các kỹ năng nhận diện tự động
+alter table public.candidates
+  add column if not exists resume_text text,
+  add column if not exists detected_skills text[];
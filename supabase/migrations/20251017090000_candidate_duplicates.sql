@@ -0,0 +1,103 @@
+-- Các khóa dùng để phát hiện hồ sơ trùng
+alter table public.candidates
+  add column if not exists normalized_name text,
+  add column if not exists resume_hash text,
+  add column if not exists email text,
+  add column if not exists phone text,
+  add column if not exists possible_duplicate_ids uuid[],
+  add column if not exists archived_resume_urls text[];
+
+create index if not exists candidates_user_normalized_name_idx
+  on public.candidates (user_id, normalized_name);
+create index if not exists candidates_user_resume_hash_idx
+  on public.candidates (user_id, resume_hash);
+create index if not exists candidates_user_email_idx
+  on public.candidates (user_id, email);
+create index if not exists candidates_user_phone_idx
+  on public.candidates (user_id, phone);
+
+-- Gộp hồ sơ trùng vào hồ sơ chính trong một transaction:
+-- hợp kỹ năng, giữ lại mọi CV, cập nhật tham chiếu rồi xóa hồ sơ trùng.
+-- Chỉ được gọi từ edge function (service role), quyền sở hữu kiểm tra qua p_user_id.
+create or replace function public.merge_candidates(
+  p_user_id uuid,
+  p_primary_id uuid,
+  p_duplicate_id uuid
+)
+returns setof public.candidates
+language plpgsql
+as $$
+declare
+  v_primary public.candidates;
+  v_duplicate public.candidates;
+begin
+  if p_primary_id = p_duplicate_id then
+    raise exception 'Cannot merge a candidate into itself' using errcode = '22023';
+  end if;
+
+  select * into v_primary
+  from public.candidates
+  where id = p_primary_id and user_id = p_user_id
+  for update;
+
+  select * into v_duplicate
+  from public.candidates
+  where id = p_duplicate_id and user_id = p_user_id
+  for update;
+
+  if v_primary.id is null or v_duplicate.id is null then
+    raise exception 'Candidate not found' using errcode = 'P0002';
+  end if;
+
+  update public.candidates
+  set
+    skills = (
+      select array_agg(s.skill order by s.ord)
+      from (
+        select distinct on (lower(skill)) skill, ord
+        from unnest(coalesce(v_primary.skills, '{}') || coalesce(v_duplicate.skills, '{}'))
+          with ordinality as t(skill, ord)
+        order by lower(skill), ord
+      ) s
+    ),
+    detected_skills = (
+      select array_agg(distinct skill)
+      from unnest(coalesce(v_primary.detected_skills, '{}') || coalesce(v_duplicate.detected_skills, '{}')) as skill
+    ),
+    archived_resume_urls = (
+      select array_agg(distinct url)
+      from unnest(
+        coalesce(v_primary.archived_resume_urls, '{}')
+        || coalesce(v_duplicate.archived_resume_urls, '{}')
+        || array[v_duplicate.resume_url]
+      ) as url
+      where url is not null and url <> v_primary.resume_url
+    ),
+    resume_text = coalesce(v_primary.resume_text, v_duplicate.resume_text),
+    email = coalesce(v_primary.email, v_duplicate.email),
+    phone = coalesce(v_primary.phone, v_duplicate.phone),
+    applied_position = coalesce(v_primary.applied_position, v_duplicate.applied_position),
+    matching_score = greatest(v_primary.matching_score, v_duplicate.matching_score),
+    possible_duplicate_ids = (
+      select array_agg(distinct dup_id)
+      from unnest(coalesce(v_primary.possible_duplicate_ids, '{}') || coalesce(v_duplicate.possible_duplicate_ids, '{}')) as dup_id
+      where dup_id not in (p_primary_id, p_duplicate_id)
+    )
+  where id = p_primary_id;
+
+  -- Cập nhật các hồ sơ khác đang trỏ tới hồ sơ trùng
+  update public.candidates
+  set possible_duplicate_ids = nullif(
+    array_remove(array_replace(possible_duplicate_ids, p_duplicate_id, p_primary_id), id),
+    '{}'
+  )
+  where user_id = p_user_id
+    and p_duplicate_id = any(possible_duplicate_ids);
+
+  delete from public.candidates where id = p_duplicate_id;
+
+  return query select * from public.candidates where id = p_primary_id;
+end;
+$$;
+
+revoke execute on function public.merge_candidates(uuid, uuid, uuid) from public, anon, authenticated;
@@ -0,0 +1,190 @@
+-- Lịch sử CV của từng ứng viên, candidates.resume_url luôn trỏ tới phiên bản hiện tại
+create table if not exists public.candidate_resumes (
+  id uuid primary key default gen_random_uuid(),
+  candidate_id uuid not null references public.candidates(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  file_url text not null,
+  file_name text,
+  content_hash text,
+  is_current boolean not null default false,
+  uploaded_at timestamptz not null default now()
+);
+
+create unique index if not exists candidate_resumes_current_idx
+  on public.candidate_resumes (candidate_id)
+  where is_current;
+create index if not exists candidate_resumes_candidate_idx
+  on public.candidate_resumes (candidate_id, uploaded_at desc);
+
+alter table public.candidate_resumes enable row level security;
+
+create policy "Users can view their candidates' resumes"
+  on public.candidate_resumes for select
+  using (auth.uid() = user_id);
+
+-- Phiên bản đầu tiên được tạo tự động khi thêm ứng viên (create-candidate, import-candidates)
+create or replace function public.create_initial_candidate_resume()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.resume_url is not null then
+    insert into public.candidate_resumes (candidate_id, user_id, file_url, file_name, content_hash, is_current, uploaded_at)
+    values (
+      new.id,
+      new.user_id,
+      new.resume_url,
+      regexp_replace(new.resume_url, '^.*/', ''),
+      new.resume_hash,
+      true,
+      new.created_at
+    );
+  end if;
+  return new;
+end;
+$$;
+
+create trigger candidates_initial_resume
+  after insert on public.candidates
+  for each row execute function public.create_initial_candidate_resume();
+
+-- Chuyển dữ liệu cũ: resume_url hiện tại và các CV lưu trữ khi gộp hồ sơ
+insert into public.candidate_resumes (candidate_id, user_id, file_url, file_name, content_hash, is_current, uploaded_at)
+select id, user_id, resume_url, regexp_replace(resume_url, '^.*/', ''), resume_hash, true, created_at
+from public.candidates
+where resume_url is not null;
+
+insert into public.candidate_resumes (candidate_id, user_id, file_url, file_name, is_current, uploaded_at)
+select c.id, c.user_id, url, regexp_replace(url, '^.*/', ''), false, c.created_at
+from public.candidates c, unnest(c.archived_resume_urls) as url;
+
+-- Gắn phiên bản CV mới cho ứng viên đã có và cập nhật hồ sơ trong một transaction
+create or replace function public.attach_candidate_resume(
+  p_user_id uuid,
+  p_candidate_id uuid,
+  p_file_url text,
+  p_file_name text,
+  p_content_hash text,
+  p_resume_text text,
+  p_skills text[],
+  p_detected_skills text[],
+  p_matching_score integer
+)
+returns setof public.candidate_resumes
+language plpgsql
+as $$
+declare
+  v_resume public.candidate_resumes;
+begin
+  perform 1 from public.candidates
+  where id = p_candidate_id and user_id = p_user_id
+  for update;
+
+  if not found then
+    raise exception 'Candidate not found' using errcode = 'P0002';
+  end if;
+
+  update public.candidate_resumes
+  set is_current = false
+  where candidate_id = p_candidate_id and is_current;
+
+  insert into public.candidate_resumes (candidate_id, user_id, file_url, file_name, content_hash, is_current)
+  values (p_candidate_id, p_user_id, p_file_url, p_file_name, p_content_hash, true)
+  returning * into v_resume;
+
+  update public.candidates
+  set
+    resume_url = p_file_url,
+    resume_hash = p_content_hash,
+    resume_text = coalesce(p_resume_text, resume_text),
+    skills = p_skills,
+    detected_skills = p_detected_skills,
+    matching_score = p_matching_score
+  where id = p_candidate_id;
+
+  return next v_resume;
+end;
+$$;
+
+revoke execute on function public.attach_candidate_resume(uuid, uuid, text, text, text, text, text[], text[], integer)
+  from public, anon, authenticated;
+
+-- Gộp hồ sơ: chuyển toàn bộ lịch sử CV của hồ sơ trùng sang hồ sơ chính
+create or replace function public.merge_candidates(
+  p_user_id uuid,
+  p_primary_id uuid,
+  p_duplicate_id uuid
+)
+returns setof public.candidates
+language plpgsql
+as $$
+declare
+  v_primary public.candidates;
+  v_duplicate public.candidates;
+begin
+  if p_primary_id = p_duplicate_id then
+    raise exception 'Cannot merge a candidate into itself' using errcode = '22023';
+  end if;
+
+  select * into v_primary
+  from public.candidates
+  where id = p_primary_id and user_id = p_user_id
+  for update;
+
+  select * into v_duplicate
+  from public.candidates
+  where id = p_duplicate_id and user_id = p_user_id
+  for update;
+
+  if v_primary.id is null or v_duplicate.id is null then
+    raise exception 'Candidate not found' using errcode = 'P0002';
+  end if;
+
+  update public.candidates
+  set
+    skills = (
+      select array_agg(s.skill order by s.ord)
+      from (
+        select distinct on (lower(skill)) skill, ord
+        from unnest(coalesce(v_primary.skills, '{}') || coalesce(v_duplicate.skills, '{}'))
+          with ordinality as t(skill, ord)
+        order by lower(skill), ord
+      ) s
+    ),
+    detected_skills = (
+      select array_agg(distinct skill)
+      from unnest(coalesce(v_primary.detected_skills, '{}') || coalesce(v_duplicate.detected_skills, '{}')) as skill
+    ),
+    resume_text = coalesce(v_primary.resume_text, v_duplicate.resume_text),
+    email = coalesce(v_primary.email, v_duplicate.email),
+    phone = coalesce(v_primary.phone, v_duplicate.phone),
+    applied_position = coalesce(v_primary.applied_position, v_duplicate.applied_position),
+    matching_score = greatest(v_primary.matching_score, v_duplicate.matching_score),
+    possible_duplicate_ids = (
+      select array_agg(distinct dup_id)
+      from unnest(coalesce(v_primary.possible_duplicate_ids, '{}') || coalesce(v_duplicate.possible_duplicate_ids, '{}')) as dup_id
+      where dup_id not in (p_primary_id, p_duplicate_id)
+    )
+  where id = p_primary_id;
+
+  -- Giữ lại mọi CV: phiên bản của hồ sơ trùng trở thành phiên bản cũ của hồ sơ chính
+  update public.candidate_resumes
+  set candidate_id = p_primary_id, is_current = false
+  where candidate_id = p_duplicate_id;
+
+  -- Cập nhật các hồ sơ khác đang trỏ tới hồ sơ trùng
+  update public.candidates
+  set possible_duplicate_ids = nullif(
+    array_remove(array_replace(possible_duplicate_ids, p_duplicate_id, p_primary_id), id),
+    '{}'
+  )
+  where user_id = p_user_id
+    and p_duplicate_id = any(possible_duplicate_ids);
+
+  delete from public.candidates where id = p_duplicate_id;
+
+  return query select * from public.candidates where id = p_primary_id;
+end;
+$$;
+
+alter table public.candidates drop column if exists archived_resume_urls;
@@ -0,0 +1,94 @@
+-- Định dạng CV thật (theo chữ ký file) và bản xem trước văn bản cho CV không phải PDF
+alter table public.candidates
+  add column if not exists resume_mime_type text,
+  add column if not exists resume_preview_url text;
+
+alter table public.candidate_resumes
+  add column if not exists mime_type text,
+  add column if not exists preview_url text;
+
+create or replace function public.create_initial_candidate_resume()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.resume_url is not null then
+    insert into public.candidate_resumes (
+      candidate_id, user_id, file_url, file_name, content_hash, mime_type, preview_url, is_current, uploaded_at
+    )
+    values (
+      new.id,
+      new.user_id,
+      new.resume_url,
+      regexp_replace(new.resume_url, '^.*/', ''),
+      new.resume_hash,
+      new.resume_mime_type,
+      new.resume_preview_url,
+      true,
+      new.created_at
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop function if exists public.attach_candidate_resume(uuid, uuid, text, text, text, text, text[], text[], integer);
+
+create or replace function public.attach_candidate_resume(
+  p_user_id uuid,
+  p_candidate_id uuid,
+  p_file_url text,
+  p_file_name text,
+  p_content_hash text,
+  p_resume_text text,
+  p_preview_url text,
+  p_mime_type text,
+  p_skills text[],
+  p_detected_skills text[],
+  p_matching_score integer
+)
+returns setof public.candidate_resumes
+language plpgsql
+as $$
+declare
+  v_resume public.candidate_resumes;
+begin
+  perform 1 from public.candidates
+  where id = p_candidate_id and user_id = p_user_id
+  for update;
+
+  if not found then
+    raise exception 'Candidate not found' using errcode = 'P0002';
+  end if;
+
+  update public.candidate_resumes
+  set is_current = false
+  where candidate_id = p_candidate_id and is_current;
+
+  insert into public.candidate_resumes (
+    candidate_id, user_id, file_url, file_name, content_hash, mime_type, preview_url, is_current
+  )
+  values (
+    p_candidate_id, p_user_id, p_file_url, p_file_name, p_content_hash, p_mime_type, p_preview_url, true
+  )
+  returning * into v_resume;
+
+  update public.candidates
+  set
+    resume_url = p_file_url,
+    resume_hash = p_content_hash,
+    -- Văn bản luôn theo CV hiện tại (null nếu không đọc được), khớp với chỉ mục nội dung CV
+    resume_text = p_resume_text,
+    resume_mime_type = p_mime_type,
+    resume_preview_url = p_preview_url,
+    skills = p_skills,
+    detected_skills = p_detected_skills,
+    matching_score = p_matching_score
+  where id = p_candidate_id;
+
+  return next v_resume;
+end;
+$$;
+
+revoke execute on function public.attach_candidate_resume(uuid, uuid, text, text, text, text, text, text, text[], text[], integer)
+  from public, anon, authenticated;
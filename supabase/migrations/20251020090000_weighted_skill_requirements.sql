@@ -0,0 +1,13 @@
+-- Yêu cầu kỹ năng có phân tầng và trọng số:
+-- [{ "skill": "React", "tier": "must_have" | "nice_to_have", "weight": 3, "min_years": 2 }]
+-- Job chưa khai báo skill_requirements vẫn dùng required_skills như trước
+alter table public.job_requirements
+  add column if not exists skill_requirements jsonb not null default '[]'::jsonb;
+
+alter table public.job_requirements
+  add constraint job_requirements_skill_requirements_is_array
+  check (jsonb_typeof(skill_requirements) = 'array');
+
+-- Kỹ năng bắt buộc mà ứng viên còn thiếu so với vị trí ứng tuyển
+alter table public.candidates
+  add column if not exists missing_must_haves text[];
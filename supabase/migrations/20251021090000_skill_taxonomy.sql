@@ -0,0 +1,93 @@
+-- Taxonomy kỹ năng: tên chuẩn, alias (JS -> JavaScript) và kỹ năng được suy ra (Next.js -> React)
+-- Dùng chung cho nhận diện kỹ năng từ CV, ô nhập kỹ năng và chấm điểm matching
+create table if not exists public.skill_taxonomy (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  aliases text[] not null default '{}',
+  implies text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists skill_taxonomy_name_idx
+  on public.skill_taxonomy (lower(name));
+
+create or replace function public.touch_skill_taxonomy()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists skill_taxonomy_touch on public.skill_taxonomy;
+create trigger skill_taxonomy_touch
+  before update on public.skill_taxonomy
+  for each row execute function public.touch_skill_taxonomy();
+
+alter table public.skill_taxonomy enable row level security;
+
+create policy "Authenticated users can view skill taxonomy"
+  on public.skill_taxonomy for select
+  to authenticated
+  using (true);
+
+-- Taxonomy dùng chung và ảnh hưởng tới điểm của mọi user: chỉ admin được sửa.
+-- Role nằm trong app_metadata, chỉ service role mới đặt được
+create policy "Admins can insert skill taxonomy"
+  on public.skill_taxonomy for insert
+  to authenticated
+  with check ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+create policy "Admins can update skill taxonomy"
+  on public.skill_taxonomy for update
+  to authenticated
+  using ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin')
+  with check ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+create policy "Admins can delete skill taxonomy"
+  on public.skill_taxonomy for delete
+  to authenticated
+  using ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+-- Dữ liệu khởi tạo từ danh sách gợi ý kỹ năng hiện có
+insert into public.skill_taxonomy (name, aliases, implies)
+values
+  ('React', '{ReactJS,React.js}', '{JavaScript}'),
+  ('TypeScript', '{TS}', '{JavaScript}'),
+  ('JavaScript', '{JS,ECMAScript,ES6}', '{}'),
+  ('Node.js', '{Node,NodeJS}', '{JavaScript}'),
+  ('Python', '{}', '{}'),
+  ('Java', '{}', '{}'),
+  ('HTML', '{HTML5}', '{}'),
+  ('CSS', '{CSS3}', '{}'),
+  ('Vue.js', '{Vue,VueJS}', '{JavaScript}'),
+  ('Angular', '{AngularJS}', '{TypeScript}'),
+  ('Next.js', '{NextJS}', '{React}'),
+  ('Express.js', '{Express,ExpressJS}', '{Node.js}'),
+  ('MongoDB', '{Mongo}', '{}'),
+  ('PostgreSQL', '{Postgres,PSQL}', '{}'),
+  ('MySQL', '{}', '{}'),
+  ('Redis', '{}', '{}'),
+  ('Docker', '{}', '{}'),
+  ('Kubernetes', '{k8s}', '{Docker}'),
+  ('AWS', '{Amazon Web Services}', '{}'),
+  ('Git', '{}', '{}'),
+  ('REST API', '{REST,RESTful API}', '{}'),
+  ('GraphQL', '{}', '{}'),
+  ('Firebase', '{}', '{}'),
+  ('Tailwind CSS', '{Tailwind,TailwindCSS}', '{CSS}'),
+  ('SASS', '{SCSS}', '{CSS}'),
+  ('React Native', '{}', '{React}'),
+  ('Flutter', '{}', '{}'),
+  ('Swift', '{}', '{}'),
+  ('Kotlin', '{}', '{}'),
+  ('Go', '{Golang}', '{}'),
+  ('PHP', '{}', '{}'),
+  ('Machine Learning', '{ML}', '{}'),
+  ('Data Analysis', '{}', '{}'),
+  ('UI/UX Design', '{UI/UX,UX Design,UI Design}', '{}'),
+  ('Figma', '{}', '{}')
+on conflict do nothing;
@@ -0,0 +1,26 @@
+-- Quản lý vị trí tuyển dụng trong app: mô tả, phòng ban, trạng thái mở/đóng
+alter table public.job_requirements
+  add column if not exists description text,
+  add column if not exists department text,
+  add column if not exists is_open boolean not null default true,
+  add column if not exists created_by uuid references auth.users(id) on delete set null,
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists updated_at timestamptz not null default now();
+
+create index if not exists job_requirements_open_idx
+  on public.job_requirements (is_open, title);
+
+create or replace function public.touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists job_requirements_touch on public.job_requirements;
+create trigger job_requirements_touch
+  before update on public.job_requirements
+  for each row execute function public.touch_updated_at();
@@ -0,0 +1,111 @@
+-- Theo dõi điểm matching: chấm theo job nào, phiên bản yêu cầu nào, lúc nào và đã cũ hay chưa
+alter table public.job_requirements
+  add column if not exists version integer not null default 1;
+
+alter table public.candidates
+  add column if not exists job_requirement_id uuid references public.job_requirements(id) on delete set null,
+  add column if not exists score_computed_at timestamptz,
+  add column if not exists score_requirement_version integer,
+  add column if not exists score_stale boolean not null default false;
+
+create index if not exists candidates_job_requirement_idx
+  on public.candidates (job_requirement_id);
+create index if not exists candidates_score_stale_idx
+  on public.candidates (user_id)
+  where score_stale;
+
+-- Điểm hiện có chưa rõ được tính theo yêu cầu nào, cần chấm lại
+update public.candidates set score_stale = true;
+
+-- Tăng version khi kỹ năng yêu cầu thay đổi
+create or replace function public.bump_job_requirement_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.required_skills is distinct from old.required_skills
+     or new.skill_requirements is distinct from old.skill_requirements then
+    new.version = old.version + 1;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists job_requirements_bump_version on public.job_requirements;
+create trigger job_requirements_bump_version
+  before update on public.job_requirements
+  for each row execute function public.bump_job_requirement_version();
+
+-- Ứng viên đang chấm theo job vừa đổi yêu cầu trở thành điểm cũ
+create or replace function public.mark_job_candidates_stale()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.candidates
+  set score_stale = true
+  where job_requirement_id = new.id;
+  return null;
+end;
+$$;
+
+drop trigger if exists job_requirements_mark_stale on public.job_requirements;
+create trigger job_requirements_mark_stale
+  after update on public.job_requirements
+  for each row
+  when (new.version is distinct from old.version)
+  execute function public.mark_job_candidates_stale();
+
+-- Kỹ năng hoặc job của ứng viên đổi mà không kèm lần chấm mới (vd: gộp hồ sơ, job bị xóa) thì đánh dấu điểm cũ
+create or replace function public.mark_candidate_score_stale()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (new.skills is distinct from old.skills
+      or new.job_requirement_id is distinct from old.job_requirement_id)
+     and new.score_computed_at is not distinct from old.score_computed_at then
+    new.score_stale = true;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists candidates_mark_score_stale on public.candidates;
+create trigger candidates_mark_score_stale
+  before update of skills, job_requirement_id on public.candidates
+  for each row execute function public.mark_candidate_score_stale();
+
+-- Ghi điểm đã tính lại theo lô (gọi từ edge function với service role)
+create or replace function public.apply_candidate_scores(p_scores jsonb)
+returns integer
+language plpgsql
+as $$
+declare
+  v_count integer;
+begin
+  update public.candidates c
+  set
+    matching_score = s.matching_score,
+    missing_must_haves = s.missing_must_haves,
+    job_requirement_id = s.job_requirement_id,
+    score_requirement_version = s.score_requirement_version,
+    score_computed_at = s.score_computed_at,
+    score_stale = false
+  from jsonb_to_recordset(p_scores) as s(
+    id uuid,
+    matching_score integer,
+    missing_must_haves text[],
+    job_requirement_id uuid,
+    score_requirement_version integer,
+    score_computed_at timestamptz
+  )
+  where c.id = s.id;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.apply_candidate_scores(jsonb)
+  from public, anon, authenticated;
@@ -0,0 +1,44 @@
+-- Trọng số chấm điểm gợi ý ứng viên (recommend), mỗi user một cấu hình.
+-- Điểm gợi ý = trung bình có trọng số của các thành phần (0-100), nên không cần cắt ngưỡng 100
+create table if not exists public.scoring_settings (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  skills_weight numeric not null default 60 check (skills_weight >= 0),
+  recency_weight numeric not null default 10 check (recency_weight >= 0),
+  position_weight numeric not null default 15 check (position_weight >= 0),
+  status_weight numeric not null default 0 check (status_weight >= 0),
+  matching_score_weight numeric not null default 15 check (matching_score_weight >= 0),
+  exclude_statuses text[] not null default '{Hired,Rejected}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint scoring_settings_weights_positive check (
+    skills_weight + recency_weight + position_weight + status_weight + matching_score_weight > 0
+  )
+);
+
+drop trigger if exists scoring_settings_touch on public.scoring_settings;
+create trigger scoring_settings_touch
+  before update on public.scoring_settings
+  for each row execute function public.touch_updated_at();
+
+alter table public.scoring_settings enable row level security;
+
+create policy "Users can view own scoring settings"
+  on public.scoring_settings for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own scoring settings"
+  on public.scoring_settings for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Users can update own scoring settings"
+  on public.scoring_settings for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete own scoring settings"
+  on public.scoring_settings for delete
+  to authenticated
+  using (auth.uid() = user_id);
@@ -0,0 +1,127 @@
+-- Chỉ mục BM25 theo từng user cho nội dung CV, không cần dịch vụ AI bên ngoài.
+-- Edge function tách từ (tiếng Việt / tiếng Anh, bỏ dấu) và ghi tần suất từ của từng CV;
+-- trigger cập nhật dần số CV chứa mỗi từ và độ dài trung bình
+create table if not exists public.candidate_resume_terms (
+  candidate_id uuid primary key references public.candidates(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  terms jsonb not null default '{}'::jsonb, -- { "tu": so_lan_xuat_hien }
+  doc_length integer not null default 0,
+  indexed_at timestamptz not null default now()
+);
+
+create index if not exists candidate_resume_terms_user_idx
+  on public.candidate_resume_terms (user_id);
+
+create table if not exists public.resume_index_terms (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  term text not null,
+  doc_freq integer not null default 0,
+  primary key (user_id, term)
+);
+
+create table if not exists public.resume_index_stats (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  doc_count integer not null default 0,
+  total_length bigint not null default 0
+);
+
+-- Chỉ truy cập qua edge function (service role)
+alter table public.candidate_resume_terms enable row level security;
+alter table public.resume_index_terms enable row level security;
+alter table public.resume_index_stats enable row level security;
+
+-- Bớt thống kê của bản cũ, cộng thống kê của bản mới
+create or replace function public.maintain_resume_index()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    update public.resume_index_terms t
+    set doc_freq = t.doc_freq - 1
+    where t.user_id = old.user_id
+      and t.term in (select jsonb_object_keys(old.terms));
+
+    delete from public.resume_index_terms t
+    where t.user_id = old.user_id
+      and t.doc_freq <= 0
+      and t.term in (select jsonb_object_keys(old.terms));
+
+    update public.resume_index_stats
+    set doc_count = doc_count - 1,
+        total_length = total_length - old.doc_length
+    where user_id = old.user_id;
+  end if;
+
+  if tg_op in ('INSERT', 'UPDATE') then
+    insert into public.resume_index_terms (user_id, term, doc_freq)
+    select new.user_id, k.term, 1
+    from jsonb_object_keys(new.terms) as k(term)
+    on conflict (user_id, term)
+    do update set doc_freq = public.resume_index_terms.doc_freq + 1;
+
+    insert into public.resume_index_stats (user_id, doc_count, total_length)
+    values (new.user_id, 1, new.doc_length)
+    on conflict (user_id)
+    do update set doc_count = public.resume_index_stats.doc_count + 1,
+                  total_length = public.resume_index_stats.total_length + excluded.total_length;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists candidate_resume_terms_maintain on public.candidate_resume_terms;
+create trigger candidate_resume_terms_maintain
+  after insert or update or delete on public.candidate_resume_terms
+  for each row execute function public.maintain_resume_index();
+
+-- Điểm BM25 (k1 = 1.2, b = 0.75) của CV từng ứng viên với các từ của truy vấn, quy về 0-100:
+-- 100 khi mọi từ truy vấn xuất hiện ít nhất một lần trong CV có độ dài trung bình
+create or replace function public.resume_text_scores(p_user_id uuid, p_terms text[])
+returns table (candidate_id uuid, text_score numeric)
+language sql
+stable
+as $$
+  with stats as (
+    select doc_count, total_length::numeric / greatest(doc_count, 1) as avg_length
+    from public.resume_index_stats
+    where user_id = p_user_id
+  ),
+  query_terms as (
+    select t.term, ln(1 + (s.doc_count - t.doc_freq + 0.5) / (t.doc_freq + 0.5)) as idf
+    from public.resume_index_terms t
+    cross join stats s
+    where t.user_id = p_user_id
+      and t.term = any(p_terms)
+  ),
+  idf_total as (
+    select sum(idf) as total from query_terms
+  )
+  select
+    d.candidate_id,
+    round(least(100, 100 * sum(
+      q.idf * (d.terms ->> q.term)::numeric * 2.2
+      / ((d.terms ->> q.term)::numeric + 1.2 * (0.25 + 0.75 * d.doc_length / greatest(s.avg_length, 1)))
+    ) / nullif(i.total, 0)), 1) as text_score
+  from public.candidate_resume_terms d
+  cross join stats s
+  cross join idf_total i
+  join query_terms q on d.terms ? q.term
+  where d.user_id = p_user_id
+  group by d.candidate_id, i.total;
+$$;
+
+revoke execute on function public.resume_text_scores(uuid, text[])
+  from public, anon, authenticated;
+
+-- Trọng số của điểm tương đồng nội dung CV trong điểm gợi ý
+alter table public.scoring_settings
+  add column if not exists text_weight numeric not null default 10 check (text_weight >= 0);
+
+alter table public.scoring_settings
+  drop constraint if exists scoring_settings_weights_positive;
+alter table public.scoring_settings
+  add constraint scoring_settings_weights_positive check (
+    skills_weight + text_weight + recency_weight + position_weight + status_weight + matching_score_weight > 0
+  );
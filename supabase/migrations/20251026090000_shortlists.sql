@@ -0,0 +1,167 @@
+-- Shortlist: danh sách ứng viên được chọn cho một vị trí, có thứ tự, ghi chú
+-- và điểm tại thời điểm thêm vào
+create table if not exists public.shortlists (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  job_requirement_id uuid references public.job_requirements(id) on delete set null,
+  name text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists shortlists_user_idx
+  on public.shortlists (user_id, created_at desc);
+
+create table if not exists public.shortlist_entries (
+  id uuid primary key default gen_random_uuid(),
+  shortlist_id uuid not null references public.shortlists(id) on delete cascade,
+  candidate_id uuid not null references public.candidates(id) on delete cascade,
+  position integer not null default 0,
+  note text,
+  score_snapshot numeric,
+  score_breakdown jsonb, -- breakdown của recommend nếu thêm từ kết quả gợi ý
+  added_at timestamptz not null default now(),
+  unique (shortlist_id, candidate_id)
+);
+
+create index if not exists shortlist_entries_order_idx
+  on public.shortlist_entries (shortlist_id, position);
+create index if not exists shortlist_entries_candidate_idx
+  on public.shortlist_entries (candidate_id);
+
+drop trigger if exists shortlists_touch on public.shortlists;
+create trigger shortlists_touch
+  before update on public.shortlists
+  for each row execute function public.touch_updated_at();
+
+alter table public.shortlists enable row level security;
+alter table public.shortlist_entries enable row level security;
+
+create policy "Users can view own shortlists"
+  on public.shortlists for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own shortlists"
+  on public.shortlists for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Users can update own shortlists"
+  on public.shortlists for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete own shortlists"
+  on public.shortlists for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Mục trong shortlist: shortlist và ứng viên đều phải thuộc user hiện tại
+create policy "Users can manage entries of own shortlists"
+  on public.shortlist_entries for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.shortlists s
+      where s.id = shortlist_id and s.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.shortlists s
+      where s.id = shortlist_id and s.user_id = auth.uid()
+    )
+    and exists (
+      select 1 from public.candidates c
+      where c.id = candidate_id and c.user_id = auth.uid()
+    )
+  );
+
+-- Gộp hồ sơ: chuyển mục shortlist của hồ sơ trùng sang hồ sơ chính
+create or replace function public.merge_candidates(
+  p_user_id uuid,
+  p_primary_id uuid,
+  p_duplicate_id uuid
+)
+returns setof public.candidates
+language plpgsql
+as $$
+declare
+  v_primary public.candidates;
+  v_duplicate public.candidates;
+begin
+  if p_primary_id = p_duplicate_id then
+    raise exception 'Cannot merge a candidate into itself' using errcode = '22023';
+  end if;
+
+  select * into v_primary
+  from public.candidates
+  where id = p_primary_id and user_id = p_user_id
+  for update;
+
+  select * into v_duplicate
+  from public.candidates
+  where id = p_duplicate_id and user_id = p_user_id
+  for update;
+
+  if v_primary.id is null or v_duplicate.id is null then
+    raise exception 'Candidate not found' using errcode = 'P0002';
+  end if;
+
+  update public.candidates
+  set
+    skills = (
+      select array_agg(s.skill order by s.ord)
+      from (
+        select distinct on (lower(skill)) skill, ord
+        from unnest(coalesce(v_primary.skills, '{}') || coalesce(v_duplicate.skills, '{}'))
+          with ordinality as t(skill, ord)
+        order by lower(skill), ord
+      ) s
+    ),
+    detected_skills = (
+      select array_agg(distinct skill)
+      from unnest(coalesce(v_primary.detected_skills, '{}') || coalesce(v_duplicate.detected_skills, '{}')) as skill
+    ),
+    resume_text = coalesce(v_primary.resume_text, v_duplicate.resume_text),
+    email = coalesce(v_primary.email, v_duplicate.email),
+    phone = coalesce(v_primary.phone, v_duplicate.phone),
+    applied_position = coalesce(v_primary.applied_position, v_duplicate.applied_position),
+    matching_score = greatest(v_primary.matching_score, v_duplicate.matching_score),
+    possible_duplicate_ids = (
+      select array_agg(distinct dup_id)
+      from unnest(coalesce(v_primary.possible_duplicate_ids, '{}') || coalesce(v_duplicate.possible_duplicate_ids, '{}')) as dup_id
+      where dup_id not in (p_primary_id, p_duplicate_id)
+    )
+  where id = p_primary_id;
+
+  -- Giữ lại mọi CV: phiên bản của hồ sơ trùng trở thành phiên bản cũ của hồ sơ chính
+  update public.candidate_resumes
+  set candidate_id = p_primary_id, is_current = false
+  where candidate_id = p_duplicate_id;
+
+  -- Mục shortlist của hồ sơ trùng chuyển sang hồ sơ chính, trừ shortlist đã có hồ sơ chính
+  update public.shortlist_entries e
+  set candidate_id = p_primary_id
+  where e.candidate_id = p_duplicate_id
+    and not exists (
+      select 1 from public.shortlist_entries p
+      where p.shortlist_id = e.shortlist_id and p.candidate_id = p_primary_id
+    );
+
+  -- Cập nhật các hồ sơ khác đang trỏ tới hồ sơ trùng
+  update public.candidates
+  set possible_duplicate_ids = nullif(
+    array_remove(array_replace(possible_duplicate_ids, p_duplicate_id, p_primary_id), id),
+    '{}'
+  )
+  where user_id = p_user_id
+    and p_duplicate_id = any(possible_duplicate_ids);
+
+  delete from public.candidates where id = p_duplicate_id;
+
+  return query select * from public.candidates where id = p_primary_id;
+end;
+$$;
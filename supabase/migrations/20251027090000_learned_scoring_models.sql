@@ -0,0 +1,44 @@
+-- Trọng số gợi ý học từ kết quả tuyển dụng (Hired / Rejected), mỗi user một mô hình.
+-- Edge function train-weights ghi bằng service role; user chỉ xem và bật / tắt
+create table if not exists public.learned_scoring_models (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  -- Hệ số logistic regression theo tên đặc trưng (skills, text, recency, position, meets_must_haves, skill:<kỹ năng>)
+  weights jsonb not null,
+  intercept numeric not null default 0,
+  training_samples integer not null default 0,
+  hired_samples integer not null default 0,
+  -- Báo cáo precision@k của mô hình so với công thức heuristic trên tập kiểm tra
+  evaluation jsonb,
+  -- Mặc định tắt: recommend chỉ dùng mô hình khi user chủ động bật sau khi xem báo cáo
+  enabled boolean not null default false,
+  trained_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists learned_scoring_models_touch on public.learned_scoring_models;
+create trigger learned_scoring_models_touch
+  before update on public.learned_scoring_models
+  for each row execute function public.touch_updated_at();
+
+alter table public.learned_scoring_models enable row level security;
+
+create policy "Users can view own learned scoring model"
+  on public.learned_scoring_models for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Từ client chỉ được đổi cờ enabled, hệ số chỉ do train-weights ghi
+revoke update on public.learned_scoring_models from authenticated;
+grant update (enabled) on public.learned_scoring_models to authenticated;
+
+create policy "Users can update own learned scoring model"
+  on public.learned_scoring_models for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete own learned scoring model"
+  on public.learned_scoring_models for delete
+  to authenticated
+  using (auth.uid() = user_id);
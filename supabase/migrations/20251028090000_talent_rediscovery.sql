@@ -0,0 +1,177 @@
+-- Tìm lại ứng viên cũ khi có vị trí mới: lưu gợi ý theo từng cặp vị trí - ứng viên.
+-- status_updated_at cho biết ứng viên bị loại khi nào để bỏ qua người vừa bị loại gần đây
+alter table public.candidates
+  add column if not exists status_updated_at timestamptz;
+
+update public.candidates
+set status_updated_at = created_at
+where status_updated_at is null;
+
+alter table public.candidates
+  alter column status_updated_at set default now(),
+  alter column status_updated_at set not null;
+
+create or replace function public.touch_candidate_status_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is distinct from old.status then
+    new.status_updated_at = now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists candidates_touch_status on public.candidates;
+create trigger candidates_touch_status
+  before update of status on public.candidates
+  for each row execute function public.touch_candidate_status_updated_at();
+
+create index if not exists candidates_user_status_idx
+  on public.candidates (user_id, status, status_updated_at);
+
+create table if not exists public.rediscovery_suggestions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  job_requirement_id uuid not null references public.job_requirements(id) on delete cascade,
+  candidate_id uuid not null references public.candidates(id) on delete cascade,
+  -- Điểm gợi ý tại thời điểm quét (cùng công thức recommend)
+  score numeric not null,
+  matched_skills text[] not null default '{}',
+  missing_skills text[] not null default '{}',
+  -- new: chưa xử lý; dismissed: đã bỏ qua, lần quét sau không gợi ý lại
+  status text not null default 'new' check (status in ('new', 'dismissed')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (job_requirement_id, candidate_id)
+);
+
+create index if not exists rediscovery_suggestions_user_idx
+  on public.rediscovery_suggestions (user_id, status);
+
+create index if not exists rediscovery_suggestions_candidate_idx
+  on public.rediscovery_suggestions (candidate_id);
+
+drop trigger if exists rediscovery_suggestions_touch on public.rediscovery_suggestions;
+create trigger rediscovery_suggestions_touch
+  before update on public.rediscovery_suggestions
+  for each row execute function public.touch_updated_at();
+
+alter table public.rediscovery_suggestions enable row level security;
+
+create policy "Users can view own rediscovery suggestions"
+  on public.rediscovery_suggestions for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Từ client chỉ được đổi trạng thái (bỏ qua gợi ý); gợi ý do edge function ghi
+revoke update on public.rediscovery_suggestions from authenticated;
+grant update (status) on public.rediscovery_suggestions to authenticated;
+
+create policy "Users can update own rediscovery suggestions"
+  on public.rediscovery_suggestions for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete own rediscovery suggestions"
+  on public.rediscovery_suggestions for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Gộp hồ sơ trùng: chuyển cả gợi ý tìm lại sang hồ sơ chính
+create or replace function public.merge_candidates(
+  p_user_id uuid,
+  p_primary_id uuid,
+  p_duplicate_id uuid
+)
+returns setof public.candidates
+language plpgsql
+as $$
+declare
+  v_primary public.candidates;
+  v_duplicate public.candidates;
+begin
+  if p_primary_id = p_duplicate_id then
+    raise exception 'Cannot merge a candidate into itself' using errcode = '22023';
+  end if;
+
+  select * into v_primary
+  from public.candidates
+  where id = p_primary_id and user_id = p_user_id
+  for update;
+
+  select * into v_duplicate
+  from public.candidates
+  where id = p_duplicate_id and user_id = p_user_id
+  for update;
+
+  if v_primary.id is null or v_duplicate.id is null then
+    raise exception 'Candidate not found' using errcode = 'P0002';
+  end if;
+
+  update public.candidates
+  set
+    skills = (
+      select array_agg(s.skill order by s.ord)
+      from (
+        select distinct on (lower(skill)) skill, ord
+        from unnest(coalesce(v_primary.skills, '{}') || coalesce(v_duplicate.skills, '{}'))
+          with ordinality as t(skill, ord)
+        order by lower(skill), ord
+      ) s
+    ),
+    detected_skills = (
+      select array_agg(distinct skill)
+      from unnest(coalesce(v_primary.detected_skills, '{}') || coalesce(v_duplicate.detected_skills, '{}')) as skill
+    ),
+    resume_text = coalesce(v_primary.resume_text, v_duplicate.resume_text),
+    email = coalesce(v_primary.email, v_duplicate.email),
+    phone = coalesce(v_primary.phone, v_duplicate.phone),
+    applied_position = coalesce(v_primary.applied_position, v_duplicate.applied_position),
+    matching_score = greatest(v_primary.matching_score, v_duplicate.matching_score),
+    possible_duplicate_ids = (
+      select array_agg(distinct dup_id)
+      from unnest(coalesce(v_primary.possible_duplicate_ids, '{}') || coalesce(v_duplicate.possible_duplicate_ids, '{}')) as dup_id
+      where dup_id not in (p_primary_id, p_duplicate_id)
+    )
+  where id = p_primary_id;
+
+  -- Giữ lại mọi CV: phiên bản của hồ sơ trùng trở thành phiên bản cũ của hồ sơ chính
+  update public.candidate_resumes
+  set candidate_id = p_primary_id, is_current = false
+  where candidate_id = p_duplicate_id;
+
+  -- Mục shortlist của hồ sơ trùng chuyển sang hồ sơ chính, trừ shortlist đã có hồ sơ chính
+  update public.shortlist_entries e
+  set candidate_id = p_primary_id
+  where e.candidate_id = p_duplicate_id
+    and not exists (
+      select 1 from public.shortlist_entries p
+      where p.shortlist_id = e.shortlist_id and p.candidate_id = p_primary_id
+    );
+
+  -- Gợi ý tìm lại của hồ sơ trùng chuyển sang hồ sơ chính, trừ vị trí đã có gợi ý cho hồ sơ chính
+  update public.rediscovery_suggestions r
+  set candidate_id = p_primary_id
+  where r.candidate_id = p_duplicate_id
+    and not exists (
+      select 1 from public.rediscovery_suggestions p
+      where p.job_requirement_id = r.job_requirement_id and p.candidate_id = p_primary_id
+    );
+
+  -- Cập nhật các hồ sơ khác đang trỏ tới hồ sơ trùng
+  update public.candidates
+  set possible_duplicate_ids = nullif(
+    array_remove(array_replace(possible_duplicate_ids, p_duplicate_id, p_primary_id), id),
+    '{}'
+  )
+  where user_id = p_user_id
+    and p_duplicate_id = any(possible_duplicate_ids);
+
+  delete from public.candidates where id = p_duplicate_id;
+
+  return query select * from public.candidates where id = p_primary_id;
+end;
+$$;
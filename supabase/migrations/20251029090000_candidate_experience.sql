@@ -0,0 +1,127 @@
+-- Kinh nghiệm trích từ CV: tổng số năm, số năm theo kỹ năng, cấp bậc và học vấn cao nhất.
+-- Job có thể yêu cầu tổng số năm tối thiểu (min_years_experience); số năm theo kỹ năng nằm trong skill_requirements
+alter table public.candidates
+  add column if not exists total_years_experience numeric check (total_years_experience >= 0),
+  add column if not exists skill_years jsonb,
+  add column if not exists seniority text
+    check (seniority in ('intern', 'junior', 'mid', 'senior', 'lead')),
+  add column if not exists education_level text
+    check (education_level in ('high_school', 'associate', 'bachelor', 'master', 'phd'));
+
+alter table public.job_requirements
+  add column if not exists min_years_experience numeric check (min_years_experience >= 0);
+
+-- Đổi yêu cầu kinh nghiệm cũng làm điểm đã chấm trở nên cũ
+create or replace function public.bump_job_requirement_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.required_skills is distinct from old.required_skills
+     or new.skill_requirements is distinct from old.skill_requirements
+     or new.min_years_experience is distinct from old.min_years_experience then
+    new.version = old.version + 1;
+  end if;
+  return new;
+end;
+$$;
+
+-- Gộp hồ sơ trùng: giữ số năm kinh nghiệm lớn hơn, số năm theo kỹ năng ưu tiên hồ sơ chính
+create or replace function public.merge_candidates(
+  p_user_id uuid,
+  p_primary_id uuid,
+  p_duplicate_id uuid
+)
+returns setof public.candidates
+language plpgsql
+as $$
+declare
+  v_primary public.candidates;
+  v_duplicate public.candidates;
+begin
+  if p_primary_id = p_duplicate_id then
+    raise exception 'Cannot merge a candidate into itself' using errcode = '22023';
+  end if;
+
+  select * into v_primary
+  from public.candidates
+  where id = p_primary_id and user_id = p_user_id
+  for update;
+
+  select * into v_duplicate
+  from public.candidates
+  where id = p_duplicate_id and user_id = p_user_id
+  for update;
+
+  if v_primary.id is null or v_duplicate.id is null then
+    raise exception 'Candidate not found' using errcode = 'P0002';
+  end if;
+
+  update public.candidates
+  set
+    skills = (
+      select array_agg(s.skill order by s.ord)
+      from (
+        select distinct on (lower(skill)) skill, ord
+        from unnest(coalesce(v_primary.skills, '{}') || coalesce(v_duplicate.skills, '{}'))
+          with ordinality as t(skill, ord)
+        order by lower(skill), ord
+      ) s
+    ),
+    detected_skills = (
+      select array_agg(distinct skill)
+      from unnest(coalesce(v_primary.detected_skills, '{}') || coalesce(v_duplicate.detected_skills, '{}')) as skill
+    ),
+    resume_text = coalesce(v_primary.resume_text, v_duplicate.resume_text),
+    email = coalesce(v_primary.email, v_duplicate.email),
+    phone = coalesce(v_primary.phone, v_duplicate.phone),
+    applied_position = coalesce(v_primary.applied_position, v_duplicate.applied_position),
+    matching_score = greatest(v_primary.matching_score, v_duplicate.matching_score),
+    total_years_experience = greatest(v_primary.total_years_experience, v_duplicate.total_years_experience),
+    skill_years = nullif(coalesce(v_duplicate.skill_years, '{}'::jsonb) || coalesce(v_primary.skill_years, '{}'::jsonb), '{}'::jsonb),
+    seniority = coalesce(v_primary.seniority, v_duplicate.seniority),
+    education_level = coalesce(v_primary.education_level, v_duplicate.education_level),
+    possible_duplicate_ids = (
+      select array_agg(distinct dup_id)
+      from unnest(coalesce(v_primary.possible_duplicate_ids, '{}') || coalesce(v_duplicate.possible_duplicate_ids, '{}')) as dup_id
+      where dup_id not in (p_primary_id, p_duplicate_id)
+    )
+  where id = p_primary_id;
+
+  -- Giữ lại mọi CV: phiên bản của hồ sơ trùng trở thành phiên bản cũ của hồ sơ chính
+  update public.candidate_resumes
+  set candidate_id = p_primary_id, is_current = false
+  where candidate_id = p_duplicate_id;
+
+  -- Mục shortlist của hồ sơ trùng chuyển sang hồ sơ chính, trừ shortlist đã có hồ sơ chính
+  update public.shortlist_entries e
+  set candidate_id = p_primary_id
+  where e.candidate_id = p_duplicate_id
+    and not exists (
+      select 1 from public.shortlist_entries p
+      where p.shortlist_id = e.shortlist_id and p.candidate_id = p_primary_id
+    );
+
+  -- Gợi ý tìm lại của hồ sơ trùng chuyển sang hồ sơ chính, trừ vị trí đã có gợi ý cho hồ sơ chính
+  update public.rediscovery_suggestions r
+  set candidate_id = p_primary_id
+  where r.candidate_id = p_duplicate_id
+    and not exists (
+      select 1 from public.rediscovery_suggestions p
+      where p.job_requirement_id = r.job_requirement_id and p.candidate_id = p_primary_id
+    );
+
+  -- Cập nhật các hồ sơ khác đang trỏ tới hồ sơ trùng
+  update public.candidates
+  set possible_duplicate_ids = nullif(
+    array_remove(array_replace(possible_duplicate_ids, p_duplicate_id, p_primary_id), id),
+    '{}'
+  )
+  where user_id = p_user_id
+    and p_duplicate_id = any(possible_duplicate_ids);
+
+  delete from public.candidates where id = p_duplicate_id;
+
+  return query select * from public.candidates where id = p_primary_id;
+end;
+$$;
@@ -0,0 +1,3 @@
+-- Phân trang danh sách ứng viên theo cursor (created_at, id) giảm dần trong phạm vi từng user
+create index if not exists candidates_user_created_id_idx
+  on public.candidates (user_id, created_at desc, id desc);
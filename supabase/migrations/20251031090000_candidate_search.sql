@@ -0,0 +1,55 @@
+-- Tìm kiếm, lọc và sắp xếp danh sách ứng viên phía server (get-candidate).
+-- search_vector gom tên, vị trí, kỹ năng và nội dung CV, bỏ dấu để gõ không dấu vẫn tìm được
+create extension if not exists unaccent with schema extensions;
+
+create or replace function public.candidate_search_vector(
+  p_full_name text,
+  p_applied_position text,
+  p_skills text[],
+  p_resume_text text
+)
+returns tsvector
+language sql
+stable
+as $$
+  select
+    setweight(to_tsvector('simple', lower(extensions.unaccent(coalesce(p_full_name, '')))), 'A') ||
+    setweight(to_tsvector('simple', lower(extensions.unaccent(
+      coalesce(p_applied_position, '') || ' ' || coalesce(array_to_string(p_skills, ' '), '')
+    ))), 'B') ||
+    setweight(to_tsvector('simple', lower(extensions.unaccent(coalesce(p_resume_text, '')))), 'C');
+$$;
+
+alter table public.candidates
+  add column if not exists search_vector tsvector;
+
+create or replace function public.touch_candidate_search_vector()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.search_vector = public.candidate_search_vector(
+    new.full_name, new.applied_position, new.skills, new.resume_text
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists candidates_touch_search_vector on public.candidates;
+create trigger candidates_touch_search_vector
+  before insert or update of full_name, applied_position, skills, resume_text on public.candidates
+  for each row execute function public.touch_candidate_search_vector();
+
+update public.candidates
+set search_vector = public.candidate_search_vector(full_name, applied_position, skills, resume_text);
+
+create index if not exists candidates_search_vector_idx
+  on public.candidates using gin (search_vector);
+create index if not exists candidates_skills_idx
+  on public.candidates using gin (skills);
+
+-- Các khóa sắp xếp khác ngoài created_at (đã có candidates_user_created_id_idx)
+create index if not exists candidates_user_score_id_idx
+  on public.candidates (user_id, matching_score, id);
+create index if not exists candidates_user_name_id_idx
+  on public.candidates (user_id, full_name, id);
@@ -0,0 +1,214 @@
+-- Hoạt động của ứng viên cho màn hình chi tiết: lịch sử đổi trạng thái (ghi tự động) và ghi chú
+create table if not exists public.candidate_status_history (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  candidate_id uuid not null references public.candidates(id) on delete cascade,
+  -- null: trạng thái ban đầu khi tạo hồ sơ
+  from_status text,
+  to_status text not null,
+  -- null khi đổi từ edge function (service role)
+  changed_by uuid references auth.users(id) on delete set null,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists candidate_status_history_candidate_idx
+  on public.candidate_status_history (candidate_id, changed_at desc);
+
+-- security definer: client đổi trạng thái trực tiếp nhưng không có quyền ghi vào bảng lịch sử
+create or replace function public.record_candidate_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.status is distinct from old.status then
+    insert into public.candidate_status_history (user_id, candidate_id, from_status, to_status, changed_by)
+    values (
+      new.user_id,
+      new.id,
+      case when tg_op = 'UPDATE' then old.status end,
+      new.status,
+      auth.uid()
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists candidates_record_status on public.candidates;
+create trigger candidates_record_status
+  after insert or update of status on public.candidates
+  for each row execute function public.record_candidate_status_change();
+
+-- Hồ sơ đã có: trạng thái hiện tại là mốc đầu tiên của lịch sử
+insert into public.candidate_status_history (user_id, candidate_id, from_status, to_status, changed_at)
+select c.user_id, c.id, null, c.status, c.status_updated_at
+from public.candidates c
+where not exists (
+  select 1 from public.candidate_status_history h where h.candidate_id = c.id
+);
+
+alter table public.candidate_status_history enable row level security;
+
+-- Lịch sử chỉ được ghi bởi trigger
+create policy "Users can view own candidate status history"
+  on public.candidate_status_history for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create table if not exists public.candidate_notes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  candidate_id uuid not null references public.candidates(id) on delete cascade,
+  body text not null check (length(trim(body)) > 0 and length(body) <= 5000),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists candidate_notes_candidate_idx
+  on public.candidate_notes (candidate_id, created_at desc);
+
+drop trigger if exists candidate_notes_touch on public.candidate_notes;
+create trigger candidate_notes_touch
+  before update on public.candidate_notes
+  for each row execute function public.touch_updated_at();
+
+alter table public.candidate_notes enable row level security;
+
+create policy "Users can view own candidate notes"
+  on public.candidate_notes for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Chỉ ghi chú cho ứng viên của chính mình
+create policy "Users can insert own candidate notes"
+  on public.candidate_notes for insert
+  to authenticated
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.candidates c
+      where c.id = candidate_id and c.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can update own candidate notes"
+  on public.candidate_notes for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete own candidate notes"
+  on public.candidate_notes for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Gộp hồ sơ trùng: chuyển cả lịch sử trạng thái và ghi chú sang hồ sơ chính
+create or replace function public.merge_candidates(
+  p_user_id uuid,
+  p_primary_id uuid,
+  p_duplicate_id uuid
+)
+returns setof public.candidates
+language plpgsql
+as $$
+declare
+  v_primary public.candidates;
+  v_duplicate public.candidates;
+begin
+  if p_primary_id = p_duplicate_id then
+    raise exception 'Cannot merge a candidate into itself' using errcode = '22023';
+  end if;
+
+  select * into v_primary
+  from public.candidates
+  where id = p_primary_id and user_id = p_user_id
+  for update;
+
+  select * into v_duplicate
+  from public.candidates
+  where id = p_duplicate_id and user_id = p_user_id
+  for update;
+
+  if v_primary.id is null or v_duplicate.id is null then
+    raise exception 'Candidate not found' using errcode = 'P0002';
+  end if;
+
+  update public.candidates
+  set
+    skills = (
+      select array_agg(s.skill order by s.ord)
+      from (
+        select distinct on (lower(skill)) skill, ord
+        from unnest(coalesce(v_primary.skills, '{}') || coalesce(v_duplicate.skills, '{}'))
+          with ordinality as t(skill, ord)
+        order by lower(skill), ord
+      ) s
+    ),
+    detected_skills = (
+      select array_agg(distinct skill)
+      from unnest(coalesce(v_primary.detected_skills, '{}') || coalesce(v_duplicate.detected_skills, '{}')) as skill
+    ),
+    resume_text = coalesce(v_primary.resume_text, v_duplicate.resume_text),
+    email = coalesce(v_primary.email, v_duplicate.email),
+    phone = coalesce(v_primary.phone, v_duplicate.phone),
+    applied_position = coalesce(v_primary.applied_position, v_duplicate.applied_position),
+    matching_score = greatest(v_primary.matching_score, v_duplicate.matching_score),
+    total_years_experience = greatest(v_primary.total_years_experience, v_duplicate.total_years_experience),
+    skill_years = nullif(coalesce(v_duplicate.skill_years, '{}'::jsonb) || coalesce(v_primary.skill_years, '{}'::jsonb), '{}'::jsonb),
+    seniority = coalesce(v_primary.seniority, v_duplicate.seniority),
+    education_level = coalesce(v_primary.education_level, v_duplicate.education_level),
+    possible_duplicate_ids = (
+      select array_agg(distinct dup_id)
+      from unnest(coalesce(v_primary.possible_duplicate_ids, '{}') || coalesce(v_duplicate.possible_duplicate_ids, '{}')) as dup_id
+      where dup_id not in (p_primary_id, p_duplicate_id)
+    )
+  where id = p_primary_id;
+
+  -- Giữ lại mọi CV: phiên bản của hồ sơ trùng trở thành phiên bản cũ của hồ sơ chính
+  update public.candidate_resumes
+  set candidate_id = p_primary_id, is_current = false
+  where candidate_id = p_duplicate_id;
+
+  -- Mục shortlist của hồ sơ trùng chuyển sang hồ sơ chính, trừ shortlist đã có hồ sơ chính
+  update public.shortlist_entries e
+  set candidate_id = p_primary_id
+  where e.candidate_id = p_duplicate_id
+    and not exists (
+      select 1 from public.shortlist_entries p
+      where p.shortlist_id = e.shortlist_id and p.candidate_id = p_primary_id
+    );
+
+  -- Gợi ý tìm lại của hồ sơ trùng chuyển sang hồ sơ chính, trừ vị trí đã có gợi ý cho hồ sơ chính
+  update public.rediscovery_suggestions r
+  set candidate_id = p_primary_id
+  where r.candidate_id = p_duplicate_id
+    and not exists (
+      select 1 from public.rediscovery_suggestions p
+      where p.job_requirement_id = r.job_requirement_id and p.candidate_id = p_primary_id
+    );
+
+  -- Lịch sử trạng thái và ghi chú của hồ sơ trùng được giữ lại trên hồ sơ chính
+  update public.candidate_status_history
+  set candidate_id = p_primary_id
+  where candidate_id = p_duplicate_id;
+
+  update public.candidate_notes
+  set candidate_id = p_primary_id
+  where candidate_id = p_duplicate_id;
+
+  -- Cập nhật các hồ sơ khác đang trỏ tới hồ sơ trùng
+  update public.candidates
+  set possible_duplicate_ids = nullif(
+    array_remove(array_replace(possible_duplicate_ids, p_duplicate_id, p_primary_id), id),
+    '{}'
+  )
+  where user_id = p_user_id
+    and p_duplicate_id = any(possible_duplicate_ids);
+
+  delete from public.candidates where id = p_duplicate_id;
+
+  return query select * from public.candidates where id = p_primary_id;
+end;
+$$;
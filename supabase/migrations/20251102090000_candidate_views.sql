@@ -0,0 +1,85 @@
+-- View đã lưu của danh sách ứng viên: bộ lọc, cách sắp xếp và các cột hiển thị.
+-- View chia sẻ được mọi người trong nhóm xem và áp dụng lên hồ sơ của chính họ
+create table if not exists public.candidate_views (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null check (char_length(btrim(name)) between 1 and 100),
+  -- Cùng dạng với filters của get-candidate (_shared/candidateQuery.ts)
+  filters jsonb not null default '{}'::jsonb check (jsonb_typeof(filters) = 'object'),
+  sort text not null default 'created_at_desc' check (sort in (
+    'created_at_desc', 'created_at_asc',
+    'matching_score_desc', 'matching_score_asc',
+    'full_name_asc', 'full_name_desc'
+  )),
+  visible_columns text[], -- null: hiển thị mọi cột
+  is_shared boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+create index if not exists candidate_views_shared_idx
+  on public.candidate_views (created_at desc)
+  where is_shared;
+
+drop trigger if exists candidate_views_touch on public.candidate_views;
+create trigger candidate_views_touch
+  before update on public.candidate_views
+  for each row execute function public.touch_updated_at();
+
+-- Ghim view lên đầu danh sách, riêng cho từng user (ghim được cả view được chia sẻ)
+create table if not exists public.candidate_view_pins (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  view_id uuid not null references public.candidate_views(id) on delete cascade,
+  pinned_at timestamptz not null default now(),
+  primary key (user_id, view_id)
+);
+
+create index if not exists candidate_view_pins_view_idx
+  on public.candidate_view_pins (view_id);
+
+alter table public.candidate_views enable row level security;
+alter table public.candidate_view_pins enable row level security;
+
+create policy "Users can view own or shared candidate views"
+  on public.candidate_views for select
+  to authenticated
+  using (auth.uid() = user_id or is_shared);
+
+create policy "Users can insert own candidate views"
+  on public.candidate_views for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Users can update own candidate views"
+  on public.candidate_views for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete own candidate views"
+  on public.candidate_views for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can view own candidate view pins"
+  on public.candidate_view_pins for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Chỉ ghim được view của mình hoặc view đang được chia sẻ
+create policy "Users can insert own candidate view pins"
+  on public.candidate_view_pins for insert
+  to authenticated
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.candidate_views v
+      where v.id = view_id and (v.user_id = auth.uid() or v.is_shared)
+    )
+  );
+
+create policy "Users can delete own candidate view pins"
+  on public.candidate_view_pins for delete
+  to authenticated
+  using (auth.uid() = user_id);
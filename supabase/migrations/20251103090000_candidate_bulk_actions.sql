@@ -0,0 +1,282 @@
+-- Thao tác hàng loạt trên danh sách ứng viên: đổi trạng thái, xóa, gắn nhãn, thêm vào shortlist
+
+-- Nhãn tự do do người tuyển dụng gắn (khác kỹ năng)
+alter table public.candidates
+  add column if not exists tags text[] not null default '{}';
+
+create index if not exists candidates_tags_idx
+  on public.candidates using gin (tags);
+
+-- Đổi trạng thái từ edge function (service role) không có auth.uid():
+-- người thực hiện được truyền qua app.changed_by trong transaction
+create or replace function public.record_candidate_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.status is distinct from old.status then
+    insert into public.candidate_status_history (user_id, candidate_id, from_status, to_status, changed_by)
+    values (
+      new.user_id,
+      new.id,
+      case when tg_op = 'UPDATE' then old.status end,
+      new.status,
+      coalesce(auth.uid(), nullif(current_setting('app.changed_by', true), '')::uuid)
+    );
+  end if;
+  return new;
+end;
+$$;
+
+-- Áp một thao tác lên nhiều hồ sơ trong một transaction. Hồ sơ không thuộc user được bỏ qua
+-- và báo lại theo từng dòng; lỗi giữa chừng hoàn tác toàn bộ.
+-- result: updated | unchanged | deleted | added | already_in_shortlist | not_found
+create or replace function public.bulk_candidate_action(
+  p_user_id uuid,
+  p_action text,
+  p_candidate_ids uuid[],
+  p_payload jsonb default '{}'::jsonb
+)
+returns table (candidate_id uuid, ok boolean, result text)
+language plpgsql
+as $$
+#variable_conflict use_column
+declare
+  v_owned uuid[];
+  v_shortlist_id uuid;
+  v_start integer;
+begin
+  perform set_config('app.changed_by', p_user_id::text, true);
+
+  -- Khóa các hồ sơ của user theo thứ tự id để hai thao tác đồng thời không deadlock
+  select coalesce(array_agg(c.id order by c.id), '{}') into v_owned
+  from (
+    select id from public.candidates
+    where id = any(p_candidate_ids) and user_id = p_user_id
+    order by id
+    for update
+  ) c;
+
+  if p_action = 'status' then
+    return query
+    with changed as (
+      update public.candidates c
+      set status = p_payload ->> 'status'
+      where c.id = any(v_owned) and c.status is distinct from p_payload ->> 'status'
+      returning c.id
+    )
+    select
+      i.id,
+      i.id = any(v_owned),
+      case
+        when not i.id = any(v_owned) then 'not_found'
+        when exists (select 1 from changed ch where ch.id = i.id) then 'updated'
+        else 'unchanged'
+      end
+    from unnest(p_candidate_ids) as i(id);
+
+  elsif p_action = 'delete' then
+    return query
+    with removed as (
+      delete from public.candidates c
+      where c.id = any(v_owned)
+      returning c.id
+    )
+    select
+      i.id,
+      exists (select 1 from removed r where r.id = i.id),
+      case when exists (select 1 from removed r where r.id = i.id) then 'deleted' else 'not_found' end
+    from unnest(p_candidate_ids) as i(id);
+
+  elsif p_action = 'tag' then
+    -- Thêm rồi bỏ nhãn, không phân biệt hoa thường; giữ thứ tự gắn nhãn
+    return query
+    with changed as (
+      update public.candidates c
+      set tags = (
+        select coalesce(array_agg(t.tag order by t.ord), '{}')
+        from (
+          select distinct on (lower(tag)) tag, ord
+          from unnest(
+            c.tags || array(select jsonb_array_elements_text(coalesce(p_payload -> 'add', '[]'::jsonb)))
+          ) with ordinality as u(tag, ord)
+          order by lower(tag), ord
+        ) t
+        where lower(t.tag) <> all (
+          select lower(r) from jsonb_array_elements_text(coalesce(p_payload -> 'remove', '[]'::jsonb)) as r
+        )
+      )
+      where c.id = any(v_owned)
+      returning c.id
+    )
+    select
+      i.id,
+      i.id = any(v_owned),
+      case when exists (select 1 from changed ch where ch.id = i.id) then 'updated' else 'not_found' end
+    from unnest(p_candidate_ids) as i(id);
+
+  elsif p_action = 'shortlist' then
+    v_shortlist_id := (p_payload ->> 'shortlist_id')::uuid;
+
+    perform 1 from public.shortlists s
+    where s.id = v_shortlist_id and s.user_id = p_user_id
+    for update;
+    if not found then
+      raise exception 'Shortlist not found' using errcode = 'P0002';
+    end if;
+
+    select coalesce(max(e.position), -1) + 1 into v_start
+    from public.shortlist_entries e
+    where e.shortlist_id = v_shortlist_id;
+
+    -- Thêm vào cuối shortlist theo thứ tự đã chọn, kèm điểm hiện tại
+    return query
+    with added as (
+      insert into public.shortlist_entries (shortlist_id, candidate_id, position, score_snapshot)
+      select
+        v_shortlist_id,
+        c.id,
+        v_start + (row_number() over (order by array_position(p_candidate_ids, c.id)))::integer - 1,
+        c.matching_score
+      from public.candidates c
+      where c.id = any(v_owned)
+      on conflict (shortlist_id, candidate_id) do nothing
+      returning shortlist_entries.candidate_id as id
+    )
+    select
+      i.id,
+      i.id = any(v_owned),
+      case
+        when not i.id = any(v_owned) then 'not_found'
+        when exists (select 1 from added a where a.id = i.id) then 'added'
+        else 'already_in_shortlist'
+      end
+    from unnest(p_candidate_ids) as i(id);
+
+  else
+    raise exception 'Unknown bulk action: %', p_action using errcode = '22023';
+  end if;
+end;
+$$;
+
+revoke execute on function public.bulk_candidate_action(uuid, text, uuid[], jsonb)
+  from public, anon, authenticated;
+
+-- Gộp hồ sơ: nhãn của hai hồ sơ được gộp lại
+create or replace function public.merge_candidates(
+  p_user_id uuid,
+  p_primary_id uuid,
+  p_duplicate_id uuid
+)
+returns setof public.candidates
+language plpgsql
+as $$
+declare
+  v_primary public.candidates;
+  v_duplicate public.candidates;
+begin
+  if p_primary_id = p_duplicate_id then
+    raise exception 'Cannot merge a candidate into itself' using errcode = '22023';
+  end if;
+
+  select * into v_primary
+  from public.candidates
+  where id = p_primary_id and user_id = p_user_id
+  for update;
+
+  select * into v_duplicate
+  from public.candidates
+  where id = p_duplicate_id and user_id = p_user_id
+  for update;
+
+  if v_primary.id is null or v_duplicate.id is null then
+    raise exception 'Candidate not found' using errcode = 'P0002';
+  end if;
+
+  update public.candidates
+  set
+    skills = (
+      select array_agg(s.skill order by s.ord)
+      from (
+        select distinct on (lower(skill)) skill, ord
+        from unnest(coalesce(v_primary.skills, '{}') || coalesce(v_duplicate.skills, '{}'))
+          with ordinality as t(skill, ord)
+        order by lower(skill), ord
+      ) s
+    ),
+    detected_skills = (
+      select array_agg(distinct skill)
+      from unnest(coalesce(v_primary.detected_skills, '{}') || coalesce(v_duplicate.detected_skills, '{}')) as skill
+    ),
+    resume_text = coalesce(v_primary.resume_text, v_duplicate.resume_text),
+    email = coalesce(v_primary.email, v_duplicate.email),
+    phone = coalesce(v_primary.phone, v_duplicate.phone),
+    applied_position = coalesce(v_primary.applied_position, v_duplicate.applied_position),
+    matching_score = greatest(v_primary.matching_score, v_duplicate.matching_score),
+    total_years_experience = greatest(v_primary.total_years_experience, v_duplicate.total_years_experience),
+    skill_years = nullif(coalesce(v_duplicate.skill_years, '{}'::jsonb) || coalesce(v_primary.skill_years, '{}'::jsonb), '{}'::jsonb),
+    seniority = coalesce(v_primary.seniority, v_duplicate.seniority),
+    education_level = coalesce(v_primary.education_level, v_duplicate.education_level),
+    tags = (
+      select coalesce(array_agg(t.tag order by t.ord), '{}')
+      from (
+        select distinct on (lower(tag)) tag, ord
+        from unnest(v_primary.tags || v_duplicate.tags) with ordinality as u(tag, ord)
+        order by lower(tag), ord
+      ) t
+    ),
+    possible_duplicate_ids = (
+      select array_agg(distinct dup_id)
+      from unnest(coalesce(v_primary.possible_duplicate_ids, '{}') || coalesce(v_duplicate.possible_duplicate_ids, '{}')) as dup_id
+      where dup_id not in (p_primary_id, p_duplicate_id)
+    )
+  where id = p_primary_id;
+
+  -- Giữ lại mọi CV: phiên bản của hồ sơ trùng trở thành phiên bản cũ của hồ sơ chính
+  update public.candidate_resumes
+  set candidate_id = p_primary_id, is_current = false
+  where candidate_id = p_duplicate_id;
+
+  -- Mục shortlist của hồ sơ trùng chuyển sang hồ sơ chính, trừ shortlist đã có hồ sơ chính
+  update public.shortlist_entries e
+  set candidate_id = p_primary_id
+  where e.candidate_id = p_duplicate_id
+    and not exists (
+      select 1 from public.shortlist_entries p
+      where p.shortlist_id = e.shortlist_id and p.candidate_id = p_primary_id
+    );
+
+  -- Gợi ý tìm lại của hồ sơ trùng chuyển sang hồ sơ chính, trừ vị trí đã có gợi ý cho hồ sơ chính
+  update public.rediscovery_suggestions r
+  set candidate_id = p_primary_id
+  where r.candidate_id = p_duplicate_id
+    and not exists (
+      select 1 from public.rediscovery_suggestions p
+      where p.job_requirement_id = r.job_requirement_id and p.candidate_id = p_primary_id
+    );
+
+  -- Lịch sử trạng thái và ghi chú của hồ sơ trùng được giữ lại trên hồ sơ chính
+  update public.candidate_status_history
+  set candidate_id = p_primary_id
+  where candidate_id = p_duplicate_id;
+
+  update public.candidate_notes
+  set candidate_id = p_primary_id
+  where candidate_id = p_duplicate_id;
+
+  -- Cập nhật các hồ sơ khác đang trỏ tới hồ sơ trùng
+  update public.candidates
+  set possible_duplicate_ids = nullif(
+    array_remove(array_replace(possible_duplicate_ids, p_duplicate_id, p_primary_id), id),
+    '{}'
+  )
+  where user_id = p_user_id
+    and p_duplicate_id = any(possible_duplicate_ids);
+
+  delete from public.candidates where id = p_duplicate_id;
+
+  return query select * from public.candidates where id = p_primary_id;
+end;
+$$;
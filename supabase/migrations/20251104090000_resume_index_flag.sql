@@ -0,0 +1,33 @@
+-- Đánh dấu CV đã được đưa vào chỉ mục BM25, để recommend chỉ cần tìm CV chưa có chỉ mục
+-- qua partial index thay vì so toàn bộ hồ sơ của user với candidate_resume_terms mỗi lần gọi
+alter table public.candidates
+  add column if not exists resume_indexed_at timestamptz;
+
+update public.candidates c
+set resume_indexed_at = t.indexed_at
+from public.candidate_resume_terms t
+where t.candidate_id = c.id
+  and c.resume_indexed_at is null;
+
+-- Nội dung CV đổi thì phải tách từ lại; edge function ghi resume_indexed_at sau khi ghi chỉ mục
+create or replace function public.reset_candidate_resume_indexed()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.resume_text is distinct from old.resume_text then
+    new.resume_indexed_at = null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists candidates_reset_resume_indexed on public.candidates;
+create trigger candidates_reset_resume_indexed
+  before update of resume_text on public.candidates
+  for each row execute function public.reset_candidate_resume_indexed();
+
+-- Chỉ chứa CV đang chờ tách từ nên gần như luôn rỗng
+create index if not exists candidates_resume_unindexed_idx
+  on public.candidates (user_id)
+  where resume_indexed_at is null and resume_text is not null;